@@ -0,0 +1,105 @@
+/**
+ * Request Amounts
+ *
+ * Reads the amounts and currencies sent to the API routes into Money and
+ * enforces a maximum per currency. Maximums are in major units and can be
+ * changed with MAX_AMOUNT_<CURRENCY>, e.g. MAX_AMOUNT_USD=250.
+ */
+
+import {
+  CURRENCY_CODES,
+  DEFAULT_CURRENCY,
+  MoneyError,
+  isCurrencyCode,
+  parseMoney,
+  toDecimalString,
+  type CurrencyCode,
+  type Money
+} from './money';
+import { ApiError } from './api-errors';
+import { createLogger } from './logger';
+
+const log = createLogger({ component: 'amounts' });
+
+// Largest amount accepted in one request when not configured (major units)
+const DEFAULT_MAXIMUMS: Record<CurrencyCode, string> = {
+  USD: '10000',
+  EUR: '10000',
+  GBP: '10000',
+  CAD: '10000',
+  AUD: '10000',
+  CHF: '10000',
+  MXN: '200000',
+  JPY: '1500000',
+  KRW: '15000000',
+  KWD: '3000',
+  BHD: '3750',
+  JOD: '7000'
+};
+
+/**
+ * Largest amount a request may carry in a currency
+ */
+export function maximumAmount(currency: CurrencyCode): Money {
+  const configured = process.env[`MAX_AMOUNT_${currency}`];
+  try {
+    return parseMoney(configured ?? DEFAULT_MAXIMUMS[currency], currency);
+  } catch (error: unknown) {
+    if (error instanceof MoneyError) {
+      log.warn(`Ignoring invalid MAX_AMOUNT_${currency}`, { error: error.message });
+      return parseMoney(DEFAULT_MAXIMUMS[currency], currency);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read a currency code, defaulting to USD when none is given
+ */
+export function parseCurrency(value: unknown, field = 'currency'): CurrencyCode {
+  if (value === undefined || value === null || value === '') {
+    return DEFAULT_CURRENCY;
+  }
+  const code = typeof value === 'string' ? value.trim().toUpperCase() : value;
+  if (!isCurrencyCode(code)) {
+    throw new ApiError(400, 'VALIDATION_ERROR', `${field} must be one of ${CURRENCY_CODES.join(', ')}`);
+  }
+  return code;
+}
+
+/**
+ * Read an amount in major units, rejecting zero (unless allowed) and anything
+ * above the maximum (unless unbounded, as for search filters)
+ */
+export function parseAmount(
+  value: unknown,
+  currency: CurrencyCode,
+  options: { field?: string; allowZero?: boolean; unbounded?: boolean } = {}
+): Money {
+  const field = options.field ?? 'amount';
+  if (value === undefined || value === null || value === '') {
+    throw new ApiError(400, 'VALIDATION_ERROR', `${field} is required`);
+  }
+
+  let parsed: Money;
+  try {
+    parsed = parseMoney(value, currency);
+  } catch (error: unknown) {
+    if (error instanceof MoneyError) {
+      throw new ApiError(400, 'VALIDATION_ERROR', `${field}: ${error.message}`);
+    }
+    throw error;
+  }
+
+  if (parsed.amount === 0 && !options.allowZero) {
+    throw new ApiError(400, 'VALIDATION_ERROR', `${field} must be greater than zero`);
+  }
+
+  const maximum = maximumAmount(currency);
+  if (!options.unbounded && parsed.amount > maximum.amount) {
+    throw new ApiError(422, 'AMOUNT_TOO_LARGE', `${field} exceeds the maximum of ${toDecimalString(maximum)} ${currency}`, {
+      details: { maximum: toDecimalString(maximum), currency }
+    });
+  }
+  return parsed;
+}
@@ -0,0 +1,230 @@
+/**
+ * API Error Model
+ *
+ * One error envelope for every route under /api/marqeta:
+ *
+ *   { success: false, error: 'Human message', code: 'CARD_NOT_FOUND', retryable: false, details? }
+ *
+ * Routes throw ApiError (or let MarqetaApiError / ValidationError escape)
+ * and apiHandler() turns whatever was thrown into the envelope. Clients
+ * branch on `code`, never on the message.
+ */
+
+import type { NextApiHandler, NextApiResponse } from 'next';
+import { MarqetaApiError } from './marqeta';
+import { ValidationError } from './validation';
+import { CORRELATION_HEADER, createLogger, redact, requestCorrelationId, withCorrelationId } from './logger';
+
+const log = createLogger({ component: 'api' });
+
+/**
+ * Stable error codes returned by the API
+ */
+export type ErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'AMOUNT_TOO_LARGE'
+  | 'METHOD_NOT_ALLOWED'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CARD_NOT_FOUND'
+  | 'CARD_SUSPENDED'
+  | 'CARD_TERMINATED'
+  | 'CARD_NOT_ACTIVE'
+  | 'CARD_TRANSITION_INVALID'
+  | 'MERCHANT_NOT_FOUND'
+  | 'PAYMENT_REQUEST_NOT_FOUND'
+  | 'PAYMENT_REQUEST_EXPIRED'
+  | 'PAYMENT_REQUEST_PAID'
+  | 'PAYMENT_REQUEST_IN_PROGRESS'
+  | 'NFC_TAG_NOT_FOUND'
+  | 'NFC_TAG_REVOKED'
+  | 'REVEAL_GRANT_NOT_FOUND'
+  | 'REVEAL_GRANT_EXPIRED'
+  | 'REVEAL_GRANT_USED'
+  | 'TRANSACTION_DECLINED'
+  | 'AUTO_CLEAR_FAILED'
+  | 'PIN_NOT_SET'
+  | 'PIN_ALREADY_SET'
+  | 'PIN_LOCKED'
+  | 'INVALID_PIN'
+  | 'IDEMPOTENCY_KEY_INVALID'
+  | 'IDEMPOTENCY_KEY_IN_USE'
+  | 'IDEMPOTENCY_KEY_REUSED'
+  | 'RATE_LIMITED'
+  | 'MARQETA_BAD_REQUEST'
+  | 'MARQETA_UNAUTHORIZED'
+  | 'MARQETA_FORBIDDEN'
+  | 'MARQETA_NOT_FOUND'
+  | 'MARQETA_CONFLICT'
+  | 'MARQETA_RATE_LIMITED'
+  | 'MARQETA_UNAVAILABLE'
+  | 'MARQETA_TIMEOUT'
+  | 'MARQETA_UNREACHABLE'
+  | 'MARQETA_INVALID_RESPONSE'
+  | 'INTERNAL_ERROR';
+
+/**
+ * Body of every failed API response
+ */
+export interface ApiErrorResponse {
+  success: false;
+  error: string;
+  code: ErrorCode;
+  retryable: boolean;
+  details?: unknown;
+}
+
+/**
+ * An error a route reports to its client
+ */
+export class ApiError extends Error {
+  status: number;
+  code: ErrorCode;
+  retryable: boolean;
+  details?: unknown;
+  // Response headers sent with the error, e.g. Retry-After
+  headers?: Record<string, string>;
+
+  constructor(
+    status: number,
+    code: ErrorCode,
+    message: string,
+    options: { retryable?: boolean; details?: unknown; headers?: Record<string, string> } = {}
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.retryable = options.retryable ?? false;
+    this.details = options.details;
+    this.headers = options.headers;
+  }
+}
+
+/**
+ * Translate a failed Marqeta call into the error our clients see
+ *
+ * Marqeta's message and body are redacted like log lines are, since they can
+ * echo card numbers, CVVs and credentials back.
+ */
+function fromMarqetaError(error: MarqetaApiError): ApiError {
+  const message = redact(error.message) as string;
+  const details = {
+    marqeta: {
+      status: error.status,
+      code: error.code,
+      requestId: error.requestId,
+      body: redact(error.details)
+    }
+  };
+  const options = { retryable: error.retryable, details };
+
+  if (error.code === 'TIMEOUT') {
+    return new ApiError(504, 'MARQETA_TIMEOUT', message, options);
+  }
+  if (error.code === 'NETWORK_ERROR') {
+    return new ApiError(502, 'MARQETA_UNREACHABLE', message, options);
+  }
+  if (error.code === 'INVALID_RESPONSE') {
+    return new ApiError(502, 'MARQETA_INVALID_RESPONSE', message, options);
+  }
+
+  switch (error.status) {
+    case 400:
+      return new ApiError(400, 'MARQETA_BAD_REQUEST', message, options);
+    case 401:
+      return new ApiError(401, 'MARQETA_UNAUTHORIZED', `Authentication failed: ${message}. Please check your Marqeta API credentials.`, options);
+    case 403:
+      return new ApiError(403, 'MARQETA_FORBIDDEN', `Authorization failed: ${message}. You don't have permission to perform this action.`, options);
+    case 404:
+      return new ApiError(404, 'MARQETA_NOT_FOUND', `Resource not found: ${message}`, options);
+    case 409:
+      return new ApiError(409, 'MARQETA_CONFLICT', `Conflict: ${message}. A resource with this token may already exist.`, options);
+    case 429:
+      return new ApiError(429, 'MARQETA_RATE_LIMITED', message, options);
+  }
+
+  return error.status >= 500
+    ? new ApiError(502, 'MARQETA_UNAVAILABLE', message, options)
+    : new ApiError(error.status, 'MARQETA_BAD_REQUEST', message, options);
+}
+
+/**
+ * Normalise anything thrown by a route into an ApiError
+ */
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) {
+    return error;
+  }
+  if (error instanceof MarqetaApiError) {
+    return fromMarqetaError(error);
+  }
+  if (error instanceof ValidationError) {
+    return new ApiError(400, 'VALIDATION_ERROR', error.message, { details: { path: error.path } });
+  }
+  if (error instanceof SyntaxError) {
+    return new ApiError(400, 'VALIDATION_ERROR', `Malformed JSON: ${error.message}`);
+  }
+  return new ApiError(500, 'INTERNAL_ERROR', 'Internal server error');
+}
+
+/**
+ * Send the error envelope for anything thrown by a route
+ */
+export function sendError(res: NextApiResponse, error: unknown) {
+  const apiError = toApiError(error);
+  const body: ApiErrorResponse = {
+    success: false,
+    error: apiError.message,
+    code: apiError.code,
+    retryable: apiError.retryable,
+    ...(apiError.details !== undefined ? { details: apiError.details } : {})
+  };
+  for (const [name, value] of Object.entries(apiError.headers ?? {})) {
+    res.setHeader(name, value);
+  }
+  return res.status(apiError.status).json(body);
+}
+
+/**
+ * Wrap a route: reject other methods with 405 and report thrown errors in the envelope
+ *
+ * Each request runs under a correlation id (returned in X-Correlation-Id)
+ * that its log lines and Marqeta calls carry, and is logged once it finishes.
+ */
+export function apiHandler(methods: string[], handler: NextApiHandler): NextApiHandler {
+  return (req, res) => {
+    const correlationId = requestCorrelationId(req);
+    res.setHeader(CORRELATION_HEADER, correlationId);
+
+    return withCorrelationId(correlationId, async () => {
+      const started = Date.now();
+      // 'finish' fires outside the request's async context, so name the id here
+      res.once('finish', () => {
+        log.info('Request finished', {
+          correlation_id: correlationId,
+          method: req.method,
+          path: req.url,
+          status: res.statusCode,
+          duration_ms: Date.now() - started
+        });
+      });
+
+      if (!methods.includes(req.method ?? '')) {
+        res.setHeader('Allow', methods.join(', '));
+        return sendError(res, new ApiError(405, 'METHOD_NOT_ALLOWED', 'Method not allowed'));
+      }
+
+      try {
+        await handler(req, res);
+      } catch (error: unknown) {
+        const apiError = toApiError(error);
+        if (apiError.status >= 500) {
+          log.error('Request failed', { method: req.method, path: req.url, error });
+        }
+        sendError(res, apiError);
+      }
+    });
+  };
+}
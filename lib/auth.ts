@@ -0,0 +1,277 @@
+/**
+ * Authentication and Roles
+ *
+ * Every /api/marqeta route checks who is calling and what role they have:
+ *
+ * - admin: setup, spend and merchant controls, keys, tags and webhooks
+ * - merchant: charges, refunds and payment requests
+ * - cardholder: views of their own card (balance, history, state, details)
+ *
+ * Callers authenticate with the admin Basic credentials, an API key
+ * (Authorization: Bearer <key> or X-API-Key) issued by an admin, or a session
+ * cookie from /api/marqeta/session. Keys and sessions are stored hashed.
+ * Missing or invalid credentials get 401 UNAUTHORIZED; a caller whose role
+ * or card does not fit gets 403 FORBIDDEN. Admins may do everything.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { ADMIN_PASSWORD, ADMIN_USERNAME, hasBasicCredentials } from './basic-auth';
+import { getCard, MarqetaApiError } from './marqeta';
+import { getResource, listResources, saveResource } from './resource-store';
+import { ApiError } from './api-errors';
+
+export type Role = 'admin' | 'merchant' | 'cardholder';
+
+export const ROLES: readonly Role[] = ['admin', 'merchant', 'cardholder'];
+
+/**
+ * An authenticated caller; cardholders are tied to one card
+ */
+export interface Principal {
+  role: Role;
+  via: 'basic' | 'api_key' | 'session';
+  name: string;
+  card_token?: string;
+  user_token?: string;
+}
+
+/**
+ * A stored API key (token is the key id; only a hash of the secret is kept)
+ */
+export interface ApiKey {
+  token: string;
+  name: string;
+  role: Role;
+  secret_hash: string;
+  card_token?: string;
+  user_token?: string;
+  created_time: string;
+  last_used_time?: string;
+  revoked_time?: string;
+}
+
+/**
+ * A stored session (token is a hash of the cookie value)
+ */
+export interface Session {
+  token: string;
+  role: Role;
+  name: string;
+  card_token?: string;
+  user_token?: string;
+  created_time: string;
+  expires_at: string;
+}
+
+export const API_KEY_HEADER = 'X-API-Key';
+export const SESSION_COOKIE = 'marqeta_session';
+
+// How long a session lasts from sign-in (minutes)
+const SESSION_TTL_MINUTES = Number(process.env.SESSION_TTL_MINUTES) || 8 * 60;
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value, 'utf8').digest('hex');
+}
+
+function header(req: NextApiRequest, name: string): string | undefined {
+  const value = req.headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Card and cardholder a cardholder principal is tied to (404 CARD_NOT_FOUND when unknown)
+ */
+export async function cardholderOf(cardToken: string): Promise<{ card_token: string; user_token: string }> {
+  const stored = await getResource('cards', cardToken);
+  if (stored) {
+    return { card_token: stored.token, user_token: stored.user_token };
+  }
+  try {
+    const card = await getCard(cardToken);
+    return { card_token: card.token, user_token: card.user_token };
+  } catch (error: unknown) {
+    if (error instanceof MarqetaApiError && (error.status === 404 || error.status === 400)) {
+      throw new ApiError(404, 'CARD_NOT_FOUND', 'Card not found', { details: { cardToken } });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Issue an API key; the returned key is shown once and never stored
+ */
+export async function createApiKey(
+  input: { name: string; role: Role; cardToken?: string }
+): Promise<{ apiKey: ApiKey; key: string }> {
+  const secret = randomBytes(24).toString('base64url');
+  const apiKey = await saveResource('apiKeys', {
+    token: `key_${randomBytes(8).toString('hex')}`,
+    name: input.name,
+    role: input.role,
+    secret_hash: sha256(secret),
+    ...(input.role === 'cardholder' && input.cardToken ? await cardholderOf(input.cardToken) : {}),
+    created_time: new Date().toISOString()
+  });
+  return { apiKey, key: `${apiKey.token}.${secret}` };
+}
+
+/**
+ * List API keys, oldest first
+ */
+export async function listApiKeys(): Promise<ApiKey[]> {
+  return listResources('apiKeys');
+}
+
+/**
+ * Revoke an API key (404 NOT_FOUND when unknown)
+ */
+export async function revokeApiKey(id: unknown): Promise<ApiKey> {
+  const apiKey = typeof id === 'string' && id ? await getResource('apiKeys', id) : null;
+  if (!apiKey) {
+    throw new ApiError(404, 'NOT_FOUND', 'API key not found');
+  }
+  return apiKey.revoked_time ? apiKey : saveResource('apiKeys', { ...apiKey, revoked_time: new Date().toISOString() });
+}
+
+/**
+ * The active key a presented key string belongs to (null when unknown, wrong or revoked)
+ */
+export async function verifyApiKey(key: string): Promise<ApiKey | null> {
+  const [id, secret, ...rest] = key.trim().split('.');
+  const apiKey = id && secret && rest.length === 0 ? await getResource('apiKeys', id) : null;
+  if (!apiKey || apiKey.revoked_time) {
+    return null;
+  }
+  const expected = Buffer.from(apiKey.secret_hash);
+  const received = Buffer.from(sha256(secret));
+  return expected.length === received.length && timingSafeEqual(expected, received) ? apiKey : null;
+}
+
+function principalOf(record: ApiKey | Session, via: Principal['via']): Principal {
+  return {
+    role: record.role,
+    via,
+    name: record.name,
+    ...(record.card_token ? { card_token: record.card_token, user_token: record.user_token } : {})
+  };
+}
+
+/**
+ * Start a session for a principal and set its cookie
+ */
+export async function createSession(principal: Principal, res: NextApiResponse): Promise<Session> {
+  const secret = randomBytes(32).toString('base64url');
+  const now = new Date();
+  const session = await saveResource('sessions', {
+    token: sha256(secret),
+    role: principal.role,
+    name: principal.name,
+    ...(principal.card_token ? { card_token: principal.card_token, user_token: principal.user_token } : {}),
+    created_time: now.toISOString(),
+    expires_at: new Date(now.getTime() + SESSION_TTL_MINUTES * 60_000).toISOString()
+  });
+  const secure = process.env.NODE_ENV === 'production' ? '; Secure' : '';
+  res.setHeader(
+    'Set-Cookie',
+    `${SESSION_COOKIE}=${secret}; Path=/api/marqeta; HttpOnly; SameSite=Strict; Max-Age=${SESSION_TTL_MINUTES * 60}${secure}`
+  );
+  return session;
+}
+
+/**
+ * End the caller's session (if any) and clear its cookie
+ */
+export async function endSession(req: NextApiRequest, res: NextApiResponse) {
+  const secret = req.cookies[SESSION_COOKIE];
+  const session = secret ? await getResource('sessions', sha256(secret)) : null;
+  if (session) {
+    await saveResource('sessions', { ...session, expires_at: new Date().toISOString() });
+  }
+  res.setHeader('Set-Cookie', `${SESSION_COOKIE}=; Path=/api/marqeta; HttpOnly; SameSite=Strict; Max-Age=0`);
+}
+
+/**
+ * Who is calling (null when no credentials were sent)
+ *
+ * Credentials that were sent but do not check out are rejected with 401
+ * rather than treated as anonymous.
+ */
+export async function authenticate(req: NextApiRequest): Promise<Principal | null> {
+  const authorization = header(req, 'authorization');
+
+  if (authorization?.startsWith('Basic ')) {
+    if (ADMIN_PASSWORD && hasBasicCredentials(authorization, ADMIN_USERNAME, ADMIN_PASSWORD)) {
+      return { role: 'admin', via: 'basic', name: ADMIN_USERNAME };
+    }
+    throw new ApiError(401, 'UNAUTHORIZED', 'Invalid credentials');
+  }
+
+  const key = authorization?.startsWith('Bearer ') ? authorization.slice(7) : header(req, API_KEY_HEADER);
+  if (key) {
+    const apiKey = await verifyApiKey(key);
+    if (!apiKey) {
+      throw new ApiError(401, 'UNAUTHORIZED', 'Invalid or revoked API key');
+    }
+    await saveResource('apiKeys', { ...apiKey, last_used_time: new Date().toISOString() });
+    return principalOf(apiKey, 'api_key');
+  }
+
+  const secret = req.cookies[SESSION_COOKIE];
+  if (secret) {
+    const session = await getResource('sessions', sha256(secret));
+    if (!session || new Date(session.expires_at) <= new Date()) {
+      throw new ApiError(401, 'UNAUTHORIZED', 'Session expired; sign in again');
+    }
+    return principalOf(session, 'session');
+  }
+
+  return null;
+}
+
+/**
+ * Throw unless the caller is authenticated with one of the roles (admins always pass)
+ */
+export async function requireRole(req: NextApiRequest, ...roles: Role[]): Promise<Principal> {
+  const principal = await authenticate(req);
+  if (!principal) {
+    throw new ApiError(401, 'UNAUTHORIZED', 'Authentication required');
+  }
+  if (principal.role !== 'admin' && !roles.includes(principal.role)) {
+    throw new ApiError(403, 'FORBIDDEN', `This action needs the ${roles.join(' or ')} role`, {
+      details: { role: principal.role }
+    });
+  }
+  return principal;
+}
+
+/**
+ * Throw unless the caller may see this card (cardholders only their own)
+ */
+export function assertCardAccess(principal: Principal, cardToken: string | undefined) {
+  if (principal.role === 'cardholder' && principal.card_token !== cardToken) {
+    throw new ApiError(403, 'FORBIDDEN', 'Cardholders can only access their own card');
+  }
+}
+
+/**
+ * Throw unless the caller may see this cardholder (cardholders only themselves)
+ */
+export function assertUserAccess(principal: Principal, userToken: string) {
+  if (principal.role === 'cardholder' && principal.user_token !== userToken) {
+    throw new ApiError(403, 'FORBIDDEN', 'Cardholders can only access their own account');
+  }
+}
+
+/**
+ * Fingerprint of the credentials a request carries, so idempotency keys of
+ * different callers never share stored responses
+ */
+export function credentialFingerprint(req: NextApiRequest): string {
+  const credentials = [
+    header(req, 'authorization') ?? '',
+    header(req, API_KEY_HEADER) ?? '',
+    req.cookies?.[SESSION_COOKIE] ?? ''
+  ].join('\n');
+  return sha256(credentials).slice(0, 16);
+}
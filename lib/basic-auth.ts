@@ -0,0 +1,42 @@
+/**
+ * Basic Auth Verification
+ *
+ * Constant-time check of inbound Basic credentials, used by the endpoints
+ * Marqeta calls (JIT gateway, webhooks), and of the admin credentials
+ * lib/auth.ts and the session sign-in accept.
+ */
+
+import { timingSafeEqual } from 'crypto';
+
+// Admin credentials; Basic admin sign-in stays disabled until a password is set
+export const ADMIN_USERNAME = process.env.ADMIN_USERNAME || 'admin';
+export const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD || '';
+
+function safeEqual(expected: string, received: string): boolean {
+  const expectedBytes = Buffer.from(expected);
+  const receivedBytes = Buffer.from(received);
+  return expectedBytes.length === receivedBytes.length && timingSafeEqual(expectedBytes, receivedBytes);
+}
+
+/**
+ * Whether an Authorization header carries the expected Basic credentials
+ */
+export function hasBasicCredentials(header: string | undefined, username: string, password: string): boolean {
+  if (!header?.startsWith('Basic ')) {
+    return false;
+  }
+  return safeEqual(`${username}:${password}`, Buffer.from(header.slice(6), 'base64').toString('utf8'));
+}
+
+/**
+ * Whether a submitted username and password match the expected ones
+ */
+export function matchesCredentials(username: unknown, password: unknown, expectedUsername: string, expectedPassword: string): boolean {
+  if (typeof username !== 'string' || typeof password !== 'string') {
+    return false;
+  }
+  // Compare both before combining so a wrong username takes as long as a wrong password
+  const usernameMatches = safeEqual(expectedUsername, username);
+  const passwordMatches = safeEqual(expectedPassword, password);
+  return usernameMatches && passwordMatches;
+}
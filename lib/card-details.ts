@@ -0,0 +1,142 @@
+/**
+ * Card Details
+ *
+ * Card numbers and CVVs are never part of ordinary API responses: cards are
+ * shown by masked PAN and last four digits. Full details are fetched from
+ * Marqeta only when a reveal grant is redeemed. A grant is issued for one
+ * card, expires after REVEAL_GRANT_SECONDS and can be redeemed once; every
+ * grant is kept with who asked for it and when it was used, as an audit trail.
+ */
+
+import { randomBytes } from 'crypto';
+import type { NextApiRequest } from 'next';
+import { getCardDetails } from './marqeta';
+import { getResource, listResources, saveResource } from './resource-store';
+import { clientAddress } from './rate-limit';
+import { assertCardAccess, type Principal } from './auth';
+import { ApiError } from './api-errors';
+import { createLogger } from './logger';
+
+const log = createLogger({ component: 'card-details' });
+
+// How long a grant can be redeemed for, and how long pages show revealed details (seconds)
+export const REVEAL_GRANT_SECONDS = Number(process.env.CARD_REVEAL_GRANT_SECONDS) || 60;
+export const REVEAL_DISPLAY_SECONDS = 30;
+
+/**
+ * A stored reveal grant (token is the grant id)
+ */
+export interface CardRevealGrant {
+  token: string;
+  card_token: string;
+  created_time: string;
+  expires_at: string;
+  requested_by: string;
+  redeemed_time?: string;
+  redeemed_by?: string;
+}
+
+/**
+ * Full card details, as returned when a grant is redeemed, with how long to show them
+ */
+export interface RevealedCard {
+  card_token: string;
+  pan: string;
+  cvv_number: string;
+  expiration: string;
+  display_seconds: number;
+}
+
+// Grants being redeemed in this process, so one grant never reveals twice
+const globalForGrants = globalThis as unknown as { __redeemingGrants?: Set<string> };
+
+/**
+ * Card number with all but the last four digits hidden
+ */
+export function maskPan(lastFour: string): string {
+  return `•••• •••• •••• ${lastFour}`;
+}
+
+/**
+ * Who made a request, for the audit trail (client address and user agent)
+ */
+function requester(req: NextApiRequest): string {
+  return `${clientAddress(req)} (${req.headers['user-agent'] ?? 'unknown agent'})`;
+}
+
+/**
+ * Issue a grant to reveal one card's details
+ */
+export async function createRevealGrant(cardToken: string, req: NextApiRequest): Promise<CardRevealGrant> {
+  if (!(await getResource('cards', cardToken))) {
+    throw new ApiError(404, 'CARD_NOT_FOUND', 'Card not found', { details: { cardToken } });
+  }
+  const now = new Date();
+  const grant = await saveResource('cardRevealGrants', {
+    token: `reveal_${randomBytes(16).toString('base64url')}`,
+    card_token: cardToken,
+    created_time: now.toISOString(),
+    expires_at: new Date(now.getTime() + REVEAL_GRANT_SECONDS * 1000).toISOString(),
+    requested_by: requester(req)
+  });
+  log.info('Reveal grant issued', { card_token: cardToken, requested_by: grant.requested_by });
+  return grant;
+}
+
+/**
+ * Redeem a grant for the card's full details
+ *
+ * Only the card's cardholder (or an admin) may redeem it. Unknown grants get
+ * 404 REVEAL_GRANT_NOT_FOUND; used or expired ones 410 REVEAL_GRANT_USED or
+ * REVEAL_GRANT_EXPIRED.
+ */
+export async function redeemRevealGrant(
+  grantId: unknown,
+  principal: Principal,
+  req: NextApiRequest
+): Promise<RevealedCard> {
+  const grant = typeof grantId === 'string' && grantId ? await getResource('cardRevealGrants', grantId) : null;
+  if (!grant) {
+    throw new ApiError(404, 'REVEAL_GRANT_NOT_FOUND', 'Reveal grant not found');
+  }
+  assertCardAccess(principal, grant.card_token);
+
+  const redeeming = (globalForGrants.__redeemingGrants ??= new Set());
+  if (grant.redeemed_time || redeeming.has(grant.token)) {
+    throw new ApiError(410, 'REVEAL_GRANT_USED', 'This reveal grant has already been used');
+  }
+  if (new Date(grant.expires_at) <= new Date()) {
+    throw new ApiError(410, 'REVEAL_GRANT_EXPIRED', 'This reveal grant has expired', {
+      details: { expires_at: grant.expires_at }
+    });
+  }
+
+  // Marked used before Marqeta is asked, so a failed fetch needs a new grant
+  redeeming.add(grant.token);
+  try {
+    const redeemed = await saveResource('cardRevealGrants', {
+      ...grant,
+      redeemed_time: new Date().toISOString(),
+      redeemed_by: requester(req)
+    });
+    log.info('Reveal grant redeemed', { card_token: grant.card_token, redeemed_by: redeemed.redeemed_by });
+
+    const card = await getCardDetails(grant.card_token);
+    return {
+      card_token: card.token,
+      pan: card.pan,
+      cvv_number: card.cvv_number ?? '',
+      expiration: card.expiration,
+      display_seconds: REVEAL_DISPLAY_SECONDS
+    };
+  } finally {
+    redeeming.delete(grant.token);
+  }
+}
+
+/**
+ * Grants issued for a card, oldest first
+ */
+export async function listRevealGrants(cardToken: string): Promise<CardRevealGrant[]> {
+  return listResources('cardRevealGrants', (grant) => grant.card_token === cardToken);
+}
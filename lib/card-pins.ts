@@ -0,0 +1,229 @@
+/**
+ * Card PINs
+ *
+ * Per-card PINs for PIN-authorized payments. PINs are stored only as salted
+ * scrypt hashes in the resource store. Repeated wrong PINs lock the card for
+ * PIN_LOCKOUT_MINUTES; an admin can lift the lock early.
+ */
+
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { getResource, saveResource } from './resource-store';
+import { ApiError } from './api-errors';
+
+/**
+ * Stored PIN for a card (token is the card token)
+ */
+export interface CardPin {
+  token: string;
+  pin_hash: string;
+  salt: string;
+  failed_attempts: number;
+  locked_until?: string;
+  created_time: string;
+  last_modified_time: string;
+}
+
+export interface PinStatus {
+  pinSet: boolean;
+  locked: boolean;
+  lockedUntil?: string;
+}
+
+export type PinCheck =
+  | { verified: true }
+  | { verified: false; code: 'PIN_NOT_SET' }
+  | { verified: false; code: 'PIN_LOCKED'; lockedUntil: string }
+  | { verified: false; code: 'INVALID_PIN'; attemptsRemaining: number };
+
+// Wrong PINs allowed before the card locks
+const MAX_PIN_ATTEMPTS = Number(process.env.PIN_MAX_ATTEMPTS) || 3;
+
+// How long a locked card stays locked
+const PIN_LOCKOUT_MINUTES = Number(process.env.PIN_LOCKOUT_MINUTES) || 15;
+
+// scrypt output length in bytes (cost parameters are Node's defaults)
+const HASH_LENGTH = 64;
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+// Per-card queues so concurrent attempts cannot race the failure counter
+const globalForPins = globalThis as unknown as { __cardPinQueues?: Map<string, Promise<unknown>> };
+const queues = (globalForPins.__cardPinQueues ??= new Map<string, Promise<unknown>>());
+
+function withCardQueue<T>(cardToken: string, task: () => Promise<T>): Promise<T> {
+  const next = (queues.get(cardToken) ?? Promise.resolve()).catch(() => undefined).then(task);
+  queues.set(cardToken, next);
+  return next;
+}
+
+/**
+ * Whether a value is a well-formed 6 digit PIN
+ */
+export function isValidPin(pin: unknown): pin is string {
+  return typeof pin === 'string' && /^\d{6}$/.test(pin);
+}
+
+async function hashPin(pin: string, salt: Buffer): Promise<Buffer> {
+  return scryptAsync(pin, salt, HASH_LENGTH);
+}
+
+async function matchesHash(record: CardPin, pin: string): Promise<boolean> {
+  const expected = Buffer.from(record.pin_hash, 'hex');
+  const received = await hashPin(pin, Buffer.from(record.salt, 'hex'));
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+function isLocked(record: CardPin): boolean {
+  return Boolean(record.locked_until && new Date(record.locked_until).getTime() > Date.now());
+}
+
+async function writePin(cardToken: string, pin: string, existing: CardPin | null): Promise<CardPin> {
+  const salt = randomBytes(16);
+  const hash = await hashPin(pin, salt);
+  const timestamp = new Date().toISOString();
+  return saveResource('cardPins', {
+    token: cardToken,
+    pin_hash: hash.toString('hex'),
+    salt: salt.toString('hex'),
+    failed_attempts: 0,
+    locked_until: undefined,
+    created_time: existing?.created_time ?? timestamp,
+    last_modified_time: timestamp
+  });
+}
+
+/**
+ * Check a PIN against the stored hash, counting failures towards a lockout
+ */
+async function checkPin(record: CardPin | null, pin: string): Promise<PinCheck> {
+  if (!record) {
+    return { verified: false, code: 'PIN_NOT_SET' };
+  }
+  if (isLocked(record)) {
+    return { verified: false, code: 'PIN_LOCKED', lockedUntil: record.locked_until as string };
+  }
+
+  // An expired lock starts a fresh set of attempts
+  const failedAttempts = record.locked_until ? 0 : record.failed_attempts;
+
+  if (await matchesHash(record, pin)) {
+    if (failedAttempts || record.locked_until) {
+      await saveResource('cardPins', { ...record, failed_attempts: 0, locked_until: undefined });
+    }
+    return { verified: true };
+  }
+
+  const attempts = failedAttempts + 1;
+  if (attempts >= MAX_PIN_ATTEMPTS) {
+    const lockedUntil = new Date(Date.now() + PIN_LOCKOUT_MINUTES * 60 * 1000).toISOString();
+    await saveResource('cardPins', { ...record, failed_attempts: attempts, locked_until: lockedUntil });
+    return { verified: false, code: 'PIN_LOCKED', lockedUntil };
+  }
+
+  await saveResource('cardPins', { ...record, failed_attempts: attempts, locked_until: undefined });
+  return { verified: false, code: 'INVALID_PIN', attemptsRemaining: MAX_PIN_ATTEMPTS - attempts };
+}
+
+/**
+ * API error for a failed PIN check
+ */
+export function pinCheckError(check: Exclude<PinCheck, { verified: true }>): ApiError {
+  switch (check.code) {
+    case 'PIN_NOT_SET':
+      return new ApiError(409, check.code, 'No PIN has been set for this card');
+    case 'PIN_LOCKED':
+      return new ApiError(423, check.code, 'Too many incorrect PIN attempts. The card is locked; try again later.', {
+        details: { lockedUntil: check.lockedUntil }
+      });
+    case 'INVALID_PIN':
+      return new ApiError(401, check.code, `Incorrect PIN. ${check.attemptsRemaining} attempt(s) remaining.`, {
+        details: { attemptsRemaining: check.attemptsRemaining }
+      });
+  }
+}
+
+// One answer for unknown card numbers and wrong PINs on routes open to anyone
+const INCORRECT_CARD_OR_PIN = 'Incorrect card number or PIN.';
+
+/**
+ * Wrong-PIN error for a card number we do not know, after the same hashing
+ * work a real check does so response times match too
+ */
+export async function unknownCardError(pin: unknown): Promise<ApiError> {
+  await hashPin(String(pin ?? ''), randomBytes(16));
+  return new ApiError(401, 'INVALID_PIN', INCORRECT_CARD_OR_PIN);
+}
+
+/**
+ * API error for a failed PIN check on a route called with a card number
+ *
+ * Every failure gets the same response as an unknown card number, without
+ * the attempts left: a card without a PIN or a locked card would otherwise
+ * tell callers the card number exists. Checks that stopped before hashing
+ * (no PIN, already locked) do the hashing work here.
+ */
+export async function publicPinCheckError(check: Exclude<PinCheck, { verified: true }>, pin: unknown): Promise<ApiError> {
+  return check.code === 'INVALID_PIN' ? new ApiError(401, check.code, INCORRECT_CARD_OR_PIN) : unknownCardError(pin);
+}
+
+/**
+ * Whether a card has a PIN and whether it is locked
+ */
+export async function getPinStatus(cardToken: string): Promise<PinStatus> {
+  const record = await getResource('cardPins', cardToken);
+  if (!record) {
+    return { pinSet: false, locked: false };
+  }
+  return isLocked(record)
+    ? { pinSet: true, locked: true, lockedUntil: record.locked_until }
+    : { pinSet: true, locked: false };
+}
+
+/**
+ * Set the first PIN for a card; returns false if one is already set
+ */
+export async function setCardPin(cardToken: string, pin: string): Promise<boolean> {
+  return withCardQueue(cardToken, async () => {
+    if (await getResource('cardPins', cardToken)) {
+      return false;
+    }
+    await writePin(cardToken, pin, null);
+    return true;
+  });
+}
+
+/**
+ * Replace a card's PIN after verifying the current one
+ */
+export async function changeCardPin(cardToken: string, currentPin: string, newPin: string): Promise<PinCheck> {
+  return withCardQueue(cardToken, async () => {
+    const record = await getResource('cardPins', cardToken);
+    const check = await checkPin(record, currentPin);
+    if (check.verified) {
+      await writePin(cardToken, newPin, record);
+    }
+    return check;
+  });
+}
+
+/**
+ * Verify a PIN for a payment
+ */
+export async function verifyCardPin(cardToken: string, pin: string): Promise<PinCheck> {
+  return withCardQueue(cardToken, async () => checkPin(await getResource('cardPins', cardToken), pin));
+}
+
+/**
+ * Lift a lockout and reset the failure count; returns false if the card has no PIN
+ */
+export async function unlockCardPin(cardToken: string): Promise<boolean> {
+  return withCardQueue(cardToken, async () => {
+    const record = await getResource('cardPins', cardToken);
+    if (!record) {
+      return false;
+    }
+    await saveResource('cardPins', { ...record, failed_attempts: 0, locked_until: undefined });
+    return true;
+  });
+}
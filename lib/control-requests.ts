@@ -0,0 +1,38 @@
+/**
+ * Control Request Parsing
+ *
+ * Request fields shared by the velocity control and authorization control
+ * routes: which card product, user or card a control is attached to, and
+ * control names.
+ */
+
+import { ApiError } from './api-errors';
+import type { ControlAssociation } from './marqeta-types';
+
+// Request fields naming the association, and the Marqeta field each maps to
+const ASSOCIATION_FIELDS: [string, keyof ControlAssociation][] = [
+  ['cardProductToken', 'card_product_token'],
+  ['userToken', 'user_token'],
+  ['cardToken', 'card_token']
+];
+
+/**
+ * Read the association from a request body or query; `required` demands exactly one
+ */
+export function parseAssociation(source: Record<string, unknown>, required: boolean): ControlAssociation {
+  const given = ASSOCIATION_FIELDS.filter(([field]) => source[field]);
+  if (given.length > 1 || (required && given.length === 0)) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'Give exactly one of cardProductToken, userToken or cardToken');
+  }
+  return Object.fromEntries(given.map(([field, key]) => [key, String(source[field])]));
+}
+
+/**
+ * Read a control name (1-40 characters)
+ */
+export function parseName(value: unknown): string {
+  if (typeof value !== 'string' || !value.trim() || value.length > 40) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'name must be 1-40 characters');
+  }
+  return value.trim();
+}
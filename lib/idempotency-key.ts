@@ -0,0 +1,20 @@
+/**
+ * Idempotency Keys (client side)
+ *
+ * Header name and key generator shared by the pages that call the payment
+ * routes. Safe to import from the browser.
+ */
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+/**
+ * Generate a random idempotency key
+ *
+ * Uses getRandomValues so it also works on plain-HTTP LAN origins, where
+ * crypto.randomUUID is unavailable.
+ */
+export function createIdempotencyKey(): string {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
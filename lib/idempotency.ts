@@ -0,0 +1,177 @@
+/**
+ * Idempotent API Routes
+ *
+ * Wraps a route so a POST carrying an Idempotency-Key header runs at most
+ * once per key. A retry with the same key and body gets the stored original
+ * response; reusing a key with a different body is rejected. Keys are kept in
+ * the resource store for IDEMPOTENCY_TTL_MS. Failures worth retrying are not
+ * stored, so a retry with the same key runs again, unless the request had
+ * already sent a write to Marqeta: then its outcome is always stored, so a
+ * retry can never charge twice.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash } from 'crypto';
+import type { NextApiHandler, NextApiRequest } from 'next';
+import { getResource, saveResource } from './resource-store';
+import { IDEMPOTENCY_HEADER } from './idempotency-key';
+import { credentialFingerprint } from './auth';
+import { ApiError, sendError } from './api-errors';
+
+/**
+ * Stored outcome of a request made with an idempotency key
+ */
+export interface IdempotencyRecord {
+  token: string;
+  route: string;
+  request_hash: string;
+  response_status: number;
+  response_body: unknown;
+  created_time: string;
+}
+
+// How long a key is remembered (24 hours)
+const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+
+const MAX_KEY_LENGTH = 255;
+
+// Keys whose request is still running in this process, and whether that request has written to Marqeta yet
+const globalForIdempotency = globalThis as unknown as {
+  __idempotencyInFlight?: Set<string>;
+  __idempotencyScope?: AsyncLocalStorage<{ upstreamWrite: boolean }>;
+};
+const inFlight = (globalForIdempotency.__idempotencyInFlight ??= new Set<string>());
+const scopeStorage = (globalForIdempotency.__idempotencyScope ??= new AsyncLocalStorage<{ upstreamWrite: boolean }>());
+
+/**
+ * JSON with object keys sorted, so equal bodies hash equally
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function hashRequest(req: NextApiRequest): string {
+  return createHash('sha256').update(stableStringify(req.body ?? null)).digest('hex');
+}
+
+function isExpired(record: IdempotencyRecord): boolean {
+  return Date.now() - new Date(record.created_time).getTime() > IDEMPOTENCY_TTL_MS;
+}
+
+/**
+ * Record that the current request has sent a write to Marqeta
+ *
+ * Called by marqetaRequest before it sends anything but a read; outside an
+ * idempotent request it does nothing.
+ */
+export function markUpstreamWrite(): void {
+  const scope = scopeStorage.getStore();
+  if (scope) {
+    scope.upstreamWrite = true;
+  }
+}
+
+/**
+ * Whether a response should answer retries with the same key
+ *
+ * Not when the request was refused before it ran (401, 403, 429) or failed in
+ * a way a retry may fix (5xx, or marked retryable, e.g. a timeout). Only
+ * consulted for requests that never wrote to Marqeta.
+ */
+function isReplayable(outcome: { status: number; body: unknown }): boolean {
+  if (outcome.status >= 500 || [401, 403, 429].includes(outcome.status)) {
+    return false;
+  }
+  const body = outcome.body as { retryable?: unknown } | null;
+  return !(body && typeof body === 'object' && body.retryable === true);
+}
+
+/**
+ * Make a route idempotent for requests that send an Idempotency-Key
+ */
+export function withIdempotency(handler: NextApiHandler): NextApiHandler {
+  return async (req, res) => {
+    const header = req.headers[IDEMPOTENCY_HEADER.toLowerCase()];
+    const key = Array.isArray(header) ? header[0] : header;
+
+    if (req.method !== 'POST' || !key) {
+      return handler(req, res);
+    }
+
+    if (key.length > MAX_KEY_LENGTH) {
+      return sendError(res, new ApiError(
+        400,
+        'IDEMPOTENCY_KEY_INVALID',
+        `${IDEMPOTENCY_HEADER} must be at most ${MAX_KEY_LENGTH} characters`
+      ));
+    }
+
+    // Keys are per route and per caller, so one caller can never replay another's response
+    const route = (req.url ?? '').split('?')[0];
+    const token = `${route}:${credentialFingerprint(req)}:${key}`;
+
+    // Claim the key synchronously so concurrent duplicates cannot both run
+    if (inFlight.has(token)) {
+      return sendError(res, new ApiError(
+        409,
+        'IDEMPOTENCY_KEY_IN_USE',
+        'A request with this Idempotency-Key is still being processed',
+        { retryable: true }
+      ));
+    }
+    inFlight.add(token);
+
+    try {
+      const requestHash = hashRequest(req);
+      const existing = await getResource('idempotencyKeys', token);
+
+      if (existing && !isExpired(existing)) {
+        if (existing.request_hash !== requestHash) {
+          return sendError(res, new ApiError(
+            422,
+            'IDEMPOTENCY_KEY_REUSED',
+            `${IDEMPOTENCY_HEADER} was already used with a different request body`
+          ));
+        }
+
+        res.setHeader('Idempotent-Replayed', 'true');
+        return res.status(existing.response_status).json(existing.response_body);
+      }
+
+      // Capture whatever the route sends so retries can be answered from storage
+      let captured: { status: number; body: unknown } | null = null;
+      const json = res.json.bind(res);
+      res.json = (body) => {
+        captured = { status: res.statusCode, body };
+        return json(body);
+      };
+
+      const scope = { upstreamWrite: false };
+      await scopeStorage.run(scope, () => handler(req, res));
+
+      // Once Marqeta may have acted on the request, even a failure must answer retries
+      const outcome = captured as { status: number; body: unknown } | null;
+      if (outcome && (scope.upstreamWrite || isReplayable(outcome))) {
+        await saveResource('idempotencyKeys', {
+          token,
+          route,
+          request_hash: requestHash,
+          response_status: outcome.status,
+          response_body: outcome.body,
+          created_time: new Date().toISOString()
+        });
+      }
+    } finally {
+      inFlight.delete(token);
+    }
+  };
+}
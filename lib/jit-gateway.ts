@@ -0,0 +1,217 @@
+/**
+ * Gateway JIT Funding Decisions
+ *
+ * With Gateway JIT, Marqeta sends a JIT Funding request to our program
+ * gateway for every authorization and we decide whether to fund it. This
+ * module keeps our own per-user balance (in the resource store) and applies
+ * the funding rules; pages/api/marqeta/jit-gateway.ts exposes it over HTTP.
+ * Balances are kept in one currency; requests in any other are declined
+ * rather than taken off the balance as if they were in its minor units.
+ */
+
+import { USER_BALANCE_LIMIT } from './marqeta';
+import { getResource, saveResource } from './resource-store';
+import type { JitFunding, JitFundingRequest, JitFundingResponse } from './marqeta-types';
+import { DEFAULT_CURRENCY } from './money';
+
+/**
+ * Our own balance for a cardholder (token is the Marqeta user token)
+ */
+export interface GatewayAccount {
+  token: string;
+  available_balance: number;
+  currency_code: string;
+  // Outstanding authorization holds, keyed by JIT Funding token
+  holds: Record<string, number>;
+  // Responses already sent, keyed by JIT Funding token (Marqeta may retry)
+  processed: Record<string, JitFunding>;
+}
+
+export interface JitDecision {
+  approved: boolean;
+  status: number;
+  response: JitFundingResponse;
+}
+
+// Starting balance for a cardholder the gateway has not seen before (cents)
+const DEFAULT_BALANCE = Number(process.env.JIT_GATEWAY_DEFAULT_BALANCE) || USER_BALANCE_LIMIT;
+
+// Largest single authorization the gateway will fund (cents, 0 = no limit)
+const MAX_AUTHORIZATION = Number(process.env.JIT_GATEWAY_MAX_AUTHORIZATION) || 0;
+
+// Per-cardholder queues so concurrent decisions cannot both spend the same balance
+const globalForGateway = globalThis as unknown as { __gatewayAccountQueues?: Map<string, Promise<unknown>> };
+const queues = (globalForGateway.__gatewayAccountQueues ??= new Map<string, Promise<unknown>>());
+
+function withAccountQueue<T>(userToken: string, task: () => Promise<T>): Promise<T> {
+  const next = (queues.get(userToken) ?? Promise.resolve()).catch(() => undefined).then(task);
+  queues.set(userToken, next);
+  return next;
+}
+
+async function getAccount(userToken: string): Promise<GatewayAccount> {
+  const account = await getResource('gatewayAccounts', userToken);
+  return account ?? {
+    token: userToken,
+    available_balance: DEFAULT_BALANCE,
+    currency_code: DEFAULT_CURRENCY,
+    holds: {},
+    processed: {}
+  };
+}
+
+/**
+ * Get a cardholder's gateway balance
+ */
+export async function getGatewayBalance(userToken: string): Promise<GatewayAccount> {
+  return getAccount(userToken);
+}
+
+/**
+ * Set a cardholder's available gateway balance (cents)
+ */
+export async function setGatewayBalance(userToken: string, availableBalance: number): Promise<GatewayAccount> {
+  return withAccountQueue(userToken, async () => {
+    const account = await getAccount(userToken);
+    return saveResource('gatewayAccounts', { ...account, available_balance: availableBalance });
+  });
+}
+
+function approve(jitFunding: JitFunding, amount: number): JitDecision {
+  return {
+    approved: true,
+    status: 200,
+    response: { jit_funding: { ...jitFunding, amount } }
+  };
+}
+
+function decline(jitFunding: JitFunding, reason: string): JitDecision {
+  // Marqeta treats any non-200 response as a decline
+  return {
+    approved: false,
+    status: 402,
+    response: { jit_funding: { ...jitFunding, amount: 0, decline_reason: reason } }
+  };
+}
+
+/**
+ * Take up to `amount` off an authorization hold, returning how much was taken
+ */
+function reduceHold(account: GatewayAccount, originalToken: string | undefined, amount: number): number {
+  const hold = originalToken ? account.holds[originalToken] ?? 0 : 0;
+  const reduced = Math.min(amount, hold);
+  if (originalToken && hold) {
+    if (hold - reduced > 0) {
+      account.holds[originalToken] = hold - reduced;
+    } else {
+      delete account.holds[originalToken];
+    }
+  }
+  return reduced;
+}
+
+/**
+ * Currency of a JIT Funding request (the GPA order's, else the transaction's)
+ */
+function requestCurrency(request: JitFundingRequest): string {
+  return request.gpa_order.currency_code ?? request.transaction?.currency_code ?? DEFAULT_CURRENCY;
+}
+
+/**
+ * Decide an authorization against the account balance and rules
+ */
+function decideAuthorization(account: GatewayAccount, request: JitFundingRequest): JitDecision {
+  const jitFunding = request.gpa_order.jit_funding;
+  const requested = jitFunding.amount;
+
+  if (requested <= 0) {
+    return decline(jitFunding, 'INVALID_AMOUNT');
+  }
+  if (MAX_AUTHORIZATION && requested > MAX_AUTHORIZATION) {
+    return decline(jitFunding, 'AMOUNT_LIMIT_EXCEEDED');
+  }
+
+  if (account.available_balance >= requested) {
+    return approve(jitFunding, requested);
+  }
+
+  // Fund what we can when the merchant accepts partial approvals
+  if (account.available_balance > 0 && request.transaction?.partial_approval_capable) {
+    return approve(jitFunding, account.available_balance);
+  }
+
+  return decline(jitFunding, 'INSUFFICIENT_FUNDS');
+}
+
+/**
+ * Decide a JIT Funding request and update the cardholder's balance
+ *
+ * Decisions for one cardholder run one at a time.
+ */
+export async function decideJitFunding(request: JitFundingRequest): Promise<JitDecision> {
+  const jitFunding = request.gpa_order.jit_funding;
+
+  // Read, decide and save inside the cardholder's queue so no other decision sees a stale balance
+  return withAccountQueue(jitFunding.user_token, async () => {
+    const account = await getAccount(jitFunding.user_token);
+
+    // Replay the original answer for a retried request
+    const previous = account.processed[jitFunding.token];
+    if (previous) {
+      return previous.decline_reason
+        ? { approved: false, status: 402, response: { jit_funding: previous } }
+        : { approved: true, status: 200, response: { jit_funding: previous } };
+    }
+
+    let decision: JitDecision;
+    const originalToken = jitFunding.original_jit_funding_token;
+
+    // Amounts are in the request currency's minor units, which only match the balance in its own currency
+    if (jitFunding.method !== 'pgfs.balanceinquiry' && requestCurrency(request) !== account.currency_code) {
+      decision = decline(jitFunding, 'CURRENCY_MISMATCH');
+      account.processed[jitFunding.token] = decision.response.jit_funding;
+      await saveResource('gatewayAccounts', account);
+      return decision;
+    }
+
+    switch (jitFunding.method) {
+      case 'pgfs.authorization':
+      case 'pgfs.authorization.incremental':
+        decision = decideAuthorization(account, request);
+        if (decision.approved) {
+          const amount = decision.response.jit_funding.amount;
+          account.available_balance -= amount;
+          account.holds[jitFunding.token] = amount;
+        }
+        break;
+
+      case 'pgfs.authorization.capture': {
+        // Settle against the hold; any remainder stays held for further captures or a reversal
+        const settled = reduceHold(account, originalToken, jitFunding.amount);
+        account.available_balance -= jitFunding.amount - settled;
+        decision = approve(jitFunding, jitFunding.amount);
+        break;
+      }
+
+      case 'pgfs.authorization.reversal': {
+        const released = reduceHold(account, originalToken, jitFunding.amount);
+        account.available_balance += released;
+        decision = approve(jitFunding, released);
+        break;
+      }
+
+      case 'pgfs.refund':
+        account.available_balance += jitFunding.amount;
+        decision = approve(jitFunding, jitFunding.amount);
+        break;
+
+      case 'pgfs.balanceinquiry':
+        decision = approve(jitFunding, account.available_balance);
+        break;
+    }
+
+    account.processed[jitFunding.token] = decision.response.jit_funding;
+    await saveResource('gatewayAccounts', account);
+    return decision;
+  });
+}
@@ -0,0 +1,177 @@
+/**
+ * Structured Logging
+ *
+ * Writes one JSON object per line with a level, message, timestamp and the
+ * correlation id of the API request being handled, so one payment can be
+ * followed across setup, authorization, clearing, webhooks and JIT gateway
+ * calls. apiHandler() gives every request a correlation id (or adopts a
+ * valid X-Correlation-Id header), returns it in the same header and runs the
+ * route inside it; Marqeta calls forward it.
+ *
+ * Card numbers, CVVs, PINs, passwords, secrets and auth headers are redacted
+ * from every field before a line is written.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import type { NextApiRequest } from 'next';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  // Logger that adds these fields to every line
+  child(fields: LogFields): Logger;
+}
+
+export const CORRELATION_HEADER = 'X-Correlation-Id';
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Lines below this level are dropped
+const LOG_LEVEL: LogLevel = (process.env.LOG_LEVEL as LogLevel) in LEVELS ? process.env.LOG_LEVEL as LogLevel : 'info';
+
+// Incoming correlation ids are adopted only when they look like one
+const CORRELATION_ID_PATTERN = /^[A-Za-z0-9._:-]{1,100}$/;
+
+const REDACTED = '[REDACTED]';
+
+// Field names whose values are never logged (compared lowercased, without - and _)
+const SECRET_FIELDS = new Set([
+  'cvv', 'cvv2', 'cvvnumber', 'pin', 'currentpin', 'newpin', 'pinhash', 'password', 'secret', 'secrethash',
+  'authorization', 'cookie', 'setcookie', 'xapikey', 'apikey', 'key', 'grant'
+]);
+
+// Field names holding card numbers; logged as their last four digits
+const PAN_FIELDS = new Set(['pan', 'cardnumber']);
+
+// Keep one AsyncLocalStorage across Next.js hot reloads in dev
+const globalForLogger = globalThis as unknown as { __correlationStorage?: AsyncLocalStorage<string> };
+const correlationStorage = (globalForLogger.__correlationStorage ??= new AsyncLocalStorage<string>());
+
+/**
+ * Correlation id of the request being handled (undefined outside one)
+ */
+export function currentCorrelationId(): string | undefined {
+  return correlationStorage.getStore();
+}
+
+/**
+ * Correlation id for an incoming request: its X-Correlation-Id when valid, otherwise a new one
+ */
+export function requestCorrelationId(req: NextApiRequest): string {
+  const header = req.headers[CORRELATION_HEADER.toLowerCase()];
+  const incoming = Array.isArray(header) ? header[0] : header;
+  return incoming && CORRELATION_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+}
+
+/**
+ * Run a task with a correlation id that its log lines and Marqeta calls carry
+ */
+export function withCorrelationId<T>(correlationId: string, task: () => T): T {
+  return correlationStorage.run(correlationId, task);
+}
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function maskCardNumber(value: string): string {
+  const digits = value.replace(/\D/g, '');
+  return digits.length >= 4 ? `****${digits.slice(-4)}` : REDACTED;
+}
+
+/**
+ * Strip card numbers and credentials out of free text
+ */
+function redactText(text: string): string {
+  return text
+    .replace(/\b\d{13,19}\b/g, (digits) => (passesLuhn(digits) ? maskCardNumber(digits) : digits))
+    .replace(/\b(Basic|Bearer)\s+[A-Za-z0-9+/=._~-]+/gi, `$1 ${REDACTED}`)
+    .replace(/\b(pin|cvv|cvv_number|currentPin|newPin|password)=[^&\s]*/gi, `$1=${REDACTED}`);
+}
+
+/**
+ * A copy of a value that is safe to log
+ */
+export function redact(value: unknown, seen = new WeakSet<object>()): unknown {
+  if (typeof value === 'string') {
+    return redactText(value);
+  }
+  if (value instanceof Error) {
+    const { name, message, stack, ...rest } = value as Error & Record<string, unknown>;
+    return redact({ name, message, ...rest, stack }, seen);
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, seen));
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [field, fieldValue] of Object.entries(value)) {
+    const name = field.toLowerCase().replace(/[-_]/g, '');
+    if (SECRET_FIELDS.has(name)) {
+      result[field] = REDACTED;
+    } else if (PAN_FIELDS.has(name)) {
+      result[field] = typeof fieldValue === 'string' ? maskCardNumber(fieldValue) : REDACTED;
+    } else {
+      result[field] = redact(fieldValue, seen);
+    }
+  }
+  return result;
+}
+
+function write(level: LogLevel, message: string, fields: LogFields) {
+  if (LEVELS[level] < LEVELS[LOG_LEVEL]) {
+    return;
+  }
+  const correlationId = currentCorrelationId();
+  const line = JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    msg: redactText(message),
+    ...(correlationId ? { correlation_id: correlationId } : {}),
+    ...(redact(fields) as LogFields)
+  });
+  if (level === 'error' || level === 'warn') {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+}
+
+/**
+ * Logger that adds the given fields (e.g. { component: 'marqeta' }) to every line
+ */
+export function createLogger(base: LogFields = {}): Logger {
+  return {
+    debug: (message, fields) => write('debug', message, { ...base, ...fields }),
+    info: (message, fields) => write('info', message, { ...base, ...fields }),
+    warn: (message, fields) => write('warn', message, { ...base, ...fields }),
+    error: (message, fields) => write('error', message, { ...base, ...fields }),
+    child: (fields) => createLogger({ ...base, ...fields })
+  };
+}
+
+export const logger = createLogger();
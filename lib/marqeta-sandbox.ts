@@ -0,0 +1,1195 @@
+/**
+ * Offline Marqeta Sandbox Stand-in
+ *
+ * In-memory implementation of the subset of the Marqeta Core API that
+ * lib/marqeta.ts uses. It is served by pages/api/sandbox/[...path].ts so the
+ * whole app can run without network access:
+ *
+ *   MARQETA_API_BASE_URL=http://localhost:3000/api/sandbox/v3
+ *
+ * Amount conventions follow lib/marqeta.ts: authorization simulations take
+ * minor units, clearing, reversal and refund simulations take major units,
+ * stored amounts are in minor units of the transaction's currency_code.
+ */
+
+import { createHmac, randomInt, randomUUID } from 'crypto';
+import { CURRENCY_EXPONENTS, currencyOf } from './money';
+import { CORRELATION_HEADER, createLogger, currentCorrelationId } from './logger';
+
+const log = createLogger({ component: 'sandbox' });
+
+type Json = Record<string, unknown>;
+
+export interface SandboxResponse {
+  status: number;
+  body: unknown;
+}
+
+interface SandboxTransaction extends Json {
+  token: string;
+  type: string;
+  state: string;
+  amount: number;
+  currency_code: string;
+  card_token: string;
+  user_token: string;
+  created_time: string;
+  // Running totals kept on authorizations (minor units)
+  cleared_amount?: number;
+  reversed_amount?: number;
+  refunded_amount?: number;
+}
+
+interface SandboxState {
+  fundingSources: Map<string, Json>;
+  cardProducts: Map<string, Json>;
+  users: Map<string, Json>;
+  cards: Map<string, Json>;
+  velocityControls: Map<string, Json>;
+  mccGroups: Map<string, Json>;
+  authControls: Map<string, Json>;
+  cardTransitions: Map<string, Json>;
+  transactions: Map<string, SandboxTransaction>;
+  gpaOrders: Map<string, Json>;
+  // Responses to POSTs that carried an Idempotency-Key, by path and key
+  idempotentResponses: Map<string, Promise<SandboxResponse>>;
+}
+
+// Response codes returned on simulated authorizations
+const RESPONSE_CODES = {
+  APPROVED: { code: '0000', memo: 'Approved or completed successfully' },
+  PARTIALLY_APPROVED: { code: '0010', memo: 'Partially approved' },
+  CARD_NOT_ACTIVE: { code: '1806', memo: 'Card not active' },
+  VELOCITY_EXCEEDED: { code: '1827', memo: 'Velocity control exceeded' },
+  MERCHANT_BLOCKED: { code: '1832', memo: 'Merchant not allowed by authorization control' },
+  INSUFFICIENT_FUNDS: { code: '1016', memo: 'Insufficient funds' },
+  GATEWAY_DECLINED: { code: '1812', memo: 'Declined by JIT gateway' }
+};
+
+// Keep state on globalThis so it survives Next.js hot reloads in dev
+const globalForSandbox = globalThis as unknown as { __marqetaSandbox?: SandboxState };
+
+function createState(): SandboxState {
+  return {
+    fundingSources: new Map(),
+    cardProducts: new Map(),
+    users: new Map(),
+    cards: new Map(),
+    velocityControls: new Map(),
+    mccGroups: new Map(),
+    authControls: new Map(),
+    cardTransitions: new Map(),
+    transactions: new Map(),
+    gpaOrders: new Map(),
+    idempotentResponses: new Map()
+  };
+}
+
+function getState(): SandboxState {
+  if (!globalForSandbox.__marqetaSandbox) {
+    globalForSandbox.__marqetaSandbox = createState();
+  }
+  return globalForSandbox.__marqetaSandbox;
+}
+
+/**
+ * Drop all sandbox state
+ */
+export function resetSandbox() {
+  globalForSandbox.__marqetaSandbox = createState();
+}
+
+function ok(body: unknown, status = 200): SandboxResponse {
+  return { status, body };
+}
+
+function fail(status: number, errorCode: string, message: string): SandboxResponse {
+  return { status, body: { error_code: errorCode, error_message: message } };
+}
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+function randomDigits(length: number): string {
+  let digits = '';
+  for (let i = 0; i < length; i++) {
+    digits += randomInt(0, 10).toString();
+  }
+  return digits;
+}
+
+/**
+ * Generate a Luhn-valid 16 digit PAN on the sandbox BIN
+ */
+function generatePan(): string {
+  const partial = `111111${randomDigits(9)}`;
+  let sum = 0;
+  for (let i = 0; i < partial.length; i++) {
+    let digit = Number(partial[partial.length - 1 - i]);
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return `${partial}${(10 - (sum % 10)) % 10}`;
+}
+
+function generateExpiration(): string {
+  const date = new Date();
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const year = ((date.getFullYear() + 4) % 100).toString().padStart(2, '0');
+  return `${month}${year}`;
+}
+
+/**
+ * Paginate a list the way Marqeta list endpoints do
+ */
+function listResponse<T>(items: T[], query: URLSearchParams): SandboxResponse {
+  const count = Math.max(1, Number(query.get('count')) || 5);
+  const startIndex = Math.max(0, Number(query.get('start_index')) || 0);
+  const data = items.slice(startIndex, startIndex + count);
+  return ok({
+    count: data.length,
+    start_index: startIndex,
+    end_index: startIndex + Math.max(data.length - 1, 0),
+    is_more: startIndex + count < items.length,
+    data
+  });
+}
+
+/**
+ * Store a new resource, enforcing unique tokens
+ */
+function insert(collection: Map<string, Json>, body: Json, defaults: Json = {}): SandboxResponse {
+  const token = typeof body.token === 'string' && body.token ? body.token : randomUUID();
+  if (collection.has(token)) {
+    return fail(409, '409001', `A resource with token ${token} already exists`);
+  }
+  const timestamp = now();
+  const record = {
+    ...defaults,
+    ...body,
+    token,
+    created_time: timestamp,
+    last_modified_time: timestamp
+  };
+  collection.set(token, record);
+  return ok(record, 201);
+}
+
+/**
+ * Strip the gateway password from a funding source response
+ */
+function withoutSecret(result: SandboxResponse): SandboxResponse {
+  if (result.status >= 300) return result;
+  const body = { ...(result.body as Json) };
+  delete body.basic_auth_password;
+  return { ...result, body };
+}
+
+function getOne(collection: Map<string, Json>, token: string, name: string): SandboxResponse {
+  const record = collection.get(token);
+  return record ? ok(record) : fail(404, '404001', `Cannot find ${name} with token ${token}`);
+}
+
+function createCard(body: Json, query: URLSearchParams): SandboxResponse {
+  const state = getState();
+  const userToken = body.user_token as string | undefined;
+  const productToken = body.card_product_token as string | undefined;
+
+  if (!userToken || !state.users.has(userToken)) {
+    return fail(400, '400201', 'User token is invalid or missing');
+  }
+  if (!productToken || !state.cardProducts.has(productToken)) {
+    return fail(400, '400202', 'Card product token is invalid or missing');
+  }
+
+  const product = state.cardProducts.get(productToken) as Json;
+  const lifecycle = ((product.config as Json | undefined)?.card_life_cycle ?? {}) as Json;
+  const pan = generatePan();
+  const result = insert(state.cards, body, {
+    pan,
+    last_four: pan.slice(-4),
+    cvv_number: randomDigits(3),
+    expiration: generateExpiration(),
+    state: lifecycle.activate_upon_issue ? 'ACTIVE' : 'UNACTIVATED',
+    state_reason: 'New card',
+    fulfillment_status: 'ISSUED',
+    instrument_type: 'VIRTUAL_PAN'
+  });
+
+  return result.status === 201 ? ok(presentCard(result.body as Json, query), 201) : result;
+}
+
+// States a card can be moved to through /cardtransitions
+const TRANSITION_STATES = ['ACTIVE', 'SUSPENDED', 'TERMINATED'];
+
+/**
+ * Move a card to a new state and record the transition
+ */
+function createCardTransition(body: Json): SandboxResponse {
+  const state = getState();
+  const card = state.cards.get(body.card_token as string);
+  if (!card) {
+    return fail(404, '404070', 'Cannot find card');
+  }
+  if (!TRANSITION_STATES.includes(body.state as string)) {
+    return fail(400, '400601', `state must be one of ${TRANSITION_STATES.join(', ')}`);
+  }
+  if (typeof body.reason_code !== 'string' || !/^\d{2}$/.test(body.reason_code)) {
+    return fail(400, '400602', 'reason_code is required');
+  }
+  if (card.state === 'TERMINATED') {
+    return fail(400, '400603', 'Card is terminated and cannot change state');
+  }
+
+  const transition = {
+    token: typeof body.token === 'string' && body.token ? body.token : randomUUID(),
+    card_token: card.token,
+    user_token: card.user_token,
+    state: body.state,
+    reason_code: body.reason_code,
+    reason: body.reason,
+    channel: body.channel || 'API',
+    created_time: now()
+  };
+  state.cardTransitions.set(transition.token, transition);
+  card.state = transition.state;
+  card.state_reason = transition.reason ?? `Reason code ${transition.reason_code}`;
+  card.last_modified_time = transition.created_time;
+  return ok(transition, 201);
+}
+
+/**
+ * Hide PAN and CVV unless the caller asked for them
+ */
+function presentCard(card: Json, query: URLSearchParams): Json {
+  const { pan, cvv_number, ...rest } = card;
+  return {
+    ...rest,
+    pan: query.get('show_pan') === 'true' ? pan : `${'_'.repeat(12)}${card.last_four}`,
+    ...(query.get('show_cvv_number') === 'true' ? { cvv_number } : {})
+  };
+}
+
+/**
+ * Start of the velocity window containing `at`
+ */
+function windowStart(window: string, at: Date): Date | null {
+  switch (window) {
+    case 'DAY':
+      return new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()));
+    case 'WEEK':
+      return new Date(at.getTime() - 7 * 24 * 60 * 60 * 1000);
+    case 'MONTH':
+      return new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), 1));
+    case 'LIFETIME':
+      return new Date(0);
+    default:
+      return null;
+  }
+}
+
+/**
+ * The fields control associations are matched on, for a card
+ */
+function cardSubject(card: Json): Json {
+  return { card_token: card.token, user_token: card.user_token, card_product_token: card.card_product_token };
+}
+
+/**
+ * Whether a control association covers the given card or transaction
+ */
+function matchesAssociation(association: Json, subject: Json): boolean {
+  if (association.card_token) return association.card_token === subject.card_token;
+  if (association.user_token) return association.user_token === subject.user_token;
+  if (association.card_product_token) return association.card_product_token === subject.card_product_token;
+  return true;
+}
+
+/**
+ * Amount and number of authorizations a user has used against a control in its current window
+ *
+ * Controls on a card product or the whole program apply to each cardholder
+ * separately, like Marqeta's. Only authorizations in the control's currency
+ * count towards it, less whatever was reversed; a fully reversed
+ * authorization does not count at all.
+ */
+function velocityUsage(control: Json, userToken: string, at: Date): { amount: number; uses: number } {
+  const association = (control.association ?? {}) as Json;
+  const start = windowStart((control.velocity_window as string) || 'DAY', at);
+  const spent = [...getState().transactions.values()].filter((txn) =>
+    txn.type === 'authorization' &&
+    (txn.state === 'PENDING' || txn.state === 'COMPLETION') &&
+    txn.amount - (txn.reversed_amount ?? 0) > 0 &&
+    txn.user_token === userToken &&
+    txn.currency_code === currencyOf(control.currency_code as string | undefined) &&
+    matchesAssociation(association, txn) &&
+    (start === null || new Date(txn.created_time) >= start)
+  );
+  return {
+    amount: spent.reduce((total, txn) => total + txn.amount - (txn.reversed_amount ?? 0), 0),
+    uses: spent.length
+  };
+}
+
+/**
+ * Check every active velocity control in the transaction's currency that applies to the card
+ */
+function checkVelocity(card: Json, transaction: SandboxTransaction): boolean {
+  const state = getState();
+  const at = new Date();
+  const { amount } = transaction;
+
+  for (const control of state.velocityControls.values()) {
+    if (control.active === false) continue;
+    if (currencyOf(control.currency_code as string | undefined) !== transaction.currency_code) continue;
+
+    const association = (control.association ?? {}) as Json;
+    if (!matchesAssociation(association, cardSubject(card))) continue;
+
+    const amountLimit = typeof control.amount_limit === 'number' ? control.amount_limit : null;
+    const usageLimit = typeof control.usage_limit === 'number' ? control.usage_limit : null;
+
+    if (control.velocity_window === 'TRANSACTION') {
+      if (amountLimit !== null && amount > amountLimit) return false;
+      continue;
+    }
+
+    const used = velocityUsage(control, card.user_token as string, at);
+    if (amountLimit !== null && used.amount + amount > amountLimit) return false;
+    if (usageLimit !== null && used.uses + 1 > usageLimit) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Days until a velocity window resets (undefined for rolling and unbounded windows)
+ */
+function daysRemaining(window: string, at: Date): number | undefined {
+  const start = windowStart(window, at);
+  if (!start || window === 'WEEK' || window === 'LIFETIME') {
+    return undefined;
+  }
+  const end = window === 'DAY'
+    ? new Date(start.getTime() + 24 * 60 * 60 * 1000)
+    : new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+  return Math.ceil((end.getTime() - at.getTime()) / (24 * 60 * 60 * 1000));
+}
+
+// Control fields that can be changed after creation
+const VELOCITY_CONTROL_UPDATABLE = ['name', 'amount_limit', 'usage_limit', 'velocity_window', 'active'];
+const MCC_GROUP_UPDATABLE = ['name', 'mccs', 'active'];
+const AUTH_CONTROL_UPDATABLE = ['name', 'type', 'merchant_scope', 'active'];
+
+function updateControl(collection: Map<string, Json>, token: string, body: Json, fields: string[], label: string): SandboxResponse {
+  const control = collection.get(token);
+  if (!control) {
+    return fail(404, '404001', `Cannot find ${label} with token ${token}`);
+  }
+  for (const field of fields) {
+    if (body[field] !== undefined) {
+      control[field] = body[field];
+    }
+  }
+  control.last_modified_time = now();
+  return ok(control);
+}
+
+/**
+ * Whether an MCC matches a group entry (a code or a range like 7800-7802)
+ */
+function mccInRange(mcc: string, entry: string): boolean {
+  const [low, high = low] = entry.split('-');
+  return mcc >= low && mcc <= high;
+}
+
+/**
+ * Whether a merchant falls within an authorization control's scope
+ */
+function merchantInScope(scope: Json, acceptor: Json): boolean {
+  const mcc = typeof acceptor.mcc === 'string' ? acceptor.mcc : '';
+  if (scope.mid && scope.mid === acceptor.mid) return true;
+  if (scope.mcc && scope.mcc === mcc) return true;
+  if (scope.mcc_group && mcc) {
+    const group = getState().mccGroups.get(scope.mcc_group as string);
+    return group?.active !== false && ((group?.mccs ?? []) as string[]).some((entry) => mccInRange(mcc, entry));
+  }
+  return false;
+}
+
+/**
+ * Check every active authorization control that applies to the card
+ *
+ * A matching BLOCK control declines; if any ALLOW control applies, the
+ * merchant must match one of them.
+ */
+function checkAuthControls(card: Json, acceptor: Json): boolean {
+  const controls = [...getState().authControls.values()].filter((control) =>
+    control.active !== false && matchesAssociation((control.association ?? {}) as Json, cardSubject(card))
+  );
+  const inScope = (control: Json) => merchantInScope((control.merchant_scope ?? {}) as Json, acceptor);
+
+  if (controls.some((control) => control.type === 'BLOCK' && inScope(control))) {
+    return false;
+  }
+  const allows = controls.filter((control) => control.type === 'ALLOW');
+  return allows.length === 0 || allows.some(inScope);
+}
+
+/**
+ * List controls, filtered by the association query parameters
+ */
+function listControls(collection: Map<string, Json>, query: URLSearchParams): SandboxResponse {
+  const filters: [string, string | null][] = [
+    ['user_token', query.get('user_token')],
+    ['card_product_token', query.get('card_product')],
+    ['card_token', query.get('card_token')]
+  ];
+  const controls = [...collection.values()].filter((control) => {
+    const association = (control.association ?? {}) as Json;
+    return filters.every(([field, value]) => !value || association[field] === value);
+  });
+  return listResponse(controls, query);
+}
+
+/**
+ * Active controls that apply to a user, with what is left of each
+ */
+function velocityAvailable(userToken: string, query: URLSearchParams): SandboxResponse {
+  const state = getState();
+  if (!state.users.has(userToken)) {
+    return fail(404, '404001', `Cannot find user with token ${userToken}`);
+  }
+
+  const at = new Date();
+  const cards = [...state.cards.values()].filter((card) => card.user_token === userToken);
+  const controls = [...state.velocityControls.values()]
+    .filter((control) => control.active !== false)
+    .filter((control) => {
+      const association = (control.association ?? {}) as Json;
+      return association.user_token === userToken || cards.some((card) => matchesAssociation(association, cardSubject(card)));
+    })
+    .map((control) => {
+      const amountLimit = control.amount_limit as number;
+      const usageLimit = typeof control.usage_limit === 'number' ? control.usage_limit : undefined;
+      if (control.velocity_window === 'TRANSACTION') {
+        return { ...control, available: { amount: amountLimit } };
+      }
+      const used = velocityUsage(control, userToken, at);
+      return {
+        ...control,
+        available: {
+          amount: Math.max(amountLimit - used.amount, 0),
+          ...(usageLimit !== undefined ? { uses: Math.max(usageLimit - used.uses, 0) } : {}),
+          days_remaining: daysRemaining(control.velocity_window as string, at)
+        }
+      };
+    });
+  return listResponse(controls, query);
+}
+
+interface FundingOutcome {
+  gpaOrder: Json | null;
+  approvedAmount: number;
+  response: { code: string; memo: string };
+}
+
+/**
+ * Record the GPA order that funded an authorization
+ */
+function recordGpaOrder(
+  card: Json,
+  sourceType: string,
+  sourceToken: unknown,
+  jitFunding: Json,
+  amount: number,
+  currencyCode: string
+): Json {
+  const token = randomUUID();
+  const gpaOrder = {
+    token,
+    amount,
+    currency_code: currencyCode,
+    state: 'COMPLETION',
+    response: RESPONSE_CODES.APPROVED,
+    user_token: card.user_token,
+    funding_source_token: sourceToken,
+    funding: {
+      amount,
+      source: {
+        type: sourceType,
+        token: sourceToken,
+        active: true,
+        is_default_account: false
+      }
+    },
+    jit_funding: jitFunding,
+    created_time: now(),
+    last_modified_time: now()
+  };
+  getState().gpaOrders.set(token, gpaOrder);
+  return gpaOrder;
+}
+
+/**
+ * Load funds from the program funding source for an authorization
+ */
+function fundFromProgram(card: Json, programFunding: Json, transaction: SandboxTransaction): FundingOutcome {
+  const { amount, currency_code: currencyCode } = transaction;
+  const jitFunding = {
+    token: randomUUID(),
+    method: 'pgfs.authorization',
+    user_token: card.user_token,
+    acting_user_token: card.user_token,
+    amount
+  };
+  return {
+    gpaOrder: recordGpaOrder(card, 'programfundingsource', programFunding.funding_source_token, jitFunding, amount, currencyCode),
+    approvedAmount: amount,
+    response: RESPONSE_CODES.APPROVED
+  };
+}
+
+/**
+ * Headers that carry the current request's correlation id on outgoing calls
+ */
+function correlationHeaders(): Record<string, string> {
+  const correlationId = currentCorrelationId();
+  return correlationId ? { [CORRELATION_HEADER]: correlationId } : {};
+}
+
+/**
+ * Send a JIT Funding request to a program gateway
+ *
+ * Any transport failure is reported as a 504 so the caller declines.
+ */
+async function callGateway(source: Json, payload: Json): Promise<{ status: number; body: Json }> {
+  const credentials = Buffer.from(`${source.basic_auth_username ?? ''}:${source.basic_auth_password ?? ''}`).toString('base64');
+  try {
+    const response = await fetch(source.url as string, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Basic ${credentials}`,
+        ...correlationHeaders()
+      },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(Number(source.timeout_millis) || 3000)
+    });
+    const body = await response.json().catch(() => ({}));
+    return { status: response.status, body };
+  } catch {
+    return { status: 504, body: {} };
+  }
+}
+
+/**
+ * Ask the program gateway to fund an authorization (Gateway JIT)
+ */
+async function fundFromGateway(card: Json, gatewayFunding: Json, transaction: SandboxTransaction): Promise<FundingOutcome> {
+  const source = getState().fundingSources.get(gatewayFunding.funding_source_token as string);
+  if (!source?.url) {
+    return { gpaOrder: null, approvedAmount: 0, response: RESPONSE_CODES.GATEWAY_DECLINED };
+  }
+
+  const jitFunding = {
+    token: randomUUID(),
+    method: 'pgfs.authorization',
+    user_token: card.user_token,
+    acting_user_token: card.user_token,
+    amount: transaction.amount
+  };
+  const { status, body } = await callGateway(source, {
+    gpa_order: { amount: transaction.amount, currency_code: transaction.currency_code, jit_funding: jitFunding },
+    transaction
+  });
+
+  const decision = (body.jit_funding ?? {}) as Json;
+  const approvedAmount = Math.min(Number(decision.amount) || 0, transaction.amount);
+  if (status !== 200 || approvedAmount <= 0) {
+    return {
+      gpaOrder: null,
+      approvedAmount: 0,
+      response: decision.decline_reason === 'INSUFFICIENT_FUNDS'
+        ? RESPONSE_CODES.INSUFFICIENT_FUNDS
+        : { ...RESPONSE_CODES.GATEWAY_DECLINED, memo: `${RESPONSE_CODES.GATEWAY_DECLINED.memo}: ${decision.decline_reason ?? status}` }
+    };
+  }
+
+  return {
+    gpaOrder: recordGpaOrder(card, 'programgateway', source.token, { ...jitFunding, ...decision }, approvedAmount, transaction.currency_code),
+    approvedAmount,
+    response: approvedAmount < transaction.amount ? RESPONSE_CODES.PARTIALLY_APPROVED : RESPONSE_CODES.APPROVED
+  };
+}
+
+/**
+ * Fund an authorization using the card product's JIT configuration
+ */
+async function fundAuthorization(card: Json, product: Json, transaction: SandboxTransaction): Promise<FundingOutcome> {
+  const jit = ((product.config as Json | undefined)?.jit_funding ?? {}) as Json;
+  const programFunding = jit.program_funding_source as Json | undefined;
+  const gatewayFunding = jit.programgateway_funding_source as Json | undefined;
+
+  if (gatewayFunding?.enabled) {
+    return fundFromGateway(card, gatewayFunding, transaction);
+  }
+  if (programFunding?.enabled) {
+    return fundFromProgram(card, programFunding, transaction);
+  }
+  return { gpaOrder: null, approvedAmount: 0, response: RESPONSE_CODES.INSUFFICIENT_FUNDS };
+}
+
+async function simulateAuthorization(body: Json): Promise<SandboxResponse> {
+  const state = getState();
+  const card = state.cards.get(body.card_token as string);
+  if (!card) {
+    return fail(404, '404070', 'Cannot find card');
+  }
+
+  const amount = Math.round(Number(body.amount));
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return fail(400, '400301', 'Amount must be greater than zero');
+  }
+
+  const product = state.cardProducts.get(card.card_product_token as string) ?? {};
+  const transaction: SandboxTransaction = {
+    token: randomUUID(),
+    type: 'authorization',
+    state: 'PENDING',
+    amount,
+    request_amount: amount,
+    currency_code: currencyOf(body.currency_code as string | undefined),
+    network: body.network || 'VISA',
+    card_token: card.token as string,
+    user_token: card.user_token as string,
+    card_product_token: card.card_product_token,
+    card_acceptor: body.card_acceptor,
+    partial_approval_capable: body.partial_approval_capable === true,
+    response: RESPONSE_CODES.APPROVED,
+    created_time: now(),
+    user_transaction_time: now(),
+    settlement_date: now()
+  };
+
+  if (card.state !== 'ACTIVE') {
+    transaction.state = 'DECLINED';
+    transaction.response = RESPONSE_CODES.CARD_NOT_ACTIVE;
+  } else if (!checkAuthControls(card, (body.card_acceptor ?? {}) as Json)) {
+    transaction.state = 'DECLINED';
+    transaction.response = RESPONSE_CODES.MERCHANT_BLOCKED;
+  } else if (!checkVelocity(card, transaction)) {
+    transaction.state = 'DECLINED';
+    transaction.response = RESPONSE_CODES.VELOCITY_EXCEEDED;
+  } else {
+    const outcome = await fundAuthorization(card, product, transaction);
+    transaction.response = outcome.response;
+    if (outcome.gpaOrder) {
+      transaction.gpa_order = outcome.gpaOrder;
+      transaction.amount = outcome.approvedAmount;
+    } else {
+      transaction.state = 'DECLINED';
+    }
+  }
+
+  state.transactions.set(transaction.token, transaction);
+
+  const webhook = body.webhook as Json | undefined;
+  if (webhook?.endpoint) {
+    void deliverWebhook(webhook, {
+      transactions: [transaction],
+      ...(transaction.gpa_order ? { gpaorders: [transaction.gpa_order] } : {})
+    });
+  }
+
+  return ok({ transaction }, 201);
+}
+
+/**
+ * POST events to the webhook given on a simulation, like Marqeta does
+ *
+ * Signed with MARQETA_WEBHOOK_SECRET when it is set. Failures are logged only.
+ */
+async function deliverWebhook(webhook: Json, events: Json): Promise<void> {
+  const body = JSON.stringify(events);
+  const credentials = Buffer.from(`${webhook.username ?? ''}:${webhook.password ?? ''}`).toString('base64');
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'Authorization': `Basic ${credentials}`,
+    ...correlationHeaders()
+  };
+  if (process.env.MARQETA_WEBHOOK_SECRET) {
+    headers['X-Marqeta-Signature'] = createHmac('sha1', process.env.MARQETA_WEBHOOK_SECRET).update(body).digest('hex');
+  }
+
+  try {
+    const response = await fetch(webhook.endpoint as string, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(5000)
+    });
+    if (!response.ok) {
+      log.warn('Webhook delivery rejected', { endpoint: webhook.endpoint, status: response.status });
+    }
+  } catch (error: unknown) {
+    log.warn('Webhook delivery failed', { endpoint: webhook.endpoint, error });
+  }
+}
+
+/**
+ * Amount of an authorization not yet cleared or reversed (cents)
+ */
+function remainingAuthorization(original: SandboxTransaction): number {
+  return original.amount - (original.cleared_amount ?? 0) - (original.reversed_amount ?? 0);
+}
+
+/**
+ * Parse a major-unit amount from a simulation body into minor units of the authorization's currency
+ */
+function toMinorUnits(value: unknown, original: SandboxTransaction): number {
+  return Math.round(Number(value) * 10 ** CURRENCY_EXPONENTS[currencyOf(original.currency_code)]);
+}
+
+/**
+ * Find the pending authorization a clearing or reversal refers to
+ */
+function findPendingAuthorization(body: Json): SandboxTransaction | SandboxResponse {
+  const original = getState().transactions.get(body.preceding_related_transaction_token as string);
+  if (!original || original.type !== 'authorization') {
+    return fail(404, '404071', 'Cannot find preceding related transaction');
+  }
+  if (original.state !== 'PENDING') {
+    return fail(400, '400302', `Cannot adjust a transaction in state ${original.state}`);
+  }
+  return original;
+}
+
+/**
+ * Record a follow-up transaction (clearing, reversal, refund) on an authorization
+ */
+function recordFollowUp(original: SandboxTransaction, type: string, amount: number, gpaOrder?: Json | null): SandboxTransaction {
+  const transaction: SandboxTransaction = {
+    token: randomUUID(),
+    type,
+    state: 'COMPLETION',
+    amount,
+    currency_code: original.currency_code,
+    network: original.network,
+    card_token: original.card_token,
+    user_token: original.user_token,
+    card_product_token: original.card_product_token,
+    card_acceptor: original.card_acceptor,
+    preceding_related_transaction_token: original.token,
+    response: RESPONSE_CODES.APPROVED,
+    ...(gpaOrder ? { gpa_order: gpaOrder } : {}),
+    created_time: now(),
+    user_transaction_time: now(),
+    settlement_date: now()
+  };
+  getState().transactions.set(transaction.token, transaction);
+  return transaction;
+}
+
+/**
+ * Move funds for a reversal or refund back to where they belong
+ *
+ * Reversals always return JIT funds to the source that funded the
+ * authorization. Refunds follow the card product's refunds_destination and
+ * stay on the cardholder's GPA when it is neither the program funding source
+ * nor the gateway. Returns the GPA order recording the movement, if any.
+ */
+async function returnFunds(
+  original: SandboxTransaction,
+  method: 'pgfs.authorization.reversal' | 'pgfs.refund',
+  amount: number
+): Promise<Json | null> {
+  const state = getState();
+  const fundingOrder = original.gpa_order as Json | undefined;
+  const source = (fundingOrder?.funding as Json | undefined)?.source as Json | undefined;
+  if (!source) {
+    return null;
+  }
+
+  if (method === 'pgfs.refund') {
+    const product = state.cardProducts.get(original.card_product_token as string) ?? {};
+    const jit = ((product.config as Json | undefined)?.jit_funding ?? {}) as Json;
+    const funding = (source.type === 'programgateway' ? jit.programgateway_funding_source : jit.program_funding_source) as Json | undefined;
+    const destination = funding?.refunds_destination;
+    if (destination !== 'PROGRAM_FUNDING_SOURCE' && destination !== 'GATEWAY') {
+      return null;
+    }
+  }
+
+  const jitFunding = {
+    token: randomUUID(),
+    method,
+    user_token: original.user_token,
+    acting_user_token: original.user_token,
+    amount,
+    original_jit_funding_token: (fundingOrder?.jit_funding as Json | undefined)?.token
+  };
+
+  if (source.type === 'programgateway') {
+    const gateway = state.fundingSources.get(source.token as string);
+    if (gateway) {
+      await callGateway(gateway, {
+        gpa_order: { amount, currency_code: original.currency_code, jit_funding: jitFunding },
+        transaction: original
+      });
+    }
+  }
+
+  return recordGpaOrder(original, source.type as string, source.token, jitFunding, amount, original.currency_code);
+}
+
+/**
+ * Clear all or part of an authorization
+ *
+ * An authorization stays PENDING until clearings and reversals account for
+ * its full amount, so it can be cleared several times.
+ */
+async function simulateClearing(body: Json): Promise<SandboxResponse> {
+  const state = getState();
+  const original = findPendingAuthorization(body);
+  if (!('token' in original)) {
+    return original;
+  }
+
+  const amount = toMinorUnits(body.amount, original);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return fail(400, '400301', 'Amount must be greater than zero');
+  }
+  if (amount > remainingAuthorization(original)) {
+    return fail(400, '400303', 'Amount exceeds the remaining authorized amount');
+  }
+
+  // Gateway-funded authorizations are captured at the gateway as well
+  const gpaOrder = original.gpa_order as Json | undefined;
+  const source = (gpaOrder?.funding as Json | undefined)?.source as Json | undefined;
+  if (source?.type === 'programgateway') {
+    const gateway = state.fundingSources.get(source.token as string);
+    const originalJit = gpaOrder?.jit_funding as Json;
+    if (gateway) {
+      await callGateway(gateway, {
+        gpa_order: {
+          amount,
+          currency_code: original.currency_code,
+          jit_funding: {
+            token: randomUUID(),
+            method: 'pgfs.authorization.capture',
+            user_token: original.user_token,
+            acting_user_token: original.user_token,
+            amount,
+            original_jit_funding_token: originalJit?.token
+          }
+        },
+        transaction: original
+      });
+    }
+  }
+
+  original.cleared_amount = (original.cleared_amount ?? 0) + amount;
+  if (remainingAuthorization(original) === 0) {
+    original.state = 'COMPLETION';
+  }
+  return ok({ transaction: recordFollowUp(original, 'authorization.clearing', amount) }, 201);
+}
+
+/**
+ * Reverse all or part of the uncleared amount of an authorization
+ */
+async function simulateReversal(body: Json): Promise<SandboxResponse> {
+  const original = findPendingAuthorization(body);
+  if (!('token' in original)) {
+    return original;
+  }
+
+  const amount = toMinorUnits(body.amount, original);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return fail(400, '400301', 'Amount must be greater than zero');
+  }
+  if (amount > remainingAuthorization(original)) {
+    return fail(400, '400303', 'Amount exceeds the remaining authorized amount');
+  }
+
+  const gpaOrder = await returnFunds(original, 'pgfs.authorization.reversal', amount);
+  original.reversed_amount = (original.reversed_amount ?? 0) + amount;
+  if (remainingAuthorization(original) === 0) {
+    original.state = 'COMPLETION';
+  }
+  return ok({ transaction: recordFollowUp(original, 'authorization.reversal', amount, gpaOrder) }, 201);
+}
+
+/**
+ * Refund all or part of the cleared amount of an authorization
+ *
+ * Accepts the authorization or one of its clearings as the preceding
+ * transaction.
+ */
+async function simulateRefund(body: Json): Promise<SandboxResponse> {
+  const state = getState();
+  let original = state.transactions.get(body.preceding_related_transaction_token as string);
+  if (original?.type === 'authorization.clearing') {
+    original = state.transactions.get(original.preceding_related_transaction_token as string);
+  }
+  if (!original || original.type !== 'authorization') {
+    return fail(404, '404071', 'Cannot find preceding related transaction');
+  }
+
+  const amount = toMinorUnits(body.amount, original);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return fail(400, '400301', 'Amount must be greater than zero');
+  }
+  if (amount > (original.cleared_amount ?? 0) - (original.refunded_amount ?? 0)) {
+    return fail(400, '400304', 'Amount exceeds the cleared amount not yet refunded');
+  }
+
+  const gpaOrder = await returnFunds(original, 'pgfs.refund', amount);
+  original.refunded_amount = (original.refunded_amount ?? 0) + amount;
+  return ok({ transaction: recordFollowUp(original, 'refund', amount, gpaOrder) }, 201);
+}
+
+/**
+ * List transactions, newest first, filtered like Marqeta's listing
+ *
+ * start_date and end_date are inclusive calendar dates (yyyy-mm-dd).
+ */
+function listTransactions(query: URLSearchParams): SandboxResponse {
+  const userToken = query.get('user_token');
+  const cardToken = query.get('card_token');
+  const state = query.get('state');
+  const startDate = query.get('start_date');
+  const endDate = query.get('end_date');
+  const transactions = [...getState().transactions.values()]
+    .filter((txn) => {
+      const day = txn.created_time.slice(0, 10);
+      return (!userToken || txn.user_token === userToken) &&
+        (!cardToken || txn.card_token === cardToken) &&
+        (!state || state === 'ALL' || txn.state === state) &&
+        (!startDate || day >= startDate) &&
+        (!endDate || day <= endDate);
+    })
+    .reverse();
+  return listResponse(transactions, query);
+}
+
+/**
+ * Route a Core API request to the in-memory implementation
+ *
+ * `path` is relative to /v3, e.g. `/cards/card_123`. A POST repeated with
+ * the same Idempotency-Key gets the first response back instead of running
+ * again, so client retries never create duplicates.
+ */
+export async function handleSandboxRequest(
+  method: string,
+  path: string,
+  query: URLSearchParams,
+  body: unknown,
+  idempotencyKey?: string
+): Promise<SandboxResponse> {
+  if (method !== 'POST' || !idempotencyKey) {
+    return routeRequest(method, path, query, body);
+  }
+
+  const responses = getState().idempotentResponses;
+  const cacheKey = `${path}:${idempotencyKey}`;
+  let response = responses.get(cacheKey);
+  if (!response) {
+    response = routeRequest(method, path, query, body);
+    responses.set(cacheKey, response);
+  }
+  return response;
+}
+
+async function routeRequest(
+  method: string,
+  path: string,
+  query: URLSearchParams,
+  body: unknown
+): Promise<SandboxResponse> {
+  const state = getState();
+  const data = (body && typeof body === 'object' ? body : {}) as Json;
+  const [resource, ...rest] = path.split('/').filter(Boolean);
+  const route = `${method.toUpperCase()} /${resource ?? ''}${rest.length ? '/' + rest.join('/') : ''}`;
+
+  switch (resource) {
+    case 'fundingsources':
+      if (rest[0] === 'program') {
+        if (method === 'POST' && rest.length === 1) {
+          return insert(state.fundingSources, data, { active: true, account: randomDigits(8) });
+        }
+        if (method === 'GET' && rest.length === 2) {
+          return getOne(state.fundingSources, rest[1], 'funding source');
+        }
+      }
+      if (rest[0] === 'programgateway') {
+        if (method === 'POST' && rest.length === 1) {
+          if (typeof data.url !== 'string' || !data.url) {
+            return fail(400, '400101', 'Gateway url is required');
+          }
+          return withoutSecret(insert(state.fundingSources, data, { active: true, timeout_millis: 3000 }));
+        }
+        if (method === 'GET' && rest.length === 2) {
+          return withoutSecret(getOne(state.fundingSources, rest[1], 'funding source'));
+        }
+      }
+      break;
+
+    case 'cardproducts':
+      if (method === 'POST' && rest.length === 0) {
+        return insert(state.cardProducts, data, { active: true });
+      }
+      if (method === 'GET' && rest.length === 0) {
+        return listResponse([...state.cardProducts.values()], query);
+      }
+      if (method === 'GET' && rest.length === 1) {
+        return getOne(state.cardProducts, rest[0], 'card product');
+      }
+      break;
+
+    case 'users':
+      if (method === 'POST' && rest.length === 0) {
+        return insert(state.users, data, { active: true, status: 'ACTIVE' });
+      }
+      if (method === 'GET' && rest.length === 0) {
+        return listResponse([...state.users.values()], query);
+      }
+      if (method === 'GET' && rest.length === 1) {
+        return getOne(state.users, rest[0], 'user');
+      }
+      break;
+
+    case 'cards':
+      if (method === 'POST' && rest.length === 0) {
+        return createCard(data, query);
+      }
+      if (method === 'POST' && rest.length === 1 && rest[0] === 'getbypan') {
+        const card = [...state.cards.values()].find((candidate) => candidate.pan === data.pan);
+        if (!card) {
+          return fail(404, '404070', 'Cannot find card');
+        }
+        return ok({
+          card_token: card.token,
+          user_token: card.user_token,
+          created_time: card.created_time,
+          last_modified_time: card.last_modified_time
+        });
+      }
+      if (method === 'GET' && rest.length === 2 && rest[0] === 'user') {
+        const cards = [...state.cards.values()].filter((card) => card.user_token === rest[1]);
+        return listResponse(cards.map((card) => presentCard(card, query)), query);
+      }
+      if (method === 'GET' && rest.length === 2 && rest[1] === 'showpan') {
+        // Always shows the PAN; the CVV only when asked for
+        const card = state.cards.get(rest[0]);
+        const show = new URLSearchParams({ show_pan: 'true', show_cvv_number: query.get('show_cvv_number') ?? 'false' });
+        return card ? ok(presentCard(card, show)) : fail(404, '404070', 'Cannot find card');
+      }
+      if (method === 'GET' && rest.length === 1) {
+        const card = state.cards.get(rest[0]);
+        return card ? ok(presentCard(card, query)) : fail(404, '404070', 'Cannot find card');
+      }
+      break;
+
+    case 'cardtransitions':
+      if (method === 'POST' && rest.length === 0) {
+        return createCardTransition(data);
+      }
+      if (method === 'GET' && rest.length === 2 && rest[0] === 'card') {
+        const transitions = [...state.cardTransitions.values()]
+          .filter((transition) => transition.card_token === rest[1])
+          .reverse();
+        return listResponse(transitions, query);
+      }
+      if (method === 'GET' && rest.length === 1) {
+        return getOne(state.cardTransitions, rest[0], 'card transition');
+      }
+      break;
+
+    case 'velocitycontrols':
+      if (method === 'POST' && rest.length === 0) {
+        return insert(state.velocityControls, data, { active: true, velocity_window: 'DAY', currency_code: 'USD' });
+      }
+      if (method === 'GET' && rest.length === 0) {
+        return listControls(state.velocityControls, query);
+      }
+      if (method === 'GET' && rest.length === 3 && rest[0] === 'user' && rest[2] === 'available') {
+        return velocityAvailable(rest[1], query);
+      }
+      if (method === 'GET' && rest.length === 1) {
+        return getOne(state.velocityControls, rest[0], 'velocity control');
+      }
+      if (method === 'PUT' && rest.length === 1) {
+        return updateControl(state.velocityControls, rest[0], data, VELOCITY_CONTROL_UPDATABLE, 'velocity control');
+      }
+      break;
+
+    case 'mccgroups':
+      if (method === 'POST' && rest.length === 0) {
+        return insert(state.mccGroups, data, { active: true, mccs: [] });
+      }
+      if (method === 'GET' && rest.length === 0) {
+        return listResponse([...state.mccGroups.values()], query);
+      }
+      if (method === 'GET' && rest.length === 1) {
+        return getOne(state.mccGroups, rest[0], 'MCC group');
+      }
+      if (method === 'PUT' && rest.length === 1) {
+        return updateControl(state.mccGroups, rest[0], data, MCC_GROUP_UPDATABLE, 'MCC group');
+      }
+      break;
+
+    case 'authcontrols':
+      if (method === 'POST' && rest.length === 0) {
+        return insert(state.authControls, data, { active: true, association: {}, merchant_scope: {} });
+      }
+      if (method === 'GET' && rest.length === 0) {
+        return listControls(state.authControls, query);
+      }
+      if (method === 'GET' && rest.length === 1) {
+        return getOne(state.authControls, rest[0], 'authorization control');
+      }
+      if (method === 'PUT' && rest.length === 1) {
+        return updateControl(state.authControls, rest[0], data, AUTH_CONTROL_UPDATABLE, 'authorization control');
+      }
+      break;
+
+    case 'simulations':
+      if (method === 'POST' && rest[0] === 'cardtransactions' && rest[1] === 'authorization') {
+        return simulateAuthorization(data);
+      }
+      if (method === 'POST' && rest[0] === 'cardtransactions' && rest[1] === 'authorization.clearing') {
+        return simulateClearing(data);
+      }
+      if (method === 'POST' && rest[0] === 'cardtransactions' && rest[1] === 'authorization.reversal') {
+        return simulateReversal(data);
+      }
+      if (method === 'POST' && rest[0] === 'cardtransactions' && rest[1] === 'refund') {
+        return simulateRefund(data);
+      }
+      break;
+
+    case 'transactions':
+      if (method === 'GET' && rest.length === 0) {
+        return listTransactions(query);
+      }
+      if (method === 'GET' && rest.length === 1) {
+        const transaction = state.transactions.get(rest[0]);
+        return transaction ? ok(transaction) : fail(404, '404072', 'Cannot find transaction');
+      }
+      break;
+
+    case 'gpaorders':
+      if (method === 'GET' && rest.length === 1) {
+        return getOne(state.gpaOrders, rest[0], 'GPA order');
+      }
+      break;
+  }
+
+  return fail(404, '404000', `Sandbox stand-in does not implement ${route}`);
+}
@@ -0,0 +1,602 @@
+/**
+ * Marqeta Domain Models
+ *
+ * Shared types for the Marqeta Core API resources used by this app, plus
+ * runtime validators for the API responses. Safe to import from pages.
+ */
+
+import * as v from './validation';
+
+export type CardState = 'ACTIVE' | 'SUSPENDED' | 'TERMINATED' | 'UNACTIVATED' | 'LIMITED' | 'UNSUPPORTED';
+
+/**
+ * States a card can be moved to with a card transition
+ */
+export type CardTransitionState = 'ACTIVE' | 'SUSPENDED' | 'TERMINATED';
+
+/**
+ * Marqeta card transition reason codes offered by this app
+ */
+export const CARD_TRANSITION_REASONS: readonly { code: string; label: string }[] = [
+  { code: '01', label: 'Requested by cardholder' },
+  { code: '05', label: 'Account under review' },
+  { code: '06', label: 'Suspicious activity' },
+  { code: '08', label: 'Confirmed fraud' },
+  { code: '10', label: 'Card reported lost' },
+  { code: '13', label: 'Temporary hold' },
+  { code: '18', label: 'Information validated' },
+  { code: '19', label: 'Account activity validated' },
+  { code: '23', label: 'Card reported stolen' },
+  { code: '31', label: 'Other' }
+];
+
+export type TransactionState = 'PENDING' | 'CLEARED' | 'COMPLETION' | 'DECLINED' | 'ERROR';
+
+export type VelocityWindow = 'DAY' | 'WEEK' | 'MONTH' | 'LIFETIME' | 'TRANSACTION';
+
+/**
+ * How a card product is funded at authorization time
+ */
+export type JitFundingMode = 'MANAGED' | 'GATEWAY';
+
+export type JitFundingMethod =
+  | 'pgfs.authorization'
+  | 'pgfs.authorization.incremental'
+  | 'pgfs.authorization.capture'
+  | 'pgfs.authorization.reversal'
+  | 'pgfs.refund'
+  | 'pgfs.balanceinquiry';
+
+export interface FundingSource {
+  token: string;
+  name: string;
+  active?: boolean;
+  account?: string;
+  created_time?: string;
+  last_modified_time?: string;
+}
+
+export interface ProgramFundingConfig {
+  funding_source_token: string;
+  refunds_destination?: string;
+  enabled: boolean;
+}
+
+export interface ProgramGatewayFundingSource extends FundingSource {
+  url: string;
+  basic_auth_username?: string;
+  basic_auth_password?: string;
+  timeout_millis?: number;
+}
+
+export interface CardProductConfig {
+  fulfillment?: { payment_instrument?: string };
+  poi?: { ecommerce?: boolean; atm?: boolean };
+  card_life_cycle?: { activate_upon_issue?: boolean };
+  jit_funding?: {
+    program_funding_source?: ProgramFundingConfig;
+    programgateway_funding_source?: ProgramFundingConfig;
+  };
+}
+
+export interface CardProduct {
+  token: string;
+  name: string;
+  start_date?: string;
+  active?: boolean;
+  config?: CardProductConfig;
+  created_time?: string;
+  last_modified_time?: string;
+}
+
+export interface User {
+  token: string;
+  first_name?: string;
+  last_name?: string;
+  email?: string;
+  active?: boolean;
+  status?: string;
+  metadata?: Record<string, unknown>;
+  created_time?: string;
+  last_modified_time?: string;
+}
+
+export interface Card {
+  token: string;
+  user_token: string;
+  card_product_token: string;
+  last_four: string;
+  pan: string;
+  cvv_number?: string;
+  expiration: string;
+  state: CardState;
+  state_reason?: string;
+  fulfillment_status?: string;
+  instrument_type?: string;
+  metadata?: Record<string, unknown>;
+  created_time?: string;
+  last_modified_time?: string;
+}
+
+export interface CardTransition {
+  token: string;
+  card_token: string;
+  user_token?: string;
+  state: CardState;
+  reason?: string;
+  reason_code?: string;
+  channel?: string;
+  created_time?: string;
+}
+
+export interface CardLookup {
+  card_token: string;
+  user_token: string;
+}
+
+/**
+ * What a spend or authorization control applies to: exactly one of these,
+ * or none for the whole program
+ */
+export interface ControlAssociation {
+  card_product_token?: string;
+  user_token?: string;
+  card_token?: string;
+}
+
+export interface VelocityControl {
+  token: string;
+  name?: string;
+  association: ControlAssociation;
+  amount_limit: number;
+  usage_limit?: number;
+  currency_code: string;
+  velocity_window: VelocityWindow;
+  active: boolean;
+}
+
+/**
+ * A named set of merchant category codes (single codes or ranges like 7800-7802)
+ */
+export interface MccGroup {
+  token: string;
+  name: string;
+  mccs: string[];
+  active: boolean;
+  created_time?: string;
+  last_modified_time?: string;
+}
+
+/**
+ * Merchants an authorization control applies to (any one may be given)
+ */
+export interface MerchantScope {
+  mcc?: string;
+  mcc_group?: string;
+  mid?: string;
+}
+
+/**
+ * Allows or blocks authorizations at merchants in scope
+ *
+ * BLOCK controls decline matching merchants. Once any ALLOW control applies
+ * to a card, only merchants matching an ALLOW control are accepted.
+ */
+export interface AuthControl {
+  token: string;
+  name?: string;
+  type: AuthControlType;
+  association: ControlAssociation;
+  merchant_scope: MerchantScope;
+  active: boolean;
+  created_time?: string;
+  last_modified_time?: string;
+}
+
+export type AuthControlType = 'ALLOW' | 'BLOCK';
+
+/**
+ * Whether a value is a merchant category code (four digits)
+ */
+export function isValidMcc(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}$/.test(value);
+}
+
+/**
+ * Whether a value is an MCC group entry: a code or an ascending range like 7800-7802
+ */
+export function isValidMccRange(value: unknown): value is string {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  const match = /^(\d{4})(?:-(\d{4}))?$/.exec(value);
+  return match !== null && (match[2] === undefined || match[1] <= match[2]);
+}
+
+/**
+ * Ready-made MCC groups offered when creating controls
+ */
+export const MCC_GROUP_PRESETS: readonly { name: string; mccs: string[] }[] = [
+  { name: 'Gambling', mccs: ['7800-7802', '7995'] },
+  { name: 'Cash and quasi-cash', mccs: ['6010', '6011', '6051'] },
+  { name: 'Alcohol and tobacco', mccs: ['5813', '5921', '5993'] },
+  { name: 'Travel', mccs: ['3000-3999', '4511', '4722', '7011'] }
+];
+
+/**
+ * A velocity control with what is left of it in the current window
+ */
+export interface VelocityControlBalance extends VelocityControl {
+  available: {
+    amount: number;
+    uses?: number;
+    // Days until the window resets (absent for LIFETIME and TRANSACTION)
+    days_remaining?: number;
+  };
+}
+
+export interface ResponseCode {
+  code: string;
+  memo?: string;
+}
+
+export interface JitFunding {
+  token: string;
+  method: JitFundingMethod;
+  user_token: string;
+  acting_user_token?: string;
+  amount: number;
+  original_jit_funding_token?: string;
+  decline_reason?: string;
+}
+
+export interface GpaOrder {
+  token: string;
+  amount: number;
+  state: string;
+  currency_code?: string;
+  user_token?: string;
+  funding_source_token?: string;
+  response?: ResponseCode;
+  funding: {
+    amount?: number;
+    source: {
+      type: string;
+      token?: string;
+    };
+  };
+  jit_funding?: JitFunding;
+  created_time?: string;
+}
+
+export interface CardAcceptor {
+  mid?: string;
+  mcc?: string;
+  name?: string;
+  street_address?: string;
+  city?: string;
+  state?: string;
+  zip?: string;
+  country_code?: string;
+}
+
+export interface Transaction {
+  token: string;
+  type: string;
+  state: string;
+  amount: number;
+  currency_code?: string;
+  network?: string;
+  card_token?: string;
+  user_token?: string;
+  response?: ResponseCode;
+  gpa_order?: GpaOrder;
+  card_acceptor?: CardAcceptor;
+  preceding_related_transaction_token?: string;
+  partial_approval_capable?: boolean;
+  created_time?: string;
+  user_transaction_time?: string;
+}
+
+export interface SimulationResponse {
+  transaction: Transaction;
+}
+
+/**
+ * JIT Funding request Marqeta sends to a program gateway
+ */
+export interface JitFundingRequest {
+  gpa_order: {
+    token?: string;
+    amount?: number;
+    currency_code?: string;
+    jit_funding: JitFunding;
+  };
+  transaction?: Transaction;
+}
+
+/**
+ * Response a program gateway returns to Marqeta
+ */
+export interface JitFundingResponse {
+  jit_funding: JitFunding;
+}
+
+/**
+ * Event categories Marqeta delivers to our webhook endpoint
+ */
+export type WebhookEventType = 'transaction' | 'cardtransition' | 'gpaorder';
+
+/**
+ * Webhook body: each key holds a batch of events of one type
+ */
+export interface WebhookPayload {
+  transactions?: Transaction[];
+  cardtransitions?: CardTransition[];
+  gpaorders?: GpaOrder[];
+}
+
+export interface ListResponse<T> {
+  count: number;
+  start_index: number;
+  end_index: number;
+  is_more: boolean;
+  data: T[];
+}
+
+/**
+ * Result of a charge as returned by the payment routes
+ */
+export interface PaymentResult {
+  transaction?: Transaction;
+  gpa_order?: GpaOrder;
+  cleared?: boolean;
+  cardLast4?: string;
+  amount?: number;
+  warning?: string;
+}
+
+/**
+ * One page of transaction history as returned by /api/marqeta/transactions
+ */
+export interface TransactionPage {
+  transactions: Transaction[];
+  // Pass back as ?cursor= for the next page; null on the last page
+  nextCursor: string | null;
+}
+
+/**
+ * A transaction with the JIT GPA order that funded it
+ */
+export interface TransactionDetail {
+  transaction: Transaction;
+  gpa_order: GpaOrder | null;
+}
+
+const CARD_STATES: readonly CardState[] = ['ACTIVE', 'SUSPENDED', 'TERMINATED', 'UNACTIVATED', 'LIMITED', 'UNSUPPORTED'];
+
+export const VELOCITY_WINDOWS: readonly VelocityWindow[] = ['DAY', 'WEEK', 'MONTH', 'LIFETIME', 'TRANSACTION'];
+
+export const AUTH_CONTROL_TYPES: readonly AuthControlType[] = ['ALLOW', 'BLOCK'];
+
+const JIT_FUNDING_METHODS: readonly JitFundingMethod[] = [
+  'pgfs.authorization',
+  'pgfs.authorization.incremental',
+  'pgfs.authorization.capture',
+  'pgfs.authorization.reversal',
+  'pgfs.refund',
+  'pgfs.balanceinquiry'
+];
+
+const metadata = v.optional(v.unknown) as v.Validator<Record<string, unknown> | undefined>;
+
+export const fundingSourceSchema = v.object<FundingSource>({
+  token: v.string,
+  name: v.string,
+  active: v.optional(v.boolean),
+  account: v.optional(v.string),
+  created_time: v.optional(v.string),
+  last_modified_time: v.optional(v.string)
+});
+
+export const programGatewayFundingSourceSchema = v.object<ProgramGatewayFundingSource>({
+  token: v.string,
+  name: v.string,
+  url: v.string,
+  active: v.optional(v.boolean),
+  account: v.optional(v.string),
+  basic_auth_username: v.optional(v.string),
+  basic_auth_password: v.optional(v.string),
+  timeout_millis: v.optional(v.number),
+  created_time: v.optional(v.string),
+  last_modified_time: v.optional(v.string)
+});
+
+export const cardProductSchema = v.object<CardProduct>({
+  token: v.string,
+  name: v.string,
+  start_date: v.optional(v.string),
+  active: v.optional(v.boolean),
+  config: v.optional(v.unknown) as v.Validator<CardProductConfig | undefined>,
+  created_time: v.optional(v.string),
+  last_modified_time: v.optional(v.string)
+});
+
+export const userSchema = v.object<User>({
+  token: v.string,
+  first_name: v.optional(v.string),
+  last_name: v.optional(v.string),
+  email: v.optional(v.string),
+  active: v.optional(v.boolean),
+  status: v.optional(v.string),
+  metadata,
+  created_time: v.optional(v.string),
+  last_modified_time: v.optional(v.string)
+});
+
+export const cardSchema = v.object<Card>({
+  token: v.string,
+  user_token: v.string,
+  card_product_token: v.string,
+  last_four: v.string,
+  pan: v.string,
+  cvv_number: v.optional(v.string),
+  expiration: v.string,
+  state: v.oneOf(CARD_STATES),
+  state_reason: v.optional(v.string),
+  fulfillment_status: v.optional(v.string),
+  instrument_type: v.optional(v.string),
+  metadata,
+  created_time: v.optional(v.string),
+  last_modified_time: v.optional(v.string)
+});
+
+export const cardTransitionSchema = v.object<CardTransition>({
+  token: v.string,
+  card_token: v.string,
+  user_token: v.optional(v.string),
+  state: v.oneOf(CARD_STATES),
+  reason: v.optional(v.string),
+  reason_code: v.optional(v.string),
+  channel: v.optional(v.string),
+  created_time: v.optional(v.string)
+});
+
+export const cardLookupSchema = v.object<CardLookup>({
+  card_token: v.string,
+  user_token: v.string
+});
+
+const controlAssociationSchema = v.object<ControlAssociation>({
+  card_product_token: v.optional(v.string),
+  user_token: v.optional(v.string),
+  card_token: v.optional(v.string)
+});
+
+export const velocityControlSchema = v.object<VelocityControl>({
+  token: v.string,
+  name: v.optional(v.string),
+  association: controlAssociationSchema,
+  amount_limit: v.number,
+  usage_limit: v.optional(v.number),
+  currency_code: v.string,
+  velocity_window: v.oneOf(VELOCITY_WINDOWS),
+  active: v.boolean
+});
+
+export const mccGroupSchema = v.object<MccGroup>({
+  token: v.string,
+  name: v.string,
+  mccs: v.array(v.string),
+  active: v.boolean,
+  created_time: v.optional(v.string),
+  last_modified_time: v.optional(v.string)
+});
+
+export const authControlSchema = v.object<AuthControl>({
+  token: v.string,
+  name: v.optional(v.string),
+  type: v.oneOf(AUTH_CONTROL_TYPES),
+  association: controlAssociationSchema,
+  merchant_scope: v.object<MerchantScope>({
+    mcc: v.optional(v.string),
+    mcc_group: v.optional(v.string),
+    mid: v.optional(v.string)
+  }),
+  active: v.boolean,
+  created_time: v.optional(v.string),
+  last_modified_time: v.optional(v.string)
+});
+
+const velocityAvailableSchema = v.object<VelocityControlBalance['available']>({
+  amount: v.number,
+  uses: v.optional(v.number),
+  days_remaining: v.optional(v.number)
+});
+
+export const velocityControlBalanceSchema: v.Validator<VelocityControlBalance> = (value, path) => ({
+  ...velocityControlSchema(value, path),
+  available: velocityAvailableSchema((value as Record<string, unknown>).available, `${path}.available`)
+});
+
+const responseCodeSchema = v.object<ResponseCode>({
+  code: v.string,
+  memo: v.optional(v.string)
+});
+
+export const jitFundingSchema = v.object<JitFunding>({
+  token: v.string,
+  method: v.oneOf(JIT_FUNDING_METHODS),
+  user_token: v.string,
+  acting_user_token: v.optional(v.string),
+  amount: v.number,
+  original_jit_funding_token: v.optional(v.string),
+  decline_reason: v.optional(v.string)
+});
+
+export const gpaOrderSchema = v.object<GpaOrder>({
+  token: v.string,
+  amount: v.number,
+  state: v.string,
+  currency_code: v.optional(v.string),
+  user_token: v.optional(v.string),
+  funding_source_token: v.optional(v.string),
+  response: v.optional(responseCodeSchema),
+  funding: v.object<GpaOrder['funding']>({
+    amount: v.optional(v.number),
+    source: v.object<GpaOrder['funding']['source']>({
+      type: v.string,
+      token: v.optional(v.string)
+    })
+  }),
+  jit_funding: v.optional(jitFundingSchema),
+  created_time: v.optional(v.string)
+});
+
+export const transactionSchema = v.object<Transaction>({
+  token: v.string,
+  type: v.string,
+  state: v.string,
+  amount: v.number,
+  currency_code: v.optional(v.string),
+  network: v.optional(v.string),
+  card_token: v.optional(v.string),
+  user_token: v.optional(v.string),
+  response: v.optional(responseCodeSchema),
+  gpa_order: v.optional(gpaOrderSchema),
+  card_acceptor: v.optional(v.unknown) as v.Validator<CardAcceptor | undefined>,
+  preceding_related_transaction_token: v.optional(v.string),
+  partial_approval_capable: v.optional(v.boolean),
+  created_time: v.optional(v.string),
+  user_transaction_time: v.optional(v.string)
+});
+
+export const simulationResponseSchema = v.object<SimulationResponse>({
+  transaction: transactionSchema
+});
+
+export const jitFundingRequestSchema = v.object<JitFundingRequest>({
+  gpa_order: v.object<JitFundingRequest['gpa_order']>({
+    token: v.optional(v.string),
+    amount: v.optional(v.number),
+    currency_code: v.optional(v.string),
+    jit_funding: jitFundingSchema
+  }),
+  transaction: v.optional(transactionSchema)
+});
+
+export const webhookPayloadSchema = v.object<WebhookPayload>({
+  transactions: v.optional(v.array(transactionSchema)),
+  cardtransitions: v.optional(v.array(cardTransitionSchema)),
+  gpaorders: v.optional(v.array(gpaOrderSchema))
+});
+
+export function listResponseSchema<T>(item: v.Validator<T>): v.Validator<ListResponse<T>> {
+  return v.object<ListResponse<T>>({
+    count: v.number,
+    start_index: v.number,
+    end_index: v.number,
+    is_more: v.boolean,
+    data: v.array(item)
+  });
+}
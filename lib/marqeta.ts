@@ -5,68 +5,290 @@
  * with Managed JIT (Just-In-Time) Funding.
  */
 
+import { randomUUID } from 'crypto';
+import {
+  saveResource,
+  getResource,
+  findCardByPan,
+  panFingerprint,
+  getSnapshot,
+  getLatestResource,
+  type StoredResource,
+  type StoreSnapshot
+} from './resource-store';
+import {
+  authControlSchema,
+  cardLookupSchema,
+  cardProductSchema,
+  cardSchema,
+  cardTransitionSchema,
+  fundingSourceSchema,
+  gpaOrderSchema,
+  listResponseSchema,
+  mccGroupSchema,
+  programGatewayFundingSourceSchema,
+  simulationResponseSchema,
+  transactionSchema,
+  userSchema,
+  velocityControlBalanceSchema,
+  velocityControlSchema,
+  type AuthControl,
+  type AuthControlType,
+  type Card,
+  type CardAcceptor,
+  type CardLookup,
+  type CardProduct,
+  type CardTransition,
+  type CardTransitionState,
+  type ControlAssociation,
+  type FundingSource,
+  type GpaOrder,
+  type JitFundingMode,
+  type ListResponse,
+  type MccGroup,
+  type MerchantScope,
+  type ProgramGatewayFundingSource,
+  type SimulationResponse,
+  type Transaction,
+  type TransactionState,
+  type User,
+  type VelocityControl,
+  type VelocityControlBalance,
+  type VelocityWindow
+} from './marqeta-types';
+import { validate, ValidationError, type Validator } from './validation';
+import { DEFAULT_CURRENCY, toMajorUnits, type CurrencyCode, type Money } from './money';
+import { CORRELATION_HEADER, createLogger, currentCorrelationId } from './logger';
+import { markUpstreamWrite } from './idempotency';
+
 // Marqeta API Configuration
-const MARQETA_API_BASE = 'sandbox-api.marqeta.com';
+// Set MARQETA_API_BASE_URL=http://localhost:3000/api/sandbox/v3 to use the offline stand-in (lib/marqeta-sandbox.ts)
+const MARQETA_API_BASE_URL = (process.env.MARQETA_API_BASE_URL || 'https://sandbox-api.marqeta.com/v3').replace(/\/+$/, '');
 const APP_TOKEN = process.env.MARQETA_APP_TOKEN || 'be46425e-3a40-43c3-88c5-4d086d36f1c6';
 const ADMIN_ACCESS_TOKEN = process.env.MARQETA_ADMIN_TOKEN || '179182fd-2702-402b-b091-986e90e486a5';
 
-// Hard-coded user balance limit (in cents = $100.00)
-export const USER_BALANCE_LIMIT = 10000;
+// HTTP client: per-attempt timeout, and retries with exponential backoff on 429/5xx and network errors
+const REQUEST_TIMEOUT_MS = Number(process.env.MARQETA_TIMEOUT_MS) || 10000;
+const MAX_RETRIES = Number(process.env.MARQETA_MAX_RETRIES ?? 2);
+const RETRY_BASE_DELAY_MS = Number(process.env.MARQETA_RETRY_BASE_DELAY_MS) || 250;
 
-// Storage for created resources (in-memory)
-const resources = {
-  fundingSource: null as any,
-  cardProduct: null as any,
-  user: null as any,
-  card: null as any,
-  velocityControl: null as any
-};
+// Idempotent methods, which can be retried without an Idempotency-Key
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+// Methods that only read, so sending them never changes anything at Marqeta
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// Default spend limit for new cardholders (in cents, $100.00 unless MARQETA_DEFAULT_SPEND_LIMIT is set)
+export const USER_BALANCE_LIMIT = Number(process.env.MARQETA_DEFAULT_SPEND_LIMIT) || 10000;
+
+// Gateway JIT: where Marqeta sends JIT Funding requests, and the Basic auth it uses
+export const JIT_GATEWAY_URL = process.env.JIT_GATEWAY_URL || 'http://localhost:3000/api/marqeta/jit-gateway';
+export const JIT_GATEWAY_USERNAME = process.env.JIT_GATEWAY_USERNAME || 'jit_gateway_user';
+export const JIT_GATEWAY_PASSWORD = process.env.JIT_GATEWAY_PASSWORD || 'jit_gateway_password';
 
-interface MarqetaResponse {
+// Webhooks: Basic auth Marqeta sends to /api/marqeta/webhooks, and the optional signing secret
+export const WEBHOOK_USERNAME = process.env.MARQETA_WEBHOOK_USERNAME || 'webhook_user';
+export const WEBHOOK_PASSWORD = process.env.MARQETA_WEBHOOK_PASSWORD || 'webhook_password';
+export const WEBHOOK_SECRET = process.env.MARQETA_WEBHOOK_SECRET || '';
+
+const log = createLogger({ component: 'marqeta' });
+
+/**
+ * Indexed view of every stored resource
+ */
+export interface ResourceIndex extends StoreSnapshot {
+  cardsByFingerprint: Record<string, StoredResource<'cards'>>;
+  latest: {
+    fundingSource: StoredResource<'fundingSources'> | null;
+    cardProduct: StoredResource<'cardProducts'> | null;
+    user: StoredResource<'users'> | null;
+    card: StoredResource<'cards'> | null;
+    velocityControl: StoredResource<'velocityControls'> | null;
+  };
+}
+
+interface MarqetaResponse<T> {
   status: number;
-  data: any;
+  data: T;
 }
 
-interface MarqetaError {
+/**
+ * Raised when a Marqeta API call fails
+ *
+ * `status` is the HTTP status (502 for network errors and invalid
+ * responses, 504 for timeouts), `code` the Marqeta error_code when one was
+ * returned, and `details` the raw error body.
+ */
+export class MarqetaApiError extends Error {
   status: number;
-  error: any;
+  code?: string;
+  requestId?: string;
+  method: string;
+  path: string;
+  details: unknown;
+
+  constructor(
+    message: string,
+    init: { status: number; code?: string; requestId?: string; method: string; path: string; details?: unknown }
+  ) {
+    super(message);
+    this.name = 'MarqetaApiError';
+    this.status = init.status;
+    this.code = init.code;
+    this.requestId = init.requestId;
+    this.method = init.method;
+    this.path = init.path;
+    this.details = init.details ?? null;
+  }
+
+  /**
+   * Whether the call may succeed if repeated (rate limits, server and network errors)
+   */
+  get retryable(): boolean {
+    return (this.status === 429 || this.status >= 500) && this.code !== 'INVALID_RESPONSE';
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
 /**
- * Make an HTTPS request to Marqeta API
+ * Delay before the next attempt: Retry-After when given, else exponential backoff with jitter
  */
-async function marqetaRequest(method: string, path: string, data: any = null): Promise<MarqetaResponse> {
-  const url = `https://${MARQETA_API_BASE}/v3${path}`;
-  const credentials = Buffer.from(`${APP_TOKEN}:${ADMIN_ACCESS_TOKEN}`).toString('base64');
+function retryDelay(attempt: number, retryAfter: string | null): number {
+  const seconds = Number(retryAfter);
+  if (retryAfter && Number.isFinite(seconds)) {
+    return seconds * 1000;
+  }
+  const backoff = RETRY_BASE_DELAY_MS * 2 ** attempt;
+  return backoff + Math.random() * backoff / 2;
+}
 
-  const options: RequestInit = {
+/**
+ * Build the error for a non-2xx Marqeta response
+ */
+async function errorFromResponse(response: Response, method: string, path: string): Promise<MarqetaApiError> {
+  const body = await response.json().catch(() => null) as { error_code?: unknown; error_message?: unknown; message?: unknown } | null;
+  const message = typeof body?.error_message === 'string' ? body.error_message
+    : typeof body?.message === 'string' ? body.message
+    : response.statusText || `Marqeta API returned ${response.status}`;
+
+  return new MarqetaApiError(message, {
+    status: response.status,
+    code: body?.error_code !== undefined ? String(body.error_code) : undefined,
+    requestId: response.headers.get('x-request-id') ?? undefined,
     method,
-    headers: {
-      'Content-Type': 'application/json',
-      'Accept': 'application/json',
-      'Authorization': `Basic ${credentials}`
+    path,
+    details: body
+  });
+}
+
+/**
+ * Build the error for a request that never got a response
+ */
+function transportError(cause: unknown, method: string, path: string): MarqetaApiError {
+  const timedOut = cause instanceof Error && cause.name === 'TimeoutError';
+  return new MarqetaApiError(
+    timedOut ? `Marqeta API did not respond within ${REQUEST_TIMEOUT_MS}ms` : `Could not reach Marqeta API: ${cause instanceof Error ? cause.message : String(cause)}`,
+    { status: timedOut ? 504 : 502, code: timedOut ? 'TIMEOUT' : 'NETWORK_ERROR', method, path }
+  );
+}
+
+/**
+ * Validate a successful response body, reporting a mismatch as MarqetaApiError
+ */
+function validateResponse<T>(schema: Validator<T>, body: unknown, response: Response, method: string, path: string): T {
+  try {
+    return validate(schema, body, `${method} ${path}`);
+  } catch (error: unknown) {
+    if (!(error instanceof ValidationError)) {
+      throw error;
     }
+    throw new MarqetaApiError(`Unexpected response from Marqeta API: ${error.message}`, {
+      status: 502,
+      code: 'INVALID_RESPONSE',
+      requestId: response.headers.get('x-request-id') ?? undefined,
+      method,
+      path,
+      details: body
+    });
+  }
+}
+
+/**
+ * Make an HTTPS request to Marqeta API
+ *
+ * Each attempt times out after REQUEST_TIMEOUT_MS. Rate-limited (429),
+ * server (5xx) and network failures are retried up to MAX_RETRIES times for
+ * idempotent methods and for POSTs, which carry an Idempotency-Key that stays the
+ * same across attempts. Failures throw MarqetaApiError. When a schema is
+ * given the response body is validated against it. The current request's
+ * correlation id is sent as X-Correlation-Id.
+ */
+async function marqetaRequest<T = unknown>(
+  method: string,
+  path: string,
+  data: unknown = null,
+  schema?: Validator<T>
+): Promise<MarqetaResponse<T>> {
+  const url = `${MARQETA_API_BASE_URL}${path}`;
+  const credentials = Buffer.from(`${APP_TOKEN}:${ADMIN_ACCESS_TOKEN}`).toString('base64');
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'Accept': 'application/json',
+    'Authorization': `Basic ${credentials}`
   };
+  if (method === 'POST') {
+    headers['Idempotency-Key'] = randomUUID();
+  }
+  const correlationId = currentCorrelationId();
+  if (correlationId) {
+    headers[CORRELATION_HEADER] = correlationId;
+  }
+  const canRetry = IDEMPOTENT_METHODS.includes(method) || Boolean(headers['Idempotency-Key']);
 
+  const options: RequestInit = { method, headers };
   if (data) {
     options.body = JSON.stringify(data);
   }
+  if (!READ_METHODS.includes(method)) {
+    markUpstreamWrite();
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    log.info('Marqeta request', { method, path, ...(attempt ? { retry: attempt } : {}) });
+
+    const response = await fetch(url, { ...options, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) })
+      .catch((cause: unknown) => transportError(cause, method, path));
+
+    if (!(response instanceof MarqetaApiError) && response.ok) {
+      const responseData = await response.json().catch(() => ({}));
+      return {
+        status: response.status,
+        data: schema ? validateResponse(schema, responseData, response, method, path) : (responseData as T)
+      };
+    }
 
-  console.log(`[Marqeta API] ${method} ${url}`);
+    const error = response instanceof MarqetaApiError ? response : await errorFromResponse(response, method, path);
+    const retryAfter = response instanceof MarqetaApiError ? null : response.headers.get('retry-after');
 
-  const response = await fetch(url, options);
+    if (canRetry && error.retryable && attempt < MAX_RETRIES) {
+      await sleep(retryDelay(attempt, retryAfter));
+      continue;
+    }
 
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ message: response.statusText }));
-    console.error(`[Marqeta API Error] ${method} ${path}`, {
-      status: response.status,
-      error
+    log.error('Marqeta request failed', {
+      method,
+      path,
+      status: error.status,
+      code: error.code,
+      requestId: error.requestId,
+      error: error.details ?? error.message
     });
-    throw { status: response.status, error };
+    throw error;
   }
-
-  const responseData = await response.json().catch(() => ({}));
-  return { status: response.status, data: responseData };
 }
 
 /**
@@ -74,11 +296,11 @@ async function marqetaRequest(method: string, path: string, data: any = null): P
  */
 export async function testConnection() {
   try {
-    const response = await marqetaRequest('GET', '/cardproducts?count=1');
-    console.log('✓ API Connection successful');
+    await marqetaRequest('GET', '/cardproducts?count=1', null, listResponseSchema(cardProductSchema));
+    log.info('API connection successful');
     return true;
-  } catch (error: any) {
-    console.error('✗ API Connection failed:', error);
+  } catch (error: unknown) {
+    log.error('API connection failed', { error });
     return false;
   }
 }
@@ -96,7 +318,7 @@ function generateToken(prefix: string): string {
 /**
  * Create a program funding source or use default sandbox funding
  */
-export async function createProgramFundingSource() {
+export async function createProgramFundingSource(): Promise<FundingSource> {
   try {
     const token = generateToken('fund');
     const time = new Date().toTimeString().split(' ')[0].substring(0, 5).replace(':', '');
@@ -105,26 +327,56 @@ export async function createProgramFundingSource() {
       name: `🚀 JIT-OneClick-${time}`
     };
 
-    const response = await marqetaRequest('POST', '/fundingsources/program', fundingSourceData);
-    resources.fundingSource = response.data;
+    const response = await marqetaRequest('POST', '/fundingsources/program', fundingSourceData, fundingSourceSchema);
+    await saveResource('fundingSources', response.data);
     return response.data;
-  } catch (error: any) {
+  } catch (error: unknown) {
     // If program funding source creation fails (404), use sandbox default
-    console.warn('Could not create program funding source, using sandbox default');
-    console.warn('This is normal in some sandbox environments');
-    const defaultFundingSource = {
+    log.warn('Could not create program funding source, using sandbox default (normal in some sandbox environments)', { error });
+    const defaultFundingSource: FundingSource = {
       token: 'sandbox_program_funding',
       name: 'Default Sandbox Program Funding'
     };
-    resources.fundingSource = defaultFundingSource;
+    await saveResource('fundingSources', defaultFundingSource);
     return defaultFundingSource;
   }
 }
 
+/**
+ * Create a program gateway funding source pointing at our JIT gateway route
+ */
+export async function createProgramGatewayFundingSource(): Promise<ProgramGatewayFundingSource> {
+  const token = generateToken('gwfs');
+  const time = new Date().toTimeString().split(' ')[0].substring(0, 5).replace(':', '');
+  const fundingSourceData = {
+    token,
+    name: `🛰️ JIT-Gateway-${time}`,
+    url: JIT_GATEWAY_URL,
+    basic_auth_username: JIT_GATEWAY_USERNAME,
+    basic_auth_password: JIT_GATEWAY_PASSWORD,
+    timeout_millis: 3000
+  };
+
+  const response = await marqetaRequest(
+    'POST',
+    '/fundingsources/programgateway',
+    fundingSourceData,
+    programGatewayFundingSourceSchema
+  );
+  await saveResource('fundingSources', response.data);
+  return response.data;
+}
+
 /**
  * Create a card product with JIT funding configuration
+ *
+ * MANAGED funds authorizations from the program funding source; GATEWAY
+ * asks our program gateway (/api/marqeta/jit-gateway) to decide each one.
  */
-export async function createCardProduct(fundingSourceToken: string) {
+export async function createCardProduct(
+  fundingSourceToken: string,
+  fundingMode: JitFundingMode = 'MANAGED'
+): Promise<CardProduct> {
   const token = generateToken('prod');
   const time = new Date().toTimeString().split(' ')[0].substring(0, 5).replace(':', '');
   const cardProductData = {
@@ -142,25 +394,33 @@ export async function createCardProduct(fundingSourceToken: string) {
       card_life_cycle: {
         activate_upon_issue: true
       },
-      jit_funding: {
-        program_funding_source: {
-          funding_source_token: fundingSourceToken,
-          refunds_destination: 'PROGRAM_FUNDING_SOURCE',
-          enabled: true
-        }
-      }
+      jit_funding: fundingMode === 'GATEWAY'
+        ? {
+            programgateway_funding_source: {
+              funding_source_token: fundingSourceToken,
+              refunds_destination: 'GATEWAY',
+              enabled: true
+            }
+          }
+        : {
+            program_funding_source: {
+              funding_source_token: fundingSourceToken,
+              refunds_destination: 'PROGRAM_FUNDING_SOURCE',
+              enabled: true
+            }
+          }
     }
   };
 
-  const response = await marqetaRequest('POST', '/cardproducts', cardProductData);
-  resources.cardProduct = response.data;
+  const response = await marqetaRequest('POST', '/cardproducts', cardProductData, cardProductSchema);
+  await saveResource('cardProducts', response.data);
   return response.data;
 }
 
 /**
  * Create a user (cardholder)
  */
-export async function createUser(userData?: any) {
+export async function createUser(userData: Partial<User> = {}): Promise<User> {
   const token = generateToken('user');
   const timestamp = new Date().toISOString().split('T')[0];
   const time = new Date().toTimeString().split(' ')[0].substring(0, 5);
@@ -176,15 +436,18 @@ export async function createUser(userData?: any) {
     ...userData
   };
 
-  const response = await marqetaRequest('POST', '/users', data);
-  resources.user = response.data;
+  const response = await marqetaRequest('POST', '/users', data, userSchema);
+  await saveResource('users', response.data);
   return response.data;
 }
 
 /**
  * Create a virtual card with JIT funding
+ *
+ * The PAN comes back masked and the CVV not at all; getCardDetails() fetches
+ * them when a reveal grant is redeemed.
  */
-export async function createCard(userToken: string, cardProductToken: string) {
+export async function createCard(userToken: string, cardProductToken: string): Promise<Card> {
   const token = generateToken('card');
   const time = new Date().toTimeString().split(' ')[0].substring(0, 5).replace(':', '');
   const cardData = {
@@ -198,136 +461,561 @@ export async function createCard(userToken: string, cardProductToken: string) {
 
   const response = await marqetaRequest(
     'POST',
-    '/cards?show_pan=true&show_cvv_number=true',
-    cardData
+    '/cards',
+    cardData,
+    cardSchema
+  );
+  await saveResource('cards', response.data);
+  return response.data;
+}
+
+/**
+ * Move a card to a new state (suspend, reactivate or terminate)
+ *
+ * Keeps the stored copy of the card in step so payment routes see the new
+ * state straight away.
+ */
+export async function transitionCard(
+  cardToken: string,
+  state: CardTransitionState,
+  reasonCode: string,
+  reason?: string
+): Promise<CardTransition> {
+  const transitionData = {
+    token: generateToken('transition'),
+    card_token: cardToken,
+    state,
+    reason_code: reasonCode,
+    reason,
+    channel: 'API'
+  };
+
+  const response = await marqetaRequest('POST', '/cardtransitions', transitionData, cardTransitionSchema);
+  const storedCard = await getResource('cards', cardToken);
+  if (storedCard) {
+    await saveResource('cards', { ...storedCard, state: response.data.state, state_reason: response.data.reason });
+  }
+  return response.data;
+}
+
+/**
+ * List a card's transitions, newest first
+ */
+export async function listCardTransitions(cardToken: string, count = 25): Promise<ListResponse<CardTransition>> {
+  const response = await marqetaRequest(
+    'GET',
+    `/cardtransitions/card/${cardToken}?count=${count}&sort_by=-created_time`,
+    null,
+    listResponseSchema(cardTransitionSchema)
+  );
+  return response.data;
+}
+
+/**
+ * Create a named group of merchant category codes
+ */
+export async function createMccGroup(name: string, mccs: string[]): Promise<MccGroup> {
+  const mccGroupData = {
+    token: generateToken('mcc'),
+    name,
+    mccs,
+    active: true
+  };
+
+  const response = await marqetaRequest('POST', '/mccgroups', mccGroupData, mccGroupSchema);
+  await saveResource('mccGroups', response.data);
+  return response.data;
+}
+
+/**
+ * List MCC groups
+ */
+export async function listMccGroups(): Promise<ListResponse<MccGroup>> {
+  const response = await marqetaRequest('GET', '/mccgroups?count=100', null, listResponseSchema(mccGroupSchema));
+  return response.data;
+}
+
+/**
+ * Change an MCC group's name, codes or active flag
+ */
+export async function updateMccGroup(
+  token: string,
+  changes: Partial<Pick<MccGroup, 'name' | 'mccs' | 'active'>>
+): Promise<MccGroup> {
+  const response = await marqetaRequest('PUT', `/mccgroups/${token}`, changes, mccGroupSchema);
+  await saveResource('mccGroups', response.data);
+  return response.data;
+}
+
+/**
+ * Fields accepted when creating an authorization control
+ */
+export interface AuthControlInput {
+  name?: string;
+  type: AuthControlType;
+  association: ControlAssociation;
+  merchant_scope: MerchantScope;
+}
+
+/**
+ * Create an authorization control allowing or blocking merchants
+ */
+export async function createAuthControl(input: AuthControlInput): Promise<AuthControl> {
+  const authControlData = {
+    token: generateToken('ac'),
+    ...input,
+    active: true
+  };
+
+  const response = await marqetaRequest('POST', '/authcontrols', authControlData, authControlSchema);
+  await saveResource('authControls', response.data);
+  return response.data;
+}
+
+/**
+ * List authorization controls, optionally for one card product, user or card
+ */
+export async function listAuthControls(association: ControlAssociation = {}): Promise<ListResponse<AuthControl>> {
+  const params = new URLSearchParams({ count: '100' });
+  if (association.card_product_token) params.set('card_product', association.card_product_token);
+  if (association.user_token) params.set('user_token', association.user_token);
+  if (association.card_token) params.set('card_token', association.card_token);
+
+  const response = await marqetaRequest(
+    'GET',
+    `/authcontrols?${params}`,
+    null,
+    listResponseSchema(authControlSchema)
   );
-  resources.card = response.data;
   return response.data;
 }
 
+/**
+ * Change an authorization control's name, type, merchant scope or active flag
+ */
+export async function updateAuthControl(
+  token: string,
+  changes: Partial<Pick<AuthControl, 'name' | 'type' | 'merchant_scope' | 'active'>>
+): Promise<AuthControl> {
+  const response = await marqetaRequest('PUT', `/authcontrols/${token}`, changes, authControlSchema);
+  await saveResource('authControls', response.data);
+  return response.data;
+}
+
+/**
+ * Stop an authorization control from applying
+ */
+export async function deactivateAuthControl(token: string): Promise<AuthControl> {
+  return updateAuthControl(token, { active: false });
+}
+
+/**
+ * Fields accepted when creating a velocity control (amounts in cents)
+ */
+export interface VelocityControlInput {
+  name?: string;
+  association: VelocityControl['association'];
+  amount_limit: number;
+  usage_limit?: number;
+  velocity_window: VelocityWindow;
+  // Currency of amount_limit (USD when not given); only authorizations in it count
+  currency_code?: CurrencyCode;
+}
+
 /**
  * Create velocity control for spending limits
  */
-export async function createVelocityControl(userToken: string, name = 'Daily Spend Limit') {
+export async function createVelocityControl(input: VelocityControlInput): Promise<VelocityControl> {
   const velocityControlData = {
-    name,
-    association: {
-      user_token: userToken
-    },
-    amount_limit: USER_BALANCE_LIMIT,
-    currency_code: 'USD',
-    velocity_window: 'DAY',
+    token: generateToken('vc'),
+    ...input,
+    currency_code: input.currency_code ?? DEFAULT_CURRENCY,
     active: true
   };
 
-  const response = await marqetaRequest('POST', '/velocitycontrols', velocityControlData);
-  resources.velocityControl = response.data;
+  const response = await marqetaRequest('POST', '/velocitycontrols', velocityControlData, velocityControlSchema);
+  await saveResource('velocityControls', response.data);
+  return response.data;
+}
+
+/**
+ * List velocity controls, optionally for one card product, user or card
+ */
+export async function listVelocityControls(
+  association: VelocityControl['association'] = {}
+): Promise<ListResponse<VelocityControl>> {
+  const params = new URLSearchParams({ count: '100' });
+  if (association.card_product_token) params.set('card_product', association.card_product_token);
+  if (association.user_token) params.set('user_token', association.user_token);
+  if (association.card_token) params.set('card_token', association.card_token);
+
+  const response = await marqetaRequest(
+    'GET',
+    `/velocitycontrols?${params}`,
+    null,
+    listResponseSchema(velocityControlSchema)
+  );
+  return response.data;
+}
+
+/**
+ * Get a velocity control by token
+ */
+export async function getVelocityControl(token: string): Promise<VelocityControl> {
+  const response = await marqetaRequest('GET', `/velocitycontrols/${token}`, null, velocityControlSchema);
+  return response.data;
+}
+
+/**
+ * Change a velocity control's limits, window, name or active flag
+ */
+export async function updateVelocityControl(
+  token: string,
+  changes: Partial<Pick<VelocityControl, 'name' | 'amount_limit' | 'velocity_window' | 'active'>> & {
+    // null removes the usage limit
+    usage_limit?: number | null;
+  }
+): Promise<VelocityControl> {
+  const response = await marqetaRequest('PUT', `/velocitycontrols/${token}`, changes, velocityControlSchema);
+  await saveResource('velocityControls', response.data);
+  return response.data;
+}
+
+/**
+ * Stop a velocity control from applying (Marqeta controls cannot be deleted)
+ */
+export async function deactivateVelocityControl(token: string): Promise<VelocityControl> {
+  return updateVelocityControl(token, { active: false });
+}
+
+/**
+ * Remaining amount and uses of every active control that applies to a user
+ */
+export async function getVelocityControlBalances(userToken: string): Promise<ListResponse<VelocityControlBalance>> {
+  const response = await marqetaRequest(
+    'GET',
+    `/velocitycontrols/user/${userToken}/available?count=100`,
+    null,
+    listResponseSchema(velocityControlBalanceSchema)
+  );
   return response.data;
 }
 
+// Merchant used for simulated authorizations unless the caller overrides it
+export const DEFAULT_CARD_ACCEPTOR: Required<CardAcceptor> = {
+  mid: '1234567890',
+  mcc: '5411',
+  name: 'Test Merchant',
+  street_address: '123 Main St',
+  city: 'San Francisco',
+  state: 'CA',
+  zip: '94105',
+  country_code: 'USA'
+};
+
 /**
  * Simulate a transaction to verify JIT funding flow
+ *
+ * `merchant` overrides fields of the default card acceptor, e.g. its MCC to
+ * test authorization controls.
  */
-export async function simulateTransaction(cardToken: string, amount: number, webhookEndpoint?: string) {
+export async function simulateTransaction(
+  cardToken: string,
+  amount: Money,
+  options: { webhookEndpoint?: string; merchant?: CardAcceptor } = {}
+): Promise<SimulationResponse> {
+  const { webhookEndpoint, merchant } = options;
+  // Authorizations carry minor units
   const transactionData = {
-    amount: amount.toString(),
+    amount: amount.amount.toString(),
+    currency_code: amount.currency,
     card_token: cardToken,
-    card_acceptor: {
-      mid: '1234567890',
-      name: 'Test Merchant',
-      street_address: '123 Main St',
-      city: 'San Francisco',
-      state: 'CA',
-      zip: '94105',
-      country_code: 'USA'
-    },
+    card_acceptor: { ...DEFAULT_CARD_ACCEPTOR, ...merchant },
     network: 'VISA',
     webhook: webhookEndpoint ? {
       endpoint: webhookEndpoint,
-      username: 'webhook_user',
-      password: 'webhook_password'
+      username: WEBHOOK_USERNAME,
+      password: WEBHOOK_PASSWORD
     } : undefined
   };
 
   const response = await marqetaRequest(
     'POST',
     '/simulations/cardtransactions/authorization',
-    transactionData
+    transactionData,
+    simulationResponseSchema
   );
   return response.data;
 }
 
 /**
- * Clear a transaction (move from PENDING to CLEARED state)
+ * Clear all or part of an authorization
+ *
+ * Can be called several times against one authorization (multiple
+ * clearings) until the authorized amount is used up.
  */
-export async function clearTransaction(transactionToken: string, amount: number) {
-  // Amount should be in dollars for clearing endpoint (not cents like authorization)
+export async function clearTransaction(transactionToken: string, amount: Money): Promise<SimulationResponse> {
+  // Follow-up simulations take major units (not minor units like authorization)
   const clearingData = {
     preceding_related_transaction_token: transactionToken,
-    amount: amount / 100  // Convert cents to dollars
+    amount: toMajorUnits(amount)
   };
 
   const response = await marqetaRequest(
     'POST',
     '/simulations/cardtransactions/authorization.clearing',
-    clearingData
+    clearingData,
+    simulationResponseSchema
+  );
+  return response.data;
+}
+
+/**
+ * Reverse all or part of the uncleared amount of an authorization
+ */
+export async function reverseTransaction(transactionToken: string, amount: Money): Promise<SimulationResponse> {
+  const reversalData = {
+    preceding_related_transaction_token: transactionToken,
+    amount: toMajorUnits(amount)
+  };
+
+  const response = await marqetaRequest(
+    'POST',
+    '/simulations/cardtransactions/authorization.reversal',
+    reversalData,
+    simulationResponseSchema
+  );
+  return response.data;
+}
+
+/**
+ * Refund all or part of a cleared transaction
+ *
+ * Funds go to the card product's refunds_destination.
+ */
+export async function refundTransaction(transactionToken: string, amount: Money): Promise<SimulationResponse> {
+  const refundData = {
+    preceding_related_transaction_token: transactionToken,
+    amount: toMajorUnits(amount)
+  };
+
+  const response = await marqetaRequest(
+    'POST',
+    '/simulations/cardtransactions/refund',
+    refundData,
+    simulationResponseSchema
+  );
+  return response.data;
+}
+
+/**
+ * Filters accepted by Marqeta's transaction listing
+ */
+export interface TransactionListQuery {
+  cardToken?: string;
+  userToken?: string;
+  state?: TransactionState;
+  // Inclusive dates, yyyy-mm-dd
+  startDate?: string;
+  endDate?: string;
+  count?: number;
+  startIndex?: number;
+}
+
+/**
+ * List transactions for a card or user, newest first
+ */
+export async function listTransactions(query: TransactionListQuery): Promise<ListResponse<Transaction>> {
+  const params = new URLSearchParams({ sort_by: '-user_transaction_time' });
+  const filters: [string, string | number | undefined][] = [
+    ['card_token', query.cardToken],
+    ['user_token', query.userToken],
+    ['state', query.state],
+    ['start_date', query.startDate],
+    ['end_date', query.endDate],
+    ['count', query.count],
+    ['start_index', query.startIndex]
+  ];
+  for (const [name, value] of filters) {
+    if (value !== undefined) {
+      params.set(name, String(value));
+    }
+  }
+
+  const response = await marqetaRequest(
+    'GET',
+    `/transactions?${params}`,
+    null,
+    listResponseSchema(transactionSchema)
   );
   return response.data;
 }
 
+/**
+ * Get a transaction by token
+ */
+export async function getTransaction(transactionToken: string): Promise<Transaction> {
+  const response = await marqetaRequest('GET', `/transactions/${transactionToken}`, null, transactionSchema);
+  return response.data;
+}
+
+/**
+ * Get a GPA order (e.g. the JIT funding behind an authorization) by token
+ */
+export async function getGpaOrder(gpaOrderToken: string): Promise<GpaOrder> {
+  const response = await marqetaRequest('GET', `/gpaorders/${gpaOrderToken}`, null, gpaOrderSchema);
+  return response.data;
+}
+
 /**
  * Get user balance and details
  */
-export async function getUserBalance(userToken: string) {
-  const response = await marqetaRequest('GET', `/users/${userToken}`);
+export async function getUserBalance(userToken: string): Promise<User> {
+  const response = await marqetaRequest('GET', `/users/${userToken}`, null, userSchema);
+  return response.data;
+}
+
+/**
+ * Get a card by token
+ */
+export async function getCard(cardToken: string): Promise<Card> {
+  const response = await marqetaRequest('GET', `/cards/${cardToken}`, null, cardSchema);
+  return response.data;
+}
+
+/**
+ * Get a card with its full PAN and CVV
+ */
+export async function getCardDetails(cardToken: string): Promise<Card> {
+  const response = await marqetaRequest('GET', `/cards/${cardToken}/showpan?show_cvv_number=true`, null, cardSchema);
   return response.data;
 }
 
 /**
- * Get all stored resources
+ * Look up a card token by PAN using Marqeta's card lookup
  */
-export function getResources() {
-  return resources;
+export async function getCardByPan(pan: string): Promise<CardLookup> {
+  const response = await marqetaRequest('POST', '/cards/getbypan', { pan }, cardLookupSchema);
+  return response.data;
 }
 
+/**
+ * Resolve a PAN to one of our cards
+ *
+ * Checks the resource store by PAN fingerprint first, then falls back to
+ * Marqeta's card lookup (saving the card with its fingerprint, never the
+ * PAN). Returns null when the PAN is unknown.
+ */
+export async function resolveCardByPan(pan: string): Promise<StoredResource<'cards'> | null> {
+  const storedCard = await findCardByPan(pan);
+  if (storedCard) {
+    return storedCard;
+  }
+
+  try {
+    const lookup = await getCardByPan(pan);
+    const card = await getCard(lookup.card_token);
+    return await saveResource('cards', { ...card, pan_fingerprint: panFingerprint(pan) });
+  } catch (error: unknown) {
+    if (error instanceof MarqetaApiError && (error.status === 404 || error.status === 400)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get all stored resources, indexed by token and card PAN fingerprint
+ */
+export async function getResources(): Promise<ResourceIndex> {
+  const snapshot = await getSnapshot();
+  const cardsByFingerprint: Record<string, StoredResource<'cards'>> = {};
+  for (const card of Object.values(snapshot.cards)) {
+    if (card.pan_fingerprint) {
+      cardsByFingerprint[card.pan_fingerprint] = card;
+    }
+  }
+
+  const [fundingSource, cardProduct, user, card, velocityControl] = await Promise.all([
+    getLatestResource('fundingSources'),
+    getLatestResource('cardProducts'),
+    getLatestResource('users'),
+    getLatestResource('cards'),
+    getLatestResource('velocityControls')
+  ]);
+
+  return {
+    ...snapshot,
+    cardsByFingerprint,
+    latest: { fundingSource, cardProduct, user, card, velocityControl }
+  };
+}
+
+/**
+ * Outcome of setupJITFunding
+ */
+export type SetupResult =
+  | {
+      success: true;
+      fundingSource: FundingSource;
+      cardProduct: CardProduct;
+      user: User;
+      card: Card;
+      velocityControl: VelocityControl;
+    }
+  | {
+      success: false;
+      error: string;
+      cause: unknown;
+    };
+
 /**
  * Setup complete JIT funding flow
+ *
+ * The cardholder gets one velocity control, USER_BALANCE_LIMIT per DAY
+ * unless another spend limit is given.
  */
-export async function setupJITFunding() {
+export async function setupJITFunding(
+  fundingMode: JitFundingMode = 'MANAGED',
+  spendLimit: Pick<VelocityControlInput, 'amount_limit' | 'velocity_window' | 'currency_code'> = {
+    amount_limit: USER_BALANCE_LIMIT,
+    velocity_window: 'DAY'
+  }
+): Promise<SetupResult> {
   try {
-    console.log('Starting JIT Funding setup...');
+    log.info('JIT funding setup started', { fundingMode });
 
     // Test connection first
-    console.log('Testing API connection...');
     const connected = await testConnection();
     if (!connected) {
       throw new Error('Failed to connect to Marqeta API. Please check your credentials.');
     }
 
-    // Step 1: Create program funding source (or use sandbox default)
-    console.log('Step 1: Setting up program funding source...');
-    const fundingSource = await createProgramFundingSource();
-    console.log('✓ Funding source ready:', fundingSource.token);
+    // Step 1: Create program funding source (or use sandbox default), or the gateway for Gateway JIT
+    const fundingSource = fundingMode === 'GATEWAY'
+      ? await createProgramGatewayFundingSource()
+      : await createProgramFundingSource();
+    log.info('Funding source ready', { step: 1, funding_source_token: fundingSource.token });
 
     // Step 2: Create card product with JIT funding
-    console.log('Step 2: Creating card product with JIT funding...');
-    const cardProduct = await createCardProduct(fundingSource.token);
-    console.log('✓ Card product created:', cardProduct.token);
+    const cardProduct = await createCardProduct(fundingSource.token, fundingMode);
+    log.info('Card product created', { step: 2, card_product_token: cardProduct.token });
 
     // Step 3: Create user
-    console.log('Step 3: Creating user...');
     const user = await createUser();
-    console.log('✓ User created:', user.token);
+    log.info('User created', { step: 3, user_token: user.token });
 
     // Step 4: Create virtual card
-    console.log('Step 4: Creating virtual card...');
     const card = await createCard(user.token, cardProduct.token);
-    console.log('✓ Card created:', card.token);
+    log.info('Card created', { step: 4, card_token: card.token });
 
     // Step 5: Create velocity control
-    console.log('Step 5: Creating velocity control...');
-    const velocityControl = await createVelocityControl(user.token);
-    console.log('✓ Velocity control created:', velocityControl.token);
+    const velocityControl = await createVelocityControl({
+      name: 'Spend Limit',
+      association: { user_token: user.token },
+      ...spendLimit
+    });
+    log.info('Velocity control created', { step: 5, velocity_control_token: velocityControl.token });
 
     return {
       fundingSource,
@@ -337,11 +1025,12 @@ export async function setupJITFunding() {
       velocityControl,
       success: true
     };
-  } catch (error: any) {
-    console.error('JIT Funding setup failed:', error);
+  } catch (error: unknown) {
+    log.error('JIT funding setup failed', { fundingMode, error });
     return {
       success: false,
-      error: error.error || error.message
+      error: error instanceof Error ? error.message : String(error),
+      cause: error
     };
   }
 }
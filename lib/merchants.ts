@@ -0,0 +1,159 @@
+/**
+ * Merchant Profiles
+ *
+ * Registry of merchants that simulated transactions can be made at. A set of
+ * built-in profiles covers common categories; profiles added through
+ * pages/api/marqeta/merchants.ts are kept in the resource store. Payment
+ * routes take a merchantId and charge at that merchant's card acceptor.
+ */
+
+import { randomUUID } from 'crypto';
+import { DEFAULT_CARD_ACCEPTOR } from './marqeta';
+import { getResource, listResources, saveResource } from './resource-store';
+import { ApiError } from './api-errors';
+import { isValidMcc, type CardAcceptor } from './marqeta-types';
+
+/**
+ * A merchant simulated transactions can be made at
+ */
+export interface MerchantProfile {
+  token: string;
+  name: string;
+  mid: string;
+  mcc: string;
+  street_address: string;
+  city: string;
+  state?: string;
+  zip?: string;
+  // ISO 3166 alpha-3, as Marqeta expects
+  country_code: string;
+  built_in?: boolean;
+}
+
+export type MerchantInput = Omit<MerchantProfile, 'token' | 'built_in'>;
+
+// Merchant used when a payment names none
+export const DEFAULT_MERCHANT_ID = 'merchant_test';
+
+const BUILT_IN_MERCHANTS: MerchantProfile[] = [
+  { token: DEFAULT_MERCHANT_ID, ...DEFAULT_CARD_ACCEPTOR },
+  {
+    token: 'merchant_coffee',
+    name: 'Ritual Coffee Roasters',
+    mid: '4445550001',
+    mcc: '5814',
+    street_address: '1026 Valencia St',
+    city: 'San Francisco',
+    state: 'CA',
+    zip: '94110',
+    country_code: 'USA'
+  },
+  {
+    token: 'merchant_fuel',
+    name: 'Lone Star Fuel',
+    mid: '4445550002',
+    mcc: '5541',
+    street_address: '2100 S Congress Ave',
+    city: 'Austin',
+    state: 'TX',
+    zip: '78704',
+    country_code: 'USA'
+  },
+  {
+    token: 'merchant_airline',
+    name: 'Cascadia Air',
+    mid: '4445550003',
+    mcc: '4511',
+    street_address: '17801 International Blvd',
+    city: 'Seattle',
+    state: 'WA',
+    zip: '98158',
+    country_code: 'USA'
+  },
+  {
+    token: 'merchant_hotel',
+    name: 'Harborview Hotel',
+    mid: '4445550004',
+    mcc: '7011',
+    street_address: '70 Rowes Wharf',
+    city: 'Boston',
+    state: 'MA',
+    zip: '02110',
+    country_code: 'USA'
+  },
+  {
+    token: 'merchant_casino',
+    name: 'Silver Sage Casino',
+    mid: '4445550005',
+    mcc: '7995',
+    street_address: '3400 Las Vegas Blvd S',
+    city: 'Las Vegas',
+    state: 'NV',
+    zip: '89109',
+    country_code: 'USA'
+  },
+  {
+    token: 'merchant_books_london',
+    name: 'Camden Lock Books',
+    mid: '4445550006',
+    mcc: '5942',
+    street_address: '54 Camden Lock Pl',
+    city: 'London',
+    zip: 'NW1 8AF',
+    country_code: 'GBR'
+  }
+].map((merchant) => ({ ...merchant, built_in: true }));
+
+/**
+ * List built-in merchants, starting with the default one, followed by added ones
+ */
+export async function listMerchants(): Promise<MerchantProfile[]> {
+  return [...BUILT_IN_MERCHANTS, ...(await listResources('merchants'))];
+}
+
+/**
+ * Get a merchant by token (null when unknown)
+ */
+export async function getMerchant(token: string): Promise<MerchantProfile | null> {
+  return BUILT_IN_MERCHANTS.find((merchant) => merchant.token === token) ?? (await getResource('merchants', token));
+}
+
+/**
+ * Add a merchant to the registry
+ */
+export async function createMerchant(input: MerchantInput): Promise<MerchantProfile> {
+  return saveResource('merchants', { ...input, token: `merchant_${randomUUID().slice(0, 8)}` });
+}
+
+/**
+ * Card acceptor a simulated authorization at this merchant carries
+ */
+export function toCardAcceptor(merchant: MerchantProfile): CardAcceptor {
+  const { mid, mcc, name, street_address, city, state, zip, country_code } = merchant;
+  return { mid, mcc, name, street_address, city, state, zip, country_code };
+}
+
+/**
+ * Resolve the merchant a payment request names (merchantId, optionally with an mcc override)
+ *
+ * Returns undefined when neither is given so the default acceptor is used.
+ * Throws VALIDATION_ERROR for a malformed mcc and MERCHANT_NOT_FOUND for an
+ * unknown merchantId.
+ */
+export async function resolvePaymentMerchant(merchantId: unknown, mcc: unknown): Promise<CardAcceptor | undefined> {
+  if (mcc !== undefined && !isValidMcc(mcc)) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'mcc must be a 4-digit merchant category code');
+  }
+  if (merchantId === undefined) {
+    return mcc ? { mcc } : undefined;
+  }
+  if (typeof merchantId !== 'string' || !merchantId) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'merchantId must be a merchant token');
+  }
+
+  const merchant = await getMerchant(merchantId);
+  if (!merchant) {
+    throw new ApiError(404, 'MERCHANT_NOT_FOUND', 'Merchant not found', { details: { merchantId } });
+  }
+  return { ...toCardAcceptor(merchant), ...(mcc ? { mcc } : {}) };
+}
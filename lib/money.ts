@@ -0,0 +1,138 @@
+/**
+ * Money
+ *
+ * Amounts are held as an integer number of minor units (cents, yen, fils)
+ * together with their ISO 4217 currency code, so no arithmetic ever happens
+ * on fractional values. Request and form amounts are decimal strings in major
+ * units and are parsed digit by digit rather than multiplied as floats. Safe
+ * to import from the browser.
+ */
+
+// Minor-unit exponent of each supported currency (ISO 4217)
+export const CURRENCY_EXPONENTS = {
+  USD: 2,
+  EUR: 2,
+  GBP: 2,
+  CAD: 2,
+  AUD: 2,
+  CHF: 2,
+  MXN: 2,
+  JPY: 0,
+  KRW: 0,
+  KWD: 3,
+  BHD: 3,
+  JOD: 3
+} as const;
+
+export type CurrencyCode = keyof typeof CURRENCY_EXPONENTS;
+
+export const CURRENCY_CODES = Object.keys(CURRENCY_EXPONENTS) as CurrencyCode[];
+
+export const DEFAULT_CURRENCY: CurrencyCode = 'USD';
+
+export interface Money {
+  // Minor units (always an integer)
+  amount: number;
+  currency: CurrencyCode;
+}
+
+/**
+ * Raised when a value cannot be read as an amount of money
+ */
+export class MoneyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MoneyError';
+  }
+}
+
+export function isCurrencyCode(value: unknown): value is CurrencyCode {
+  return typeof value === 'string' && Object.hasOwn(CURRENCY_EXPONENTS, value);
+}
+
+/**
+ * Money from an amount already in minor units
+ */
+export function money(amount: number, currency: CurrencyCode = DEFAULT_CURRENCY): Money {
+  if (!Number.isSafeInteger(amount)) {
+    throw new MoneyError(`Minor-unit amounts must be whole numbers, received ${amount}`);
+  }
+  return { amount, currency };
+}
+
+/**
+ * Currency of a Marqeta record's currency_code (USD when missing or unsupported)
+ */
+export function currencyOf(currencyCode: string | undefined): CurrencyCode {
+  return isCurrencyCode(currencyCode) ? currencyCode : DEFAULT_CURRENCY;
+}
+
+/**
+ * Money from a Marqeta record's minor-unit amount and currency_code
+ */
+export function moneyIn(amount: number, currencyCode: string | undefined): Money {
+  return money(amount, currencyOf(currencyCode));
+}
+
+/**
+ * Parse a decimal amount in major units ("10.50", "1000", 12.5) exactly
+ *
+ * Rejects negative values, exponent notation and more decimal places than the
+ * currency has (e.g. "1.5" JPY or "1.2345" KWD).
+ */
+export function parseMoney(value: unknown, currency: CurrencyCode = DEFAULT_CURRENCY): Money {
+  const text = typeof value === 'number' ? String(value) : typeof value === 'string' ? value.trim() : '';
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(text);
+  if (!match) {
+    throw new MoneyError('Amount must be a decimal number such as 10.50');
+  }
+
+  const exponent = CURRENCY_EXPONENTS[currency];
+  const [, whole, fraction = ''] = match;
+  if (fraction.replace(/0+$/, '').length > exponent) {
+    throw new MoneyError(
+      exponent === 0
+        ? `${currency} amounts cannot have decimal places`
+        : `${currency} amounts have at most ${exponent} decimal places`
+    );
+  }
+
+  const digits = `${whole}${fraction.padEnd(exponent, '0').slice(0, exponent)}`;
+  const amount = Number(digits);
+  if (!Number.isSafeInteger(amount)) {
+    throw new MoneyError('Amount is too large');
+  }
+  return { amount, currency };
+}
+
+/**
+ * Exact decimal string in major units ("10.50", "1000", "1.250")
+ */
+export function toDecimalString({ amount, currency }: Money): string {
+  const exponent = CURRENCY_EXPONENTS[currency];
+  const sign = amount < 0 ? '-' : '';
+  const digits = String(Math.abs(amount)).padStart(exponent + 1, '0');
+  return exponent === 0
+    ? `${sign}${digits}`
+    : `${sign}${digits.slice(0, -exponent)}.${digits.slice(-exponent)}`;
+}
+
+/**
+ * Major units as a number, for APIs that take decimal amounts
+ */
+export function toMajorUnits(value: Money): number {
+  return Number(toDecimalString(value));
+}
+
+/**
+ * Format for display ("$10.50", "¥1,000", "KWD 1.250")
+ */
+export function formatMoney(value: Money, locale = 'en-US'): string {
+  const exponent = CURRENCY_EXPONENTS[value.currency];
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency: value.currency,
+    minimumFractionDigits: exponent,
+    maximumFractionDigits: exponent
+  }).format(toMajorUnits(value));
+}
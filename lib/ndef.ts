@@ -0,0 +1,334 @@
+/**
+ * NDEF Records
+ *
+ * Decodes NFC Data Exchange Format messages into text, URI, JSON and other
+ * MIME records, whether they arrive as raw message bytes (native NFC
+ * libraries) or as the records Web NFC passes to NDEFReader.onreading, and
+ * finds the payment a tag asks for. Also builds the message written when
+ * provisioning a tag. Safe to import from the browser.
+ */
+
+export type NdefRecord =
+  | { kind: 'text'; text: string; lang: string }
+  | { kind: 'uri'; uri: string }
+  | { kind: 'json'; mediaType: string; value: unknown }
+  | { kind: 'mime'; mediaType: string; data: Uint8Array }
+  | { kind: 'empty' }
+  | { kind: 'unknown'; type: string; data: Uint8Array };
+
+/**
+ * Raised when raw bytes are not a well-formed NDEF message
+ */
+export class NdefError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NdefError';
+  }
+}
+
+// Type Name Format values (low 3 bits of a record header)
+const TNF_EMPTY = 0;
+const TNF_WELL_KNOWN = 1;
+const TNF_MEDIA = 2;
+const TNF_ABSOLUTE_URI = 3;
+const TNF_UNCHANGED = 6;
+
+// Record header flags
+const FLAG_ME = 0x40;
+const FLAG_CF = 0x20;
+const FLAG_SR = 0x10;
+const FLAG_IL = 0x08;
+
+// URI record prefixes by identifier code (NFC Forum URI RTD)
+const URI_PREFIXES = [
+  '', 'http://www.', 'https://www.', 'http://', 'https://', 'tel:', 'mailto:',
+  'ftp://anonymous:anonymous@', 'ftp://ftp.', 'ftps://', 'sftp://', 'smb://', 'nfs://', 'ftp://',
+  'dav://', 'news:', 'telnet://', 'imap:', 'rtsp://', 'urn:', 'pop:', 'sip:', 'sips:', 'tftp:',
+  'btspp://', 'btl2cap://', 'btgoep://', 'tcpobex://', 'irdaobex://', 'file://', 'urn:epc:id:',
+  'urn:epc:tag:', 'urn:epc:pat:', 'urn:epc:raw:', 'urn:epc:', 'urn:nfc:'
+];
+
+const utf8 = new TextDecoder('utf-8');
+
+/**
+ * Text record payload: status byte (UTF-16 flag and language code length),
+ * language code, then the text
+ */
+export function decodeTextPayload(payload: Uint8Array): { text: string; lang: string } {
+  if (payload.length === 0) {
+    return { text: '', lang: '' };
+  }
+  const status = payload[0];
+  const langLength = status & 0x3f;
+  if (1 + langLength > payload.length) {
+    throw new NdefError('Text record language code is longer than the record');
+  }
+  const lang = utf8.decode(payload.subarray(1, 1 + langLength));
+  const body = payload.subarray(1 + langLength);
+  // UTF-16 text is big-endian unless it starts with a little-endian byte order mark
+  const encoding = status & 0x80 ? (body[0] === 0xff && body[1] === 0xfe ? 'utf-16le' : 'utf-16be') : 'utf-8';
+  return { text: new TextDecoder(encoding).decode(body), lang };
+}
+
+/**
+ * URI record payload: identifier code for a common prefix, then the rest of the URI
+ */
+export function decodeUriPayload(payload: Uint8Array): string {
+  if (payload.length === 0) {
+    return '';
+  }
+  return `${URI_PREFIXES[payload[0]] ?? ''}${utf8.decode(payload.subarray(1))}`;
+}
+
+/**
+ * MIME record, parsed when the media type is JSON
+ */
+function mediaRecord(mediaType: string, data: Uint8Array): NdefRecord {
+  const type = mediaType.split(';')[0].trim().toLowerCase();
+  if (type === 'application/json' || type.endsWith('+json')) {
+    try {
+      return { kind: 'json', mediaType: type, value: JSON.parse(utf8.decode(data)) };
+    } catch {
+      // Keep malformed JSON as opaque data
+    }
+  }
+  return { kind: 'mime', mediaType: type, data };
+}
+
+function decodeRecord(tnf: number, type: string, payload: Uint8Array): NdefRecord[] {
+  if (tnf === TNF_EMPTY) {
+    return [{ kind: 'empty' }];
+  }
+  if (tnf === TNF_WELL_KNOWN && type === 'T') {
+    return [{ kind: 'text', ...decodeTextPayload(payload) }];
+  }
+  if (tnf === TNF_WELL_KNOWN && type === 'U') {
+    return [{ kind: 'uri', uri: decodeUriPayload(payload) }];
+  }
+  // Smart posters wrap a message of their own (URI, titles, ...)
+  if (tnf === TNF_WELL_KNOWN && type === 'Sp') {
+    return parseNdefMessage(payload);
+  }
+  if (tnf === TNF_MEDIA) {
+    return [mediaRecord(type, payload)];
+  }
+  if (tnf === TNF_ABSOLUTE_URI) {
+    return [{ kind: 'uri', uri: type }];
+  }
+  return [{ kind: 'unknown', type, data: payload }];
+}
+
+/**
+ * Parse a raw NDEF message into its records (chunked records are joined)
+ */
+export function parseNdefMessage(bytes: Uint8Array): NdefRecord[] {
+  const records: NdefRecord[] = [];
+  let offset = 0;
+  let chunk: { tnf: number; type: string; parts: Uint8Array[] } | null = null;
+
+  const take = (length: number): Uint8Array => {
+    if (offset + length > bytes.length) {
+      throw new NdefError('NDEF message is truncated');
+    }
+    const slice = bytes.subarray(offset, offset + length);
+    offset += length;
+    return slice;
+  };
+
+  while (offset < bytes.length) {
+    const [header, typeLength] = take(2);
+    // Short records have a one-byte payload length, others four bytes (big-endian)
+    const lengthBytes = take(header & FLAG_SR ? 1 : 4);
+    const payloadLength = lengthBytes.reduce((length, byte) => length * 256 + byte, 0);
+    const idLength = header & FLAG_IL ? take(1)[0] : 0;
+    const type = utf8.decode(take(typeLength));
+    take(idLength);
+    const payload = take(payloadLength);
+    const tnf = header & 0x07;
+
+    if (chunk) {
+      if (tnf !== TNF_UNCHANGED) {
+        throw new NdefError('NDEF chunk is not followed by its continuation');
+      }
+      chunk.parts.push(payload);
+    } else if (header & FLAG_CF) {
+      chunk = { tnf, type, parts: [payload] };
+    } else {
+      records.push(...decodeRecord(tnf, type, payload));
+    }
+
+    // The last chunk of a record clears the chunk flag
+    if (chunk && !(header & FLAG_CF)) {
+      const joined = new Uint8Array(chunk.parts.reduce((length, part) => length + part.length, 0));
+      let position = 0;
+      for (const part of chunk.parts) {
+        joined.set(part, position);
+        position += part.length;
+      }
+      records.push(...decodeRecord(chunk.tnf, chunk.type, joined));
+      chunk = null;
+    }
+
+    if (header & FLAG_ME) {
+      break;
+    }
+  }
+
+  if (chunk) {
+    throw new NdefError('NDEF message ends inside a chunked record');
+  }
+  return records;
+}
+
+/**
+ * A record as Web NFC delivers it (NDEFRecord)
+ */
+export interface WebNfcRecord {
+  recordType: string;
+  mediaType?: string | null;
+  encoding?: string | null;
+  lang?: string | null;
+  data?: DataView | null;
+  toRecords?: () => WebNfcRecord[] | null;
+}
+
+/**
+ * Convert Web NFC records, which arrive already split with their payloads decoded
+ */
+export function fromWebNfcRecords(records: readonly WebNfcRecord[]): NdefRecord[] {
+  return records.flatMap((record): NdefRecord[] => {
+    const data = record.data
+      ? new Uint8Array(record.data.buffer, record.data.byteOffset, record.data.byteLength)
+      : new Uint8Array();
+
+    switch (record.recordType) {
+      case 'empty':
+        return [{ kind: 'empty' }];
+      case 'text':
+        return [{ kind: 'text', text: new TextDecoder(record.encoding || 'utf-8').decode(data), lang: record.lang ?? '' }];
+      case 'url':
+      case 'absolute-url':
+        return [{ kind: 'uri', uri: utf8.decode(data) }];
+      case 'mime':
+        return [mediaRecord(record.mediaType || 'application/octet-stream', data)];
+      case 'smart-poster':
+        return fromWebNfcRecords(record.toRecords?.() ?? []);
+      default:
+        return [{ kind: 'unknown', type: record.recordType, data }];
+    }
+  });
+}
+
+/**
+ * Payment a tag asks for: a tag id or card number (with an optional amount
+ * and currency) or a link to a payment request page
+ */
+export interface TagPayment {
+  tag?: string;
+  pan?: string;
+  amount?: string;
+  currency?: string;
+  link?: string;
+}
+
+const PAN_PATTERN = /^\d{13,19}$/;
+// Ids issued by the NFC tag registry (lib/nfc-tags.ts)
+const TAG_ID_PATTERN = /^tag_[A-Za-z0-9_-]{22}$/;
+
+function paymentFromObject(value: unknown): TagPayment {
+  if (!value || typeof value !== 'object') {
+    return {};
+  }
+  const { tag, pan, amount, currency } = value as Record<string, unknown>;
+  const digits = typeof pan === 'string' ? pan.replace(/\s/g, '') : '';
+  return {
+    tag: typeof tag === 'string' && TAG_ID_PATTERN.test(tag) ? tag : undefined,
+    pan: PAN_PATTERN.test(digits) ? digits : undefined,
+    amount: typeof amount === 'number' || typeof amount === 'string' ? String(amount) : undefined,
+    currency: typeof currency === 'string' ? currency : undefined
+  };
+}
+
+function paymentFromUri(uri: string): TagPayment {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    return {};
+  }
+  if (/^\/nfc\/[^/]+$/.test(url.pathname)) {
+    return { link: `${url.pathname}${url.search}` };
+  }
+  if (url.pathname === '/nfc') {
+    return paymentFromObject(Object.fromEntries(url.searchParams));
+  }
+  return {};
+}
+
+function paymentFromText(text: string): TagPayment {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) {
+    try {
+      return paymentFromObject(JSON.parse(trimmed));
+    } catch {
+      return {};
+    }
+  }
+  if (/^https?:\/\//i.test(trimmed)) {
+    return paymentFromUri(trimmed);
+  }
+  if (TAG_ID_PATTERN.test(trimmed)) {
+    return { tag: trimmed };
+  }
+  const digits = trimmed.replace(/\s/g, '');
+  return PAN_PATTERN.test(digits) ? { pan: digits } : {};
+}
+
+/**
+ * Find the payment in a tag's records (null when none holds one)
+ *
+ * Records are read in order and the first value found for each field wins,
+ * so a message may carry the card number and the amount in separate records.
+ */
+export function findTagPayment(records: readonly NdefRecord[]): TagPayment | null {
+  const payment: TagPayment = {};
+  for (const record of records) {
+    const found =
+      record.kind === 'uri' ? paymentFromUri(record.uri)
+        : record.kind === 'text' ? paymentFromText(record.text)
+          : record.kind === 'json' ? paymentFromObject(record.value)
+            : {};
+    for (const [field, value] of Object.entries(found) as [keyof TagPayment, string | undefined][]) {
+      if (value !== undefined && payment[field] === undefined) {
+        payment[field] = value;
+      }
+    }
+  }
+  return payment.tag || payment.pan || payment.link ? payment : null;
+}
+
+/**
+ * Message written when provisioning a tag: one URL record, which phones
+ * without this app open in the browser and nfc.tsx reads directly
+ */
+export function paymentTagMessage(link: string): { records: { recordType: 'url'; data: string }[] } {
+  return { records: [{ recordType: 'url', data: link }] };
+}
+
+/**
+ * The Web NFC reader/writer (NDEFReader), which TypeScript does not declare yet
+ */
+export interface WebNfcReader {
+  scan(options?: { signal?: AbortSignal }): Promise<void>;
+  write(message: ReturnType<typeof paymentTagMessage>, options?: { overwrite?: boolean; signal?: AbortSignal }): Promise<void>;
+  onreading: ((event: { serialNumber?: string; message: { records: WebNfcRecord[] } }) => void) | null;
+  onreadingerror: (() => void) | null;
+}
+
+/**
+ * A new NDEFReader, or null when the browser has no Web NFC
+ */
+export function createNdefReader(): WebNfcReader | null {
+  const NDEFReader = (globalThis as unknown as { NDEFReader?: new () => WebNfcReader }).NDEFReader;
+  return NDEFReader ? new NDEFReader() : null;
+}
@@ -0,0 +1,143 @@
+/**
+ * NFC Tags
+ *
+ * Registry of the NFC tags cards are tapped with. A tag carries a random
+ * tag id instead of the card number, and the id is bound to a card token
+ * here, so a lost tag can be revoked (or a tag moved to a replacement card)
+ * without reissuing the card. Each tap is counted and timestamped.
+ */
+
+import { randomBytes } from 'crypto';
+import { getCard, MarqetaApiError } from './marqeta';
+import { getResource, listResources, saveResource } from './resource-store';
+import { ApiError } from './api-errors';
+import type { Card } from './marqeta-types';
+
+export type NfcTagStatus = 'ACTIVE' | 'REVOKED';
+
+/**
+ * A stored tag, keyed by the id written to it
+ */
+export interface NfcTag {
+  token: string;
+  card_token: string;
+  card_last4: string;
+  label?: string;
+  status: NfcTagStatus;
+  use_count: number;
+  last_seen_time?: string;
+  created_time: string;
+  bound_time: string;
+  revoked_time?: string;
+}
+
+// Tag ids: a prefix plus 128 random bits, so ids cannot be guessed from one another
+const TAG_ID_PATTERN = /^tag_[A-Za-z0-9_-]{22}$/;
+
+/**
+ * Whether a value looks like a tag id
+ */
+export function isNfcTagId(value: unknown): value is string {
+  return typeof value === 'string' && TAG_ID_PATTERN.test(value);
+}
+
+/**
+ * Card a tag is bound to, from our store or Marqeta (404 CARD_NOT_FOUND when unknown)
+ */
+async function loadCard(cardToken: string): Promise<Pick<Card, 'token' | 'last_four'>> {
+  const stored = await getResource('cards', cardToken);
+  if (stored) {
+    return stored;
+  }
+  try {
+    return await getCard(cardToken);
+  } catch (error: unknown) {
+    if (error instanceof MarqetaApiError && (error.status === 404 || error.status === 400)) {
+      throw new ApiError(404, 'CARD_NOT_FOUND', 'Card not found', { details: { cardToken } });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Issue a new tag id bound to a card
+ */
+export async function createNfcTag(cardToken: string, label?: string): Promise<NfcTag> {
+  const card = await loadCard(cardToken);
+  const now = new Date().toISOString();
+  return saveResource('nfcTags', {
+    token: `tag_${randomBytes(16).toString('base64url')}`,
+    card_token: card.token,
+    card_last4: card.last_four,
+    ...(label ? { label } : {}),
+    status: 'ACTIVE',
+    use_count: 0,
+    created_time: now,
+    bound_time: now
+  });
+}
+
+/**
+ * Get a tag by id (404 NFC_TAG_NOT_FOUND when unknown)
+ */
+export async function getNfcTag(id: unknown): Promise<NfcTag> {
+  const tag = isNfcTagId(id) ? await getResource('nfcTags', id) : null;
+  if (!tag) {
+    throw new ApiError(404, 'NFC_TAG_NOT_FOUND', 'NFC tag not found');
+  }
+  return tag;
+}
+
+/**
+ * List tags, oldest first, optionally only those bound to one card
+ */
+export async function listNfcTags(cardToken?: string): Promise<NfcTag[]> {
+  return listResources('nfcTags', cardToken ? (tag) => tag.card_token === cardToken : undefined);
+}
+
+function assertActive(tag: NfcTag) {
+  if (tag.status === 'REVOKED') {
+    throw new ApiError(410, 'NFC_TAG_REVOKED', 'This NFC tag has been revoked', {
+      details: { revoked_time: tag.revoked_time }
+    });
+  }
+}
+
+/**
+ * Revoke a tag; taps on it are refused from then on
+ */
+export async function revokeNfcTag(id: unknown): Promise<NfcTag> {
+  const tag = await getNfcTag(id);
+  if (tag.status === 'REVOKED') {
+    return tag;
+  }
+  return saveResource('nfcTags', { ...tag, status: 'REVOKED', revoked_time: new Date().toISOString() });
+}
+
+/**
+ * Bind an active tag to another card (revoked tags stay revoked)
+ */
+export async function bindNfcTag(id: unknown, cardToken: string): Promise<NfcTag> {
+  const tag = await getNfcTag(id);
+  assertActive(tag);
+  const card = await loadCard(cardToken);
+  return saveResource('nfcTags', {
+    ...tag,
+    card_token: card.token,
+    card_last4: card.last_four,
+    bound_time: new Date().toISOString()
+  });
+}
+
+/**
+ * Record a tap on a tag and return it, refusing revoked tags
+ */
+export async function tapNfcTag(id: unknown): Promise<NfcTag> {
+  const tag = await getNfcTag(id);
+  assertActive(tag);
+  return saveResource('nfcTags', {
+    ...tag,
+    use_count: tag.use_count + 1,
+    last_seen_time: new Date().toISOString()
+  });
+}
@@ -0,0 +1,249 @@
+/**
+ * Payment Requests
+ *
+ * A merchant asks for a fixed amount with a description, an expiry and a
+ * single-use or multi-use policy. Each request is shared as /nfc/<id>, where
+ * the id is the stored token plus an HMAC of it, so ids cannot be guessed or
+ * altered and unknown ids are rejected before the store is read. Payers see
+ * the payee and amount but cannot change them.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { chargeCard } from './payments';
+import { getMerchant, toCardAcceptor } from './merchants';
+import { getResource, saveResource } from './resource-store';
+import { ApiError } from './api-errors';
+import type { Card, PaymentResult } from './marqeta-types';
+import { money, type CurrencyCode, type Money } from './money';
+import { createLogger } from './logger';
+
+const log = createLogger({ component: 'payment-requests' });
+
+export type PaymentRequestPolicy = 'SINGLE_USE' | 'MULTI_USE';
+
+export const PAYMENT_REQUEST_POLICIES: readonly PaymentRequestPolicy[] = ['SINGLE_USE', 'MULTI_USE'];
+
+export type PaymentRequestStatus = 'OPEN' | 'PAID' | 'EXPIRED';
+
+// Expiry bounds for new requests (minutes)
+export const DEFAULT_EXPIRY_MINUTES = 60;
+export const MAX_EXPIRY_MINUTES = 7 * 24 * 60;
+
+/**
+ * One charge made against a request
+ */
+export interface PaymentRequestPayment {
+  transaction_token?: string;
+  card_token: string;
+  card_last4: string;
+  paid_time: string;
+}
+
+/**
+ * A stored payment request (amount in minor units)
+ */
+export interface PaymentRequest {
+  token: string;
+  merchant_token: string;
+  amount: number;
+  currency_code: CurrencyCode;
+  description: string;
+  policy: PaymentRequestPolicy;
+  expires_at: string;
+  created_time: string;
+  payments: PaymentRequestPayment[];
+}
+
+/**
+ * What a payer is shown about a request
+ */
+export interface PaymentRequestView {
+  id: string;
+  payee: { name: string; city: string; country_code: string };
+  amount: number;
+  currency: CurrencyCode;
+  description: string;
+  policy: PaymentRequestPolicy;
+  status: PaymentRequestStatus;
+  expires_at: string;
+  payment_count: number;
+  last_paid_time?: string;
+}
+
+export interface PaymentRequestInput {
+  merchantToken: string;
+  amount: Money;
+  description: string;
+  policy: PaymentRequestPolicy;
+  expiresInMinutes: number;
+}
+
+// Signing key; without PAYMENT_REQUEST_SECRET a random one is used, so links stop working on restart
+const globalForRequests = globalThis as unknown as { __paymentRequestSecret?: string; __payingRequests?: Set<string> };
+
+function signingSecret(): string {
+  if (process.env.PAYMENT_REQUEST_SECRET) {
+    return process.env.PAYMENT_REQUEST_SECRET;
+  }
+  if (!globalForRequests.__paymentRequestSecret) {
+    log.warn('PAYMENT_REQUEST_SECRET is not set; links will not survive a restart');
+    globalForRequests.__paymentRequestSecret = randomBytes(32).toString('hex');
+  }
+  return globalForRequests.__paymentRequestSecret;
+}
+
+function sign(token: string): string {
+  return createHmac('sha256', signingSecret()).update(token, 'utf8').digest('base64url').slice(0, 22);
+}
+
+/**
+ * Public id of a request: its token and signature
+ */
+export function paymentRequestId(request: Pick<PaymentRequest, 'token'>): string {
+  return `${request.token}.${sign(request.token)}`;
+}
+
+/**
+ * Token inside a well-signed id (null for malformed or forged ids)
+ */
+function verifyPaymentRequestId(id: string): string | null {
+  const [token, signature, ...rest] = id.split('.');
+  if (!token || !signature || rest.length > 0) {
+    return null;
+  }
+  const expected = Buffer.from(sign(token));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received) ? token : null;
+}
+
+/**
+ * Status of a request at a point in time
+ */
+export function paymentRequestStatus(request: PaymentRequest, now = new Date()): PaymentRequestStatus {
+  if (request.policy === 'SINGLE_USE' && request.payments.length > 0) {
+    return 'PAID';
+  }
+  return new Date(request.expires_at) <= now ? 'EXPIRED' : 'OPEN';
+}
+
+/**
+ * Create a request at a merchant from the registry
+ */
+export async function createPaymentRequest(input: PaymentRequestInput): Promise<PaymentRequest> {
+  const now = new Date();
+  return saveResource('paymentRequests', {
+    token: randomBytes(12).toString('base64url'),
+    merchant_token: input.merchantToken,
+    amount: input.amount.amount,
+    currency_code: input.amount.currency,
+    description: input.description,
+    policy: input.policy,
+    expires_at: new Date(now.getTime() + input.expiresInMinutes * 60_000).toISOString(),
+    created_time: now.toISOString(),
+    payments: []
+  });
+}
+
+/**
+ * Load a request by its public id (404 PAYMENT_REQUEST_NOT_FOUND for unknown or forged ids)
+ */
+export async function getPaymentRequest(id: unknown): Promise<PaymentRequest> {
+  const token = typeof id === 'string' ? verifyPaymentRequestId(id) : null;
+  const request = token ? await getResource('paymentRequests', token) : null;
+  if (!request) {
+    throw new ApiError(404, 'PAYMENT_REQUEST_NOT_FOUND', 'Payment request not found');
+  }
+  return request;
+}
+
+/**
+ * Throw unless the request can be paid now
+ */
+export function assertPayable(request: PaymentRequest) {
+  const status = paymentRequestStatus(request);
+  if (status === 'PAID') {
+    throw new ApiError(409, 'PAYMENT_REQUEST_PAID', 'This payment request has already been paid');
+  }
+  if (status === 'EXPIRED') {
+    throw new ApiError(410, 'PAYMENT_REQUEST_EXPIRED', 'This payment request has expired', {
+      details: { expires_at: request.expires_at }
+    });
+  }
+}
+
+/**
+ * Charge a card the request's amount at its merchant and record the payment
+ *
+ * Single-use requests are paid one at a time: a second payer arriving while
+ * the first charge is running gets PAYMENT_REQUEST_IN_PROGRESS instead of
+ * being charged too.
+ */
+export async function payPaymentRequest(
+  request: PaymentRequest,
+  card: Pick<Card, 'token' | 'last_four'>
+): Promise<{ request: PaymentRequest; result: PaymentResult }> {
+  assertPayable(request);
+
+  const merchant = await getMerchant(request.merchant_token);
+  if (!merchant) {
+    throw new ApiError(404, 'MERCHANT_NOT_FOUND', 'Merchant not found', { details: { merchantId: request.merchant_token } });
+  }
+
+  const paying = (globalForRequests.__payingRequests ??= new Set());
+  if (request.policy === 'SINGLE_USE') {
+    if (paying.has(request.token)) {
+      throw new ApiError(409, 'PAYMENT_REQUEST_IN_PROGRESS', 'This payment request is being paid', { retryable: true });
+    }
+    paying.add(request.token);
+  }
+
+  try {
+    // Check again now the request is claimed, in case a payment finished since it was loaded
+    assertPayable((await getResource('paymentRequests', request.token)) ?? request);
+    const result = await chargeCard(card.token, money(request.amount, request.currency_code), {
+      merchant: toCardAcceptor(merchant)
+    });
+    // Re-read so concurrent payments of a multi-use request are all kept
+    const latest = (await getResource('paymentRequests', request.token)) ?? request;
+    const updated = await saveResource('paymentRequests', {
+      ...latest,
+      payments: [
+        ...latest.payments,
+        {
+          transaction_token: result.transaction?.token,
+          card_token: card.token,
+          card_last4: card.last_four,
+          paid_time: new Date().toISOString()
+        }
+      ]
+    });
+    return { request: updated, result };
+  } finally {
+    paying.delete(request.token);
+  }
+}
+
+/**
+ * Payer-facing view of a request
+ */
+export async function toPaymentRequestView(request: PaymentRequest): Promise<PaymentRequestView> {
+  const merchant = await getMerchant(request.merchant_token);
+  const lastPayment = request.payments[request.payments.length - 1];
+  return {
+    id: paymentRequestId(request),
+    payee: {
+      name: merchant?.name ?? 'Unknown merchant',
+      city: merchant?.city ?? '',
+      country_code: merchant?.country_code ?? ''
+    },
+    amount: request.amount,
+    currency: request.currency_code,
+    description: request.description,
+    policy: request.policy,
+    status: paymentRequestStatus(request),
+    expires_at: request.expires_at,
+    payment_count: request.payments.length,
+    // Left out rather than undefined so the view can be passed as page props
+    ...(lastPayment ? { last_paid_time: lastPayment.paid_time } : {})
+  };
+}
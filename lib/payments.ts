@@ -0,0 +1,143 @@
+/**
+ * Card Payments
+ *
+ * Checks the card can be charged, authorizes the charge and, by default,
+ * clears it straight away. Shared by the payment routes so blocked cards,
+ * declines and failed clearings are reported the same way everywhere.
+ */
+
+import {
+  simulateTransaction,
+  clearTransaction,
+  reverseTransaction,
+  getCard,
+  MarqetaApiError
+} from './marqeta';
+import { getResource } from './resource-store';
+import { ApiError, toApiError, type ErrorCode } from './api-errors';
+import type { Card, CardAcceptor, CardState, PaymentResult } from './marqeta-types';
+import { moneyIn, type Money } from './money';
+import { createLogger } from './logger';
+
+const log = createLogger({ component: 'payments' });
+
+// Card states that can never be charged, with the error returned for each
+const BLOCKED_CARD_STATES: Partial<Record<CardState, { code: ErrorCode; error: string }>> = {
+  SUSPENDED: {
+    code: 'CARD_SUSPENDED',
+    error: 'This card is suspended. Reactivate it before making payments.'
+  },
+  TERMINATED: {
+    code: 'CARD_TERMINATED',
+    error: 'This card has been terminated and can no longer be used.'
+  }
+};
+
+/**
+ * Load a card for a payment (resource store first, then Marqeta)
+ */
+export async function loadCard(cardToken: string): Promise<Card> {
+  const storedCard = await getResource('cards', cardToken);
+  if (storedCard) {
+    return storedCard;
+  }
+  try {
+    return await getCard(cardToken);
+  } catch (error: unknown) {
+    if (error instanceof MarqetaApiError && (error.status === 404 || error.status === 400)) {
+      throw new ApiError(404, 'CARD_NOT_FOUND', 'Card not found. Please setup JIT funding first.');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Throw unless the card is active
+ */
+export function assertCardActive(card: Pick<Card, 'state' | 'last_four'>) {
+  if (card.state === 'ACTIVE') {
+    return;
+  }
+  const blocked = BLOCKED_CARD_STATES[card.state] ?? {
+    code: 'CARD_NOT_ACTIVE',
+    error: `This card is ${card.state.toLowerCase()} and cannot be charged.`
+  };
+  throw new ApiError(403, blocked.code, blocked.error, {
+    details: { state: card.state, cardLast4: card.last_four }
+  });
+}
+
+/**
+ * Read a payment route's autoClear field (true unless it is false)
+ */
+export function parseAutoClear(value: unknown): boolean {
+  if (value === undefined) {
+    return true;
+  }
+  if (typeof value !== 'boolean') {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'autoClear must be true or false');
+  }
+  return value;
+}
+
+/**
+ * Charge a card
+ *
+ * Throws CARD_NOT_FOUND or a card state error before anything is sent to
+ * Marqeta, and TRANSACTION_DECLINED when the authorization is declined. If
+ * auto-clear fails the authorization is reversed, so the payment either
+ * completes or leaves no hold behind, and AUTO_CLEAR_FAILED is thrown.
+ */
+export async function chargeCard(
+  cardToken: string,
+  amount: Money,
+  options: { autoClear?: boolean; merchant?: CardAcceptor } = {}
+): Promise<PaymentResult> {
+  assertCardActive(await loadCard(cardToken));
+
+  const { transaction } = await simulateTransaction(cardToken, amount, { merchant: options.merchant });
+
+  if (transaction.state === 'DECLINED') {
+    throw new ApiError(402, 'TRANSACTION_DECLINED', transaction.response?.memo || 'Transaction declined', {
+      details: { transaction }
+    });
+  }
+
+  if (options.autoClear === false) {
+    return { transaction };
+  }
+
+  const approved = moneyIn(transaction.amount, transaction.currency_code ?? amount.currency);
+
+  try {
+    // Approved amount, which is lower than requested on a partial approval
+    await clearTransaction(transaction.token, approved);
+  } catch (clearError: unknown) {
+    log.error('Auto-clear failed, reversing authorization', { transaction_token: transaction.token, error: clearError });
+    const reversed = await reverseTransaction(transaction.token, approved).then(
+      () => true,
+      (reversalError: unknown) => {
+        log.error('Reversal after failed auto-clear failed', { transaction_token: transaction.token, error: reversalError });
+        return false;
+      }
+    );
+
+    throw new ApiError(
+      502,
+      'AUTO_CLEAR_FAILED',
+      reversed
+        ? 'The payment could not be completed and its authorization was reversed. Please try again.'
+        : 'The payment was authorized but could not be cleared; the authorization is still pending.',
+      {
+        retryable: reversed,
+        details: { transaction, reversed, cause: toApiError(clearError).details }
+      }
+    );
+  }
+
+  return {
+    transaction: { ...transaction, state: 'CLEARED' },
+    gpa_order: transaction.gpa_order,
+    cleared: true
+  };
+}
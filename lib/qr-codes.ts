@@ -0,0 +1,59 @@
+/**
+ * Payment QR Codes
+ *
+ * Renders the links payers open (payment request links and other pages of
+ * this app) as QR codes. Only URLs on the app's own origin are encoded, so
+ * the QR route cannot be used to brand arbitrary links as payments. Set
+ * APP_BASE_URL when the app sits behind a proxy that changes the host.
+ */
+
+import type { IncomingMessage } from 'http';
+import QRCode from 'qrcode';
+import { ApiError } from './api-errors';
+
+export type QrFormat = 'svg' | 'png';
+
+export const QR_FORMATS: readonly QrFormat[] = ['svg', 'png'];
+
+// Rendered width and height bounds (pixels)
+export const DEFAULT_QR_SIZE = 256;
+export const MAX_QR_SIZE = 1024;
+
+/**
+ * Origin payers reach the app on (APP_BASE_URL, else the request's host)
+ */
+export function appOrigin(req: IncomingMessage): string {
+  if (process.env.APP_BASE_URL) {
+    return process.env.APP_BASE_URL.replace(/\/+$/, '');
+  }
+  const forwardedProto = req.headers['x-forwarded-proto'];
+  const proto = (Array.isArray(forwardedProto) ? forwardedProto[0] : forwardedProto)?.split(',')[0].trim() || 'http';
+  return `${proto}://${req.headers.host ?? 'localhost:3000'}`;
+}
+
+/**
+ * Read a link to encode, which must be on the app's origin
+ */
+export function parsePaymentLink(value: unknown, origin: string): string {
+  let url: URL;
+  try {
+    url = new URL(String(value ?? ''), origin);
+  } catch {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'url must be a link to this app');
+  }
+  if (url.origin !== origin) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'url must be a link to this app');
+  }
+  return url.toString();
+}
+
+/**
+ * Render text as an SVG document or PNG image
+ */
+export async function renderQrCode(text: string, format: QrFormat, size = DEFAULT_QR_SIZE): Promise<string | Buffer> {
+  // Medium error correction survives a little glare or a worn print
+  const options = { errorCorrectionLevel: 'M' as const, margin: 2, width: size };
+  return format === 'svg'
+    ? QRCode.toString(text, { ...options, type: 'svg' })
+    : QRCode.toBuffer(text, { ...options, type: 'png' });
+}
@@ -0,0 +1,220 @@
+/**
+ * Rate Limiting
+ *
+ * Brute-force protection for the routes that take card numbers and PINs.
+ * Failed attempts (unknown cards or tags, wrong PINs, failed sign-ins) are
+ * counted per client address, per card and per credential (API key or
+ * session). A subject that fails too often within its window is locked out
+ * for a while; its requests get 429 RATE_LIMITED with a Retry-After header
+ * before any card lookup or PIN check runs.
+ *
+ * Counters live in memory by default. Pass another RateLimitStore to
+ * setRateLimitStore() to share them between server instances.
+ */
+
+import { createHash } from 'crypto';
+import type { NextApiRequest } from 'next';
+import { credentialFingerprint } from './auth';
+import { ApiError } from './api-errors';
+import { createLogger } from './logger';
+
+const log = createLogger({ component: 'rate-limit' });
+
+export type RateLimitScope = 'ip' | 'card' | 'key';
+
+/**
+ * Failures allowed per window, and how long a subject is locked out after
+ */
+export interface RateLimitRule {
+  limit: number;
+  windowSeconds: number;
+  lockoutSeconds: number;
+}
+
+/**
+ * Failure count of one subject in its current window
+ */
+export interface RateLimitBucket {
+  failures: number;
+  window_started: number;
+  locked_until?: number;
+}
+
+/**
+ * Storage backend for rate limit counters
+ */
+export interface RateLimitStore {
+  get(key: string): Promise<RateLimitBucket | null>;
+  set(key: string, bucket: RateLimitBucket, ttlSeconds: number): Promise<void>;
+}
+
+/**
+ * Something failures are counted against, e.g. { scope: 'ip', id: '203.0.113.7' }
+ */
+export interface RateLimitSubject {
+  scope: RateLimitScope;
+  id: string;
+}
+
+function envRule(name: string, defaults: RateLimitRule): RateLimitRule {
+  return {
+    limit: Number(process.env[`RATE_LIMIT_${name}_MAX`]) || defaults.limit,
+    windowSeconds: Number(process.env[`RATE_LIMIT_${name}_WINDOW_SECONDS`]) || defaults.windowSeconds,
+    lockoutSeconds: Number(process.env[`RATE_LIMIT_${name}_LOCKOUT_SECONDS`]) || defaults.lockoutSeconds
+  };
+}
+
+export const RATE_LIMITS: Record<RateLimitScope, RateLimitRule> = {
+  ip: envRule('IP', { limit: 20, windowSeconds: 5 * 60, lockoutSeconds: 15 * 60 }),
+  card: envRule('CARD', { limit: 10, windowSeconds: 15 * 60, lockoutSeconds: 30 * 60 }),
+  key: envRule('KEY', { limit: 50, windowSeconds: 5 * 60, lockoutSeconds: 15 * 60 })
+};
+
+// Forwarded client addresses are only believed behind a proxy that sets them
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
+
+/**
+ * Address a request came from (the first X-Forwarded-For entry when TRUST_PROXY=true)
+ */
+export function clientAddress(req: NextApiRequest): string {
+  const forwardedFor = TRUST_PROXY ? req.headers['x-forwarded-for'] : undefined;
+  return (Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor)?.split(',')[0].trim()
+    || req.socket.remoteAddress
+    || 'unknown';
+}
+
+/**
+ * Store that keeps counters in this process's memory
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, { bucket: RateLimitBucket; expires: number }>();
+
+  return {
+    async get(key) {
+      const entry = buckets.get(key);
+      if (!entry || entry.expires <= Date.now()) {
+        buckets.delete(key);
+        return null;
+      }
+      return { ...entry.bucket };
+    },
+
+    async set(key, bucket, ttlSeconds) {
+      buckets.set(key, { bucket: { ...bucket }, expires: Date.now() + ttlSeconds * 1000 });
+      // Drop expired counters now and then so the map does not grow forever
+      if (buckets.size > 10_000) {
+        const now = Date.now();
+        for (const [candidate, entry] of buckets) {
+          if (entry.expires <= now) {
+            buckets.delete(candidate);
+          }
+        }
+      }
+    }
+  };
+}
+
+// Keep the store on globalThis so counters survive Next.js hot reloads in dev
+const globalForRateLimit = globalThis as unknown as { __marqetaRateLimitStore?: RateLimitStore };
+
+function getStore(): RateLimitStore {
+  return (globalForRateLimit.__marqetaRateLimitStore ??= createMemoryRateLimitStore());
+}
+
+/**
+ * Replace the counter backend
+ */
+export function setRateLimitStore(store: RateLimitStore) {
+  globalForRateLimit.__marqetaRateLimitStore = store;
+}
+
+function storeKey(subject: RateLimitSubject): string {
+  return `${subject.scope}:${subject.id}`;
+}
+
+/**
+ * Subjects a request's failures count against
+ *
+ * card is a card token, PAN or tag id (stored hashed, so PANs never end up in
+ * the counters); the credential subject applies only to authenticated callers.
+ */
+export function rateLimitSubjects(
+  req: NextApiRequest,
+  options: { card?: string; authenticated?: boolean } = {}
+): RateLimitSubject[] {
+  const subjects: RateLimitSubject[] = [{ scope: 'ip', id: clientAddress(req) }];
+  if (options.card) {
+    subjects.push({ scope: 'card', id: createHash('sha256').update(options.card).digest('hex').slice(0, 32) });
+  }
+  if (options.authenticated) {
+    subjects.push({ scope: 'key', id: credentialFingerprint(req) });
+  }
+  return subjects;
+}
+
+/**
+ * Throw 429 RATE_LIMITED (with Retry-After) if any subject is locked out
+ */
+export async function assertNotRateLimited(subjects: RateLimitSubject[]) {
+  const now = Date.now();
+  let lockedUntil = 0;
+  for (const subject of subjects) {
+    const bucket = await getStore().get(storeKey(subject));
+    if (bucket?.locked_until && bucket.locked_until > now) {
+      lockedUntil = Math.max(lockedUntil, bucket.locked_until);
+    }
+  }
+
+  if (lockedUntil) {
+    const retryAfter = Math.ceil((lockedUntil - now) / 1000);
+    throw new ApiError(429, 'RATE_LIMITED', `Too many failed attempts. Try again in ${retryAfter} seconds.`, {
+      retryable: true,
+      details: { retryAfter },
+      headers: { 'Retry-After': String(retryAfter) }
+    });
+  }
+}
+
+/**
+ * Count a failed attempt against every subject, locking out those over their limit
+ */
+export async function recordFailedAttempt(subjects: RateLimitSubject[]) {
+  const now = Date.now();
+  for (const subject of subjects) {
+    const rule = RATE_LIMITS[subject.scope];
+    const key = storeKey(subject);
+    const existing = await getStore().get(key);
+    const bucket: RateLimitBucket = existing && existing.window_started + rule.windowSeconds * 1000 > now
+      ? existing
+      : { failures: 0, window_started: now };
+
+    bucket.failures += 1;
+    if (bucket.failures >= rule.limit) {
+      bucket.locked_until = now + rule.lockoutSeconds * 1000;
+      log.warn('Subject locked out', { scope: subject.scope, failures: bucket.failures, lockout_seconds: rule.lockoutSeconds });
+    }
+
+    const ttlSeconds = Math.max(rule.windowSeconds, bucket.locked_until ? Math.ceil((bucket.locked_until - now) / 1000) : 0);
+    await getStore().set(key, bucket, ttlSeconds);
+  }
+}
+
+/**
+ * Run an attempt for the subjects: refuse it while they are locked out and
+ * count it as failed when it throws one of the failure statuses
+ */
+export async function withRateLimit<T>(
+  subjects: RateLimitSubject[],
+  attempt: () => Promise<T>,
+  failureStatuses: number[] = [401, 404, 409, 410, 423]
+): Promise<T> {
+  await assertNotRateLimited(subjects);
+  try {
+    return await attempt();
+  } catch (error: unknown) {
+    if (error instanceof ApiError && failureStatuses.includes(error.status)) {
+      await recordFailedAttempt(subjects);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,331 @@
+/**
+ * Persistent Resource Store
+ *
+ * Keeps every funding source, card product, user, card, velocity control,
+ * MCC group and authorization control created through lib/marqeta.ts, plus
+ * our own Gateway JIT balances, received webhook events, idempotency keys,
+ * hashed card PINs, merchant profiles, payment requests, NFC tags, card
+ * reveal grants, hashed API keys and sessions, so they survive server
+ * restarts and hot reloads. Storage is pluggable: a JSON file by default,
+ * or any adapter passed to setStoreAdapter().
+ */
+
+import { createHmac, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { AuthControl, Card, CardProduct, FundingSource, MccGroup, User, VelocityControl } from './marqeta-types';
+import type { GatewayAccount } from './jit-gateway';
+import type { WebhookEvent } from './webhooks';
+import type { IdempotencyRecord } from './idempotency';
+import type { CardPin } from './card-pins';
+import type { MerchantProfile } from './merchants';
+import type { PaymentRequest } from './payment-requests';
+import type { NfcTag } from './nfc-tags';
+import type { CardRevealGrant } from './card-details';
+import type { ApiKey, Session } from './auth';
+
+/**
+ * Model stored for each resource kind
+ */
+export interface ResourceMap {
+  fundingSources: FundingSource;
+  cardProducts: CardProduct;
+  users: User;
+  cards: Card & { pan_fingerprint?: string };
+  velocityControls: VelocityControl;
+  mccGroups: MccGroup;
+  authControls: AuthControl;
+  gatewayAccounts: GatewayAccount;
+  webhookEvents: WebhookEvent;
+  idempotencyKeys: IdempotencyRecord;
+  cardPins: CardPin;
+  merchants: MerchantProfile;
+  paymentRequests: PaymentRequest;
+  nfcTags: NfcTag;
+  cardRevealGrants: CardRevealGrant;
+  apiKeys: ApiKey;
+  sessions: Session;
+}
+
+export type ResourceKind = keyof ResourceMap;
+
+export const RESOURCE_KINDS: ResourceKind[] = [
+  'fundingSources',
+  'cardProducts',
+  'users',
+  'cards',
+  'velocityControls',
+  'mccGroups',
+  'authControls',
+  'gatewayAccounts',
+  'webhookEvents',
+  'idempotencyKeys',
+  'cardPins',
+  'merchants',
+  'paymentRequests',
+  'nfcTags',
+  'cardRevealGrants',
+  'apiKeys',
+  'sessions'
+];
+
+export type StoredResource<K extends ResourceKind = ResourceKind> = ResourceMap[K] & { stored_at?: string };
+
+export type StoreSnapshot = { [K in ResourceKind]: Record<string, StoredResource<K>> };
+
+/**
+ * Storage backend for the resource store
+ */
+export interface StoreAdapter {
+  read(): Promise<StoreSnapshot | null>;
+  write(snapshot: StoreSnapshot): Promise<void>;
+}
+
+// Default location of the JSON store (relative to the project root)
+const DEFAULT_STORE_PATH = process.env.MARQETA_STORE_PATH || '.data/marqeta-store.json';
+
+// Fields never written to storage
+const UNPERSISTED_FIELDS = ['cvv_number'];
+
+function emptySnapshot(): StoreSnapshot {
+  return {
+    fundingSources: {},
+    cardProducts: {},
+    users: {},
+    cards: {},
+    velocityControls: {},
+    mccGroups: {},
+    authControls: {},
+    gatewayAccounts: {},
+    webhookEvents: {},
+    idempotencyKeys: {},
+    cardPins: {},
+    merchants: {},
+    paymentRequests: {},
+    nfcTags: {},
+    cardRevealGrants: {},
+    apiKeys: {},
+    sessions: {}
+  };
+}
+
+/**
+ * Adapter that keeps the snapshot in a JSON file
+ */
+export function createFileAdapter(filePath = DEFAULT_STORE_PATH): StoreAdapter {
+  const resolved = path.resolve(process.cwd(), filePath);
+
+  return {
+    async read() {
+      try {
+        const contents = await fs.readFile(resolved, 'utf8');
+        return { ...emptySnapshot(), ...JSON.parse(contents) };
+      } catch (error: unknown) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async write(snapshot) {
+      await fs.mkdir(path.dirname(resolved), { recursive: true });
+      // Write to a temp file first so a crash never leaves a half-written store
+      const tempPath = `${resolved}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(snapshot, null, 2), 'utf8');
+      await fs.rename(tempPath, resolved);
+    }
+  };
+}
+
+/**
+ * Adapter that keeps the snapshot in memory only
+ */
+export function createMemoryAdapter(): StoreAdapter {
+  let stored: StoreSnapshot | null = null;
+
+  return {
+    async read() {
+      return stored ? structuredClone(stored) : null;
+    },
+
+    async write(snapshot) {
+      stored = structuredClone(snapshot);
+    }
+  };
+}
+
+interface StoreState {
+  adapter: StoreAdapter;
+  snapshot: StoreSnapshot | null;
+  // First read of the snapshot, shared by every caller that arrives before it finishes
+  loading: Promise<StoreSnapshot> | null;
+  writeQueue: Promise<void>;
+}
+
+// Keep state on globalThis so it survives Next.js hot reloads in dev
+const globalForStore = globalThis as unknown as { __marqetaResourceStore?: StoreState };
+
+function getState(): StoreState {
+  if (!globalForStore.__marqetaResourceStore) {
+    globalForStore.__marqetaResourceStore = {
+      adapter: createFileAdapter(),
+      snapshot: null,
+      loading: null,
+      writeQueue: Promise.resolve()
+    };
+  }
+  return globalForStore.__marqetaResourceStore;
+}
+
+/**
+ * Replace the storage backend (drops the cached snapshot)
+ */
+export function setStoreAdapter(adapter: StoreAdapter) {
+  const state = getState();
+  state.adapter = adapter;
+  state.snapshot = null;
+  state.loading = null;
+}
+
+/**
+ * The cached snapshot, read from the adapter once
+ *
+ * Callers that arrive while the read is running await the same read, so
+ * they all save into one snapshot instead of each replacing it.
+ */
+async function loadSnapshot(): Promise<StoreSnapshot> {
+  const state = getState();
+  if (state.snapshot) {
+    return state.snapshot;
+  }
+  if (!state.loading) {
+    const loading: Promise<StoreSnapshot> = state.adapter.read().then(
+      (stored) => {
+        const snapshot = stored ?? emptySnapshot();
+        // A read from an adapter that has since been replaced is not cached
+        if (state.loading === loading) {
+          state.snapshot = snapshot;
+        }
+        return snapshot;
+      },
+      (error: unknown) => {
+        if (state.loading === loading) {
+          state.loading = null;
+        }
+        throw error;
+      }
+    );
+    state.loading = loading;
+  }
+  return state.loading;
+}
+
+/**
+ * Queue a write so concurrent saves never interleave
+ */
+function persist(snapshot: StoreSnapshot): Promise<void> {
+  const state = getState();
+  const write = state.writeQueue.then(() => state.adapter.write(snapshot));
+  state.writeQueue = write.catch(() => undefined);
+  return write;
+}
+
+/**
+ * Insert or update a resource by token
+ */
+export async function saveResource<K extends ResourceKind>(kind: K, resource: ResourceMap[K]): Promise<StoredResource<K>> {
+  const snapshot = await loadSnapshot();
+  const collection = snapshot[kind] as Record<string, StoredResource<K>>;
+  const record: StoredResource<K> = { ...resource, stored_at: new Date().toISOString() };
+  for (const field of UNPERSISTED_FIELDS) {
+    delete (record as unknown as Record<string, unknown>)[field];
+  }
+
+  collection[record.token] = { ...collection[record.token], ...record };
+  await persist(snapshot);
+  return collection[record.token];
+}
+
+/**
+ * Get a single resource by token
+ */
+export async function getResource<K extends ResourceKind>(kind: K, token: string): Promise<StoredResource<K> | null> {
+  const snapshot = await loadSnapshot();
+  return (snapshot[kind] as Record<string, StoredResource<K>>)[token] ?? null;
+}
+
+/**
+ * List resources of a kind, oldest first, optionally filtered
+ */
+export async function listResources<K extends ResourceKind>(
+  kind: K,
+  filter?: (resource: StoredResource<K>) => boolean
+): Promise<StoredResource<K>[]> {
+  const snapshot = await loadSnapshot();
+  const resources = Object.values(snapshot[kind] as Record<string, StoredResource<K>>).sort((a, b) =>
+    (a.stored_at ?? '').localeCompare(b.stored_at ?? '')
+  );
+  return filter ? resources.filter(filter) : resources;
+}
+
+/**
+ * Most recently stored resource of a kind
+ */
+export async function getLatestResource<K extends ResourceKind>(kind: K): Promise<StoredResource<K> | null> {
+  const resources = await listResources(kind);
+  return resources[resources.length - 1] ?? null;
+}
+
+// Fingerprint key; without CARD_FINGERPRINT_SECRET a random one is used, so stored fingerprints stop matching on restart
+const globalForFingerprints = globalThis as unknown as { __cardFingerprintSecret?: string };
+
+function fingerprintSecret(): string {
+  if (process.env.CARD_FINGERPRINT_SECRET) {
+    return process.env.CARD_FINGERPRINT_SECRET;
+  }
+  if (!globalForFingerprints.__cardFingerprintSecret) {
+    globalForFingerprints.__cardFingerprintSecret = randomBytes(32).toString('hex');
+  }
+  return globalForFingerprints.__cardFingerprintSecret;
+}
+
+/**
+ * Keyed hash of a full PAN, stored with a card in place of the number itself
+ */
+export function panFingerprint(pan: string): string {
+  return createHmac('sha256', fingerprintSecret()).update(pan, 'utf8').digest('base64url');
+}
+
+/**
+ * Find an issued card by its full PAN
+ *
+ * Matches the PAN fingerprint saved when the card was first resolved
+ * through Marqeta's card lookup.
+ */
+export async function findCardByPan(pan: string): Promise<StoredResource<'cards'> | null> {
+  const fingerprint = panFingerprint(pan);
+  const [card] = await listResources('cards', (resource) => resource.pan_fingerprint === fingerprint);
+  return card ?? null;
+}
+
+/**
+ * List all cards issued to a user
+ */
+export async function listCardsForUser(userToken: string): Promise<StoredResource<'cards'>[]> {
+  return listResources('cards', (resource) => resource.user_token === userToken);
+}
+
+/**
+ * List velocity controls associated with a user
+ */
+export async function listVelocityControlsForUser(userToken: string): Promise<StoredResource<'velocityControls'>[]> {
+  return listResources('velocityControls', (resource) => resource.association?.user_token === userToken);
+}
+
+/**
+ * Copy of the full snapshot
+ */
+export async function getSnapshot(): Promise<StoreSnapshot> {
+  return structuredClone(await loadSnapshot());
+}
@@ -0,0 +1,141 @@
+/**
+ * Transaction History
+ *
+ * Pages through Marqeta's transaction listing for a card or user. State and
+ * date range are filtered by Marqeta; amount and merchant are filtered here,
+ * so one page may be assembled from several Marqeta pages. Cursors are opaque
+ * to clients and hold the Marqeta offset to resume from.
+ */
+
+import { MarqetaApiError, getGpaOrder, getTransaction, listTransactions } from './marqeta';
+import type { Transaction, TransactionDetail, TransactionPage, TransactionState } from './marqeta-types';
+import { currencyOf, type CurrencyCode } from './money';
+
+export const TRANSACTION_STATES: readonly TransactionState[] = ['PENDING', 'CLEARED', 'COMPLETION', 'DECLINED', 'ERROR'];
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+// Transactions requested from Marqeta per call
+const UPSTREAM_PAGE_SIZE = 25;
+
+// Marqeta pages scanned for one page of results before handing back a cursor
+const MAX_UPSTREAM_PAGES = 10;
+
+/**
+ * History filters (amounts in minor units, dates yyyy-mm-dd and inclusive)
+ */
+export interface TransactionFilters {
+  cardToken?: string;
+  userToken?: string;
+  state?: TransactionState;
+  startDate?: string;
+  endDate?: string;
+  // Only transactions in this currency; amounts are in its minor units
+  currency?: CurrencyCode;
+  minAmount?: number;
+  maxAmount?: number;
+  // Case-insensitive match on the merchant name or MID
+  merchant?: string;
+}
+
+/**
+ * Encode a Marqeta offset as an opaque cursor
+ */
+function encodeCursor(startIndex: number): string {
+  return Buffer.from(JSON.stringify({ i: startIndex })).toString('base64url');
+}
+
+/**
+ * Decode a cursor back to a Marqeta offset (null when it is not one of ours)
+ */
+export function decodeCursor(cursor: string): number | null {
+  try {
+    const { i } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return Number.isInteger(i) && i >= 0 ? i : null;
+  } catch {
+    return null;
+  }
+}
+
+function matchesFilters(transaction: Transaction, filters: TransactionFilters): boolean {
+  if (filters.currency && currencyOf(transaction.currency_code) !== filters.currency) {
+    return false;
+  }
+  if (filters.minAmount !== undefined && transaction.amount < filters.minAmount) {
+    return false;
+  }
+  if (filters.maxAmount !== undefined && transaction.amount > filters.maxAmount) {
+    return false;
+  }
+  if (filters.merchant) {
+    const needle = filters.merchant.toLowerCase();
+    const { name = '', mid = '' } = transaction.card_acceptor ?? {};
+    return name.toLowerCase().includes(needle) || mid.toLowerCase().includes(needle);
+  }
+  return true;
+}
+
+/**
+ * List one page of transactions, newest first
+ */
+export async function listTransactionHistory(
+  filters: TransactionFilters,
+  options: { cursor?: string; limit?: number } = {}
+): Promise<TransactionPage> {
+  const limit = Math.min(options.limit ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+  const transactions: Transaction[] = [];
+  let startIndex = options.cursor ? decodeCursor(options.cursor) ?? 0 : 0;
+
+  for (let scanned = 0; scanned < MAX_UPSTREAM_PAGES; scanned++) {
+    const page = await listTransactions({
+      cardToken: filters.cardToken,
+      userToken: filters.userToken,
+      state: filters.state,
+      startDate: filters.startDate,
+      endDate: filters.endDate,
+      count: UPSTREAM_PAGE_SIZE,
+      startIndex
+    });
+
+    for (const [offset, transaction] of page.data.entries()) {
+      if (!matchesFilters(transaction, filters)) {
+        continue;
+      }
+      transactions.push(transaction);
+      if (transactions.length === limit) {
+        const more = offset < page.data.length - 1 || page.is_more;
+        return { transactions, nextCursor: more ? encodeCursor(startIndex + offset + 1) : null };
+      }
+    }
+
+    if (!page.is_more || page.data.length === 0) {
+      return { transactions, nextCursor: null };
+    }
+    startIndex += page.data.length;
+  }
+
+  // Stop scanning and let the client continue from here
+  return { transactions, nextCursor: encodeCursor(startIndex) };
+}
+
+/**
+ * Get a transaction with the current state of the GPA order that funded it
+ */
+export async function getTransactionDetail(transactionToken: string): Promise<TransactionDetail> {
+  const transaction = await getTransaction(transactionToken);
+  const embedded = transaction.gpa_order;
+  if (!embedded) {
+    return { transaction, gpa_order: null };
+  }
+
+  try {
+    return { transaction, gpa_order: await getGpaOrder(embedded.token) };
+  } catch (error: unknown) {
+    // Fall back to the copy on the transaction when the order cannot be fetched
+    if (error instanceof MarqetaApiError && error.status === 404) {
+      return { transaction, gpa_order: embedded };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Merchant Picker Data (client side)
+ *
+ * Loads the merchant registry for the pages that let the user choose where a
+ * payment is made. Safe to import from the browser.
+ */
+
+import { useEffect, useState } from 'react';
+import type { MerchantProfile } from './merchants';
+
+export type { MerchantProfile };
+
+/**
+ * Merchant profiles from /api/marqeta/merchants (empty until loaded or if loading fails)
+ *
+ * The first profile is the one payments use when no merchantId is sent, so
+ * pickers can start with nothing chosen. The list needs a signed-in caller;
+ * pass the current role so it loads again after signing in.
+ */
+export function useMerchants(role?: string): MerchantProfile[] {
+  const [merchants, setMerchants] = useState<MerchantProfile[]>([]);
+
+  useEffect(() => {
+    fetch('/api/marqeta/merchants')
+      .then((response) => response.json())
+      .then((data) => {
+        if (data.success) {
+          setMerchants(data.data);
+        }
+      })
+      .catch(() => undefined);
+  }, [role]);
+
+  return merchants;
+}
+
+/**
+ * One-line label for a merchant picker option
+ */
+export function merchantLabel(merchant: MerchantProfile): string {
+  return `${merchant.name} · MCC ${merchant.mcc} · ${merchant.city}`;
+}
@@ -0,0 +1,95 @@
+/**
+ * Runtime Validation Helpers
+ *
+ * Small composable validators used to check Marqeta API responses before
+ * they are handed to the rest of the app. A validator returns the value
+ * typed as T or throws a ValidationError naming the offending field.
+ */
+
+export type Validator<T> = (value: unknown, path: string) => T;
+
+/**
+ * Raised when a value does not match its expected shape
+ */
+export class ValidationError extends Error {
+  path: string;
+
+  constructor(path: string, expected: string, received: unknown) {
+    const actual = received === null ? 'null' : Array.isArray(received) ? 'array' : typeof received;
+    super(`Invalid value at ${path}: expected ${expected}, received ${actual}`);
+    this.name = 'ValidationError';
+    this.path = path;
+  }
+}
+
+export const string: Validator<string> = (value, path) => {
+  if (typeof value !== 'string') throw new ValidationError(path, 'string', value);
+  return value;
+};
+
+export const number: Validator<number> = (value, path) => {
+  if (typeof value !== 'number' || Number.isNaN(value)) throw new ValidationError(path, 'number', value);
+  return value;
+};
+
+export const boolean: Validator<boolean> = (value, path) => {
+  if (typeof value !== 'boolean') throw new ValidationError(path, 'boolean', value);
+  return value;
+};
+
+/**
+ * Accept anything (for free-form fields such as metadata)
+ */
+export const unknown: Validator<unknown> = (value) => value;
+
+export function oneOf<T extends string>(values: readonly T[]): Validator<T> {
+  return (value, path) => {
+    if (typeof value !== 'string' || !values.includes(value as T)) {
+      throw new ValidationError(path, values.join(' | '), value);
+    }
+    return value as T;
+  };
+}
+
+export function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (value, path) => (value === undefined || value === null ? undefined : validator(value, path));
+}
+
+export function array<T>(validator: Validator<T>): Validator<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) throw new ValidationError(path, 'array', value);
+    return value.map((item, index) => validator(item, `${path}[${index}]`));
+  };
+}
+
+type Shape<T> = { [K in keyof T]-?: Validator<T[K]> };
+
+/**
+ * Validate the listed fields of an object; unlisted fields are passed through
+ */
+export function object<T extends object>(shape: Shape<T>): Validator<T> {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new ValidationError(path, 'object', value);
+    }
+
+    const record = value as Record<string, unknown>;
+    const result: Record<string, unknown> = { ...record };
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const validated = shape[key](record[key], `${path}.${key}`);
+      if (validated === undefined) {
+        delete result[key];
+      } else {
+        result[key] = validated;
+      }
+    }
+    return result as T;
+  };
+}
+
+/**
+ * Run a validator from the root of a value
+ */
+export function validate<T>(validator: Validator<T>, value: unknown, name = 'response'): T {
+  return validator(value, name);
+}
@@ -0,0 +1,168 @@
+/**
+ * Marqeta Webhook Events
+ *
+ * Verifies, stores and handles the events Marqeta delivers to
+ * /api/marqeta/webhooks. Every event is kept in the resource store, keyed by
+ * its token, so duplicates are dropped and any event can be listed or
+ * replayed through its handler later.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { WEBHOOK_SECRET } from './marqeta';
+import { getResource, listResources, saveResource } from './resource-store';
+import type { CardTransition, GpaOrder, Transaction, WebhookEventType, WebhookPayload } from './marqeta-types';
+import { createLogger } from './logger';
+
+const log = createLogger({ component: 'webhooks' });
+
+// Header carrying the HMAC-SHA1 (hex) of the raw body when a secret is configured
+export const WEBHOOK_SIGNATURE_HEADER = 'x-marqeta-signature';
+
+/**
+ * A stored webhook event
+ */
+export interface WebhookEvent {
+  token: string;
+  type: WebhookEventType;
+  payload: Transaction | CardTransition | GpaOrder;
+  received_time: string;
+  handled_time?: string;
+  handler_error?: string;
+  replay_count: number;
+}
+
+export interface IngestResult {
+  received: string[];
+  duplicates: string[];
+}
+
+type WebhookHandler = (event: WebhookEvent) => Promise<void>;
+
+// Event tokens being stored and handled right now, so a concurrent redelivery is dropped as a duplicate
+const globalForWebhooks = globalThis as unknown as { __webhookEventsInFlight?: Set<string> };
+const inFlight = (globalForWebhooks.__webhookEventsInFlight ??= new Set<string>());
+
+/**
+ * Handlers run for each new or replayed event, by type
+ */
+const HANDLERS: Partial<Record<WebhookEventType, WebhookHandler>> = {
+  // Keep our stored card state in step with transitions made anywhere
+  async cardtransition(event) {
+    const transition = event.payload as CardTransition;
+    const card = await getResource('cards', transition.card_token);
+    if (card) {
+      await saveResource('cards', { ...card, state: transition.state, state_reason: transition.reason });
+    }
+  }
+};
+
+// Payload keys and the event type each one carries
+const PAYLOAD_KEYS: [keyof WebhookPayload, WebhookEventType][] = [
+  ['transactions', 'transaction'],
+  ['cardtransitions', 'cardtransition'],
+  ['gpaorders', 'gpaorder']
+];
+
+/**
+ * Sign a raw webhook body with the configured secret
+ */
+export function signWebhookBody(rawBody: string, secret = WEBHOOK_SECRET): string {
+  return createHmac('sha1', secret).update(rawBody, 'utf8').digest('hex');
+}
+
+/**
+ * Check the body signature; always passes when no secret is configured
+ */
+export function verifyWebhookSignature(rawBody: string, signature: string | undefined): boolean {
+  if (!WEBHOOK_SECRET) {
+    return true;
+  }
+  if (!signature) {
+    return false;
+  }
+  const expected = Buffer.from(signWebhookBody(rawBody));
+  const received = Buffer.from(signature.trim().toLowerCase());
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * Run the handler for an event and record the outcome on it
+ */
+async function runHandler(event: WebhookEvent): Promise<WebhookEvent> {
+  const handler = HANDLERS[event.type];
+  const outcome: WebhookEvent = { ...event, handled_time: new Date().toISOString(), handler_error: undefined };
+
+  try {
+    if (handler) {
+      await handler(event);
+    }
+  } catch (error: unknown) {
+    log.error('Webhook handler failed', { type: event.type, event_token: event.token, error });
+    outcome.handler_error = error instanceof Error ? error.message : String(error);
+  }
+
+  return saveResource('webhookEvents', outcome);
+}
+
+/**
+ * Store and handle every event in a webhook body, skipping known tokens
+ */
+export async function ingestWebhook(payload: WebhookPayload): Promise<IngestResult> {
+  const result: IngestResult = { received: [], duplicates: [] };
+
+  for (const [key, type] of PAYLOAD_KEYS) {
+    for (const item of payload[key] ?? []) {
+      // Claim the token before the first await so two deliveries cannot both handle it
+      if (inFlight.has(item.token)) {
+        result.duplicates.push(item.token);
+        continue;
+      }
+      inFlight.add(item.token);
+
+      try {
+        if (await getResource('webhookEvents', item.token)) {
+          result.duplicates.push(item.token);
+          continue;
+        }
+
+        const event: WebhookEvent = {
+          token: item.token,
+          type,
+          payload: item,
+          received_time: new Date().toISOString(),
+          replay_count: 0
+        };
+        await saveResource('webhookEvents', event);
+        await runHandler(event);
+        result.received.push(item.token);
+      } finally {
+        inFlight.delete(item.token);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * List stored events, newest first
+ */
+export async function listWebhookEvents(
+  filter: { type?: WebhookEventType; failedOnly?: boolean; limit?: number } = {}
+): Promise<WebhookEvent[]> {
+  const events = await listResources('webhookEvents', (event) =>
+    (!filter.type || event.type === filter.type) && (!filter.failedOnly || Boolean(event.handler_error))
+  );
+  return events.reverse().slice(0, filter.limit ?? 50);
+}
+
+/**
+ * Re-run the handler for a stored event
+ */
+export async function replayWebhookEvent(token: string): Promise<WebhookEvent | null> {
+  const event = await getResource('webhookEvents', token);
+  if (!event) {
+    return null;
+  }
+  return runHandler({ ...event, replay_count: event.replay_count + 1 });
+}
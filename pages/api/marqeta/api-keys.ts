@@ -0,0 +1,71 @@
+/**
+ * API Keys API Endpoint
+ *
+ * GET: lists keys (never their secrets), with when each was last used.
+ * POST: issues a key ({ name, role, cardToken? }); role is admin, merchant
+ * or cardholder, and cardholder keys need the cardToken they may access.
+ * The key is in the response only, so save it then.
+ * DELETE: revokes a key (?id=...).
+ *
+ * Admin only. Send keys as Authorization: Bearer <key> or X-API-Key.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createApiKey, listApiKeys, requireRole, revokeApiKey, ROLES, type ApiKey } from '../../../lib/auth';
+import { ApiError, apiHandler } from '../../../lib/api-errors';
+
+// What is shown of a key: everything but the secret's hash
+function toKeyView(apiKey: ApiKey): Omit<ApiKey, 'secret_hash'> {
+  return {
+    token: apiKey.token,
+    name: apiKey.name,
+    role: apiKey.role,
+    card_token: apiKey.card_token,
+    user_token: apiKey.user_token,
+    created_time: apiKey.created_time,
+    last_used_time: apiKey.last_used_time,
+    revoked_time: apiKey.revoked_time
+  };
+}
+
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  await requireRole(req, 'admin');
+
+  if (req.method === 'GET') {
+    return res.status(200).json({
+      success: true,
+      data: (await listApiKeys()).map(toKeyView)
+    });
+  }
+
+  if (req.method === 'DELETE') {
+    return res.status(200).json({
+      success: true,
+      data: toKeyView(await revokeApiKey(req.query.id)),
+      message: 'API key revoked'
+    });
+  }
+
+  const { name, role, cardToken } = req.body;
+
+  if (typeof name !== 'string' || !name.trim() || name.length > 50) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'name must be 1-50 characters');
+  }
+  if (!ROLES.includes(role)) {
+    throw new ApiError(400, 'VALIDATION_ERROR', `role must be one of ${ROLES.join(', ')}`);
+  }
+  if (role === 'cardholder' && (!cardToken || typeof cardToken !== 'string')) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'cardToken is required for cardholder keys');
+  }
+
+  const { apiKey, key } = await createApiKey({ name: name.trim(), role, cardToken });
+  return res.status(201).json({
+    success: true,
+    data: { ...toKeyView(apiKey), key }
+  });
+}
+
+export default apiHandler(['GET', 'POST', 'DELETE'], handler);
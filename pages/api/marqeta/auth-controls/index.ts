@@ -0,0 +1,128 @@
+/**
+ * Authorization Controls API Endpoint
+ *
+ * GET: lists controls, optionally for one cardProductToken, userToken or
+ * cardToken (inactive controls included).
+ * POST: creates a control on exactly one of cardProductToken, userToken or
+ * cardToken ({ type, mcc?, mccGroupToken?, mid?, name? }); give exactly one
+ * of mcc, mccGroupToken or mid.
+ * PUT: changes a control ({ token, type?, mcc?, mccGroupToken?, mid?, name?, active? }).
+ * DELETE: deactivates a control (?token=...).
+ *
+ * BLOCK controls decline matching merchants; once an ALLOW control applies
+ * to a card only merchants it matches are accepted. Every method requires
+ * the admin role.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import {
+  createAuthControl,
+  deactivateAuthControl,
+  listAuthControls,
+  updateAuthControl
+} from '../../../../lib/marqeta';
+import {
+  AUTH_CONTROL_TYPES,
+  isValidMcc,
+  type AuthControlType,
+  type MerchantScope
+} from '../../../../lib/marqeta-types';
+import { parseAssociation, parseName } from '../../../../lib/control-requests';
+import { requireRole } from '../../../../lib/auth';
+import { withIdempotency } from '../../../../lib/idempotency';
+import { ApiError, apiHandler } from '../../../../lib/api-errors';
+
+function parseType(value: unknown): AuthControlType {
+  if (!AUTH_CONTROL_TYPES.includes(value as AuthControlType)) {
+    throw new ApiError(400, 'VALIDATION_ERROR', `type must be one of ${AUTH_CONTROL_TYPES.join(', ')}`);
+  }
+  return value as AuthControlType;
+}
+
+function parseMerchantScope(body: Record<string, unknown>): MerchantScope {
+  const { mcc, mccGroupToken, mid } = body;
+  const given = [mcc, mccGroupToken, mid].filter((value) => value !== undefined);
+  if (given.length !== 1) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'Give exactly one of mcc, mccGroupToken or mid');
+  }
+  if (mcc !== undefined) {
+    if (!isValidMcc(mcc)) {
+      throw new ApiError(400, 'VALIDATION_ERROR', 'mcc must be a 4-digit merchant category code');
+    }
+    return { mcc };
+  }
+  const [value] = given;
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new ApiError(400, 'VALIDATION_ERROR', mid !== undefined ? 'mid must be a non-empty string' : 'mccGroupToken must be a non-empty string');
+  }
+  return mid !== undefined ? { mid: value.trim() } : { mcc_group: value.trim() };
+}
+
+function hasMerchantScope(body: Record<string, unknown>): boolean {
+  return body.mcc !== undefined || body.mccGroupToken !== undefined || body.mid !== undefined;
+}
+
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  await requireRole(req, 'admin');
+
+  if (req.method === 'GET') {
+    const association = parseAssociation(req.query, false);
+    const controls = await listAuthControls(association);
+    return res.status(200).json({
+      success: true,
+      data: controls.data
+    });
+  }
+
+  if (req.method === 'DELETE') {
+    const { token } = req.query;
+    if (!token || typeof token !== 'string') {
+      throw new ApiError(400, 'VALIDATION_ERROR', 'token is required');
+    }
+    const control = await deactivateAuthControl(token);
+    return res.status(200).json({
+      success: true,
+      data: control,
+      message: 'Authorization control deactivated'
+    });
+  }
+
+  const { token, type, name, active } = req.body;
+
+  if (req.method === 'POST') {
+    const control = await createAuthControl({
+      name: name === undefined ? undefined : parseName(name),
+      type: parseType(type),
+      association: parseAssociation(req.body, true),
+      merchant_scope: parseMerchantScope(req.body)
+    });
+    return res.status(201).json({
+      success: true,
+      data: control
+    });
+  }
+
+  // PUT
+  if (!token || typeof token !== 'string') {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'token is required');
+  }
+  if (active !== undefined && typeof active !== 'boolean') {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'active must be true or false');
+  }
+
+  const control = await updateAuthControl(token, {
+    ...(name !== undefined ? { name: parseName(name) } : {}),
+    ...(type !== undefined ? { type: parseType(type) } : {}),
+    ...(hasMerchantScope(req.body) ? { merchant_scope: parseMerchantScope(req.body) } : {}),
+    ...(active !== undefined ? { active } : {})
+  });
+  return res.status(200).json({
+    success: true,
+    data: control
+  });
+}
+
+export default withIdempotency(apiHandler(['GET', 'POST', 'PUT', 'DELETE'], handler));
@@ -0,0 +1,80 @@
+/**
+ * MCC Groups API Endpoint
+ *
+ * GET: lists MCC groups, with the ready-made presets the UI offers.
+ * POST: creates a group ({ name, mccs }) where each entry is a 4-digit code
+ * or an ascending range like "7800-7802".
+ * PUT: changes a group ({ token, name?, mccs?, active? }).
+ *
+ * Every method requires the admin role.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createMccGroup, listMccGroups, updateMccGroup } from '../../../../lib/marqeta';
+import { MCC_GROUP_PRESETS, isValidMccRange } from '../../../../lib/marqeta-types';
+import { parseName } from '../../../../lib/control-requests';
+import { requireRole } from '../../../../lib/auth';
+import { withIdempotency } from '../../../../lib/idempotency';
+import { ApiError, apiHandler } from '../../../../lib/api-errors';
+
+// Entries accepted in one group
+const MAX_GROUP_ENTRIES = 100;
+
+function parseMccs(value: unknown): string[] {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_GROUP_ENTRIES) {
+    throw new ApiError(400, 'VALIDATION_ERROR', `mccs must be a list of 1-${MAX_GROUP_ENTRIES} codes`);
+  }
+  const invalid = value.filter((entry) => !isValidMccRange(entry));
+  if (invalid.length > 0) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'Each mcc must be a 4-digit code or a range like 7800-7802', {
+      details: { invalid }
+    });
+  }
+  return [...new Set(value as string[])];
+}
+
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  await requireRole(req, 'admin');
+
+  if (req.method === 'GET') {
+    const groups = await listMccGroups();
+    return res.status(200).json({
+      success: true,
+      data: groups.data,
+      presets: MCC_GROUP_PRESETS
+    });
+  }
+
+  const { token, name, mccs, active } = req.body;
+
+  if (req.method === 'POST') {
+    const group = await createMccGroup(parseName(name), parseMccs(mccs));
+    return res.status(201).json({
+      success: true,
+      data: group
+    });
+  }
+
+  // PUT
+  if (!token || typeof token !== 'string') {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'token is required');
+  }
+  if (active !== undefined && typeof active !== 'boolean') {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'active must be true or false');
+  }
+
+  const group = await updateMccGroup(token, {
+    ...(name !== undefined ? { name: parseName(name) } : {}),
+    ...(mccs !== undefined ? { mccs: parseMccs(mccs) } : {}),
+    ...(active !== undefined ? { active } : {})
+  });
+  return res.status(200).json({
+    success: true,
+    data: group
+  });
+}
+
+export default withIdempotency(apiHandler(['GET', 'POST', 'PUT'], handler));
@@ -0,0 +1,59 @@
+/**
+ * Card Reveal Grants API Endpoint
+ *
+ * GET: the grants issued for a card, with who asked for and redeemed each
+ * (?cardToken=...). Grant ids are left out, so a listing cannot be redeemed.
+ * POST: issues a grant to reveal a card's full PAN and CVV ({ cardToken }).
+ * Redeem it once, before expires_at, at /api/marqeta/card-details/reveal.
+ *
+ * Cardholders may use both methods for their own card; admins for any card.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createRevealGrant, listRevealGrants, type CardRevealGrant } from '../../../../lib/card-details';
+import { assertCardAccess, requireRole } from '../../../../lib/auth';
+import { ApiError, apiHandler } from '../../../../lib/api-errors';
+
+// What is listed of a grant: everything but its id
+function toGrantView(grant: CardRevealGrant): Omit<CardRevealGrant, 'token'> {
+  return {
+    card_token: grant.card_token,
+    created_time: grant.created_time,
+    expires_at: grant.expires_at,
+    requested_by: grant.requested_by,
+    redeemed_time: grant.redeemed_time,
+    redeemed_by: grant.redeemed_by
+  };
+}
+
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const principal = await requireRole(req, 'cardholder');
+
+  const { cardToken } = req.method === 'GET' ? req.query : req.body;
+  if (!cardToken || typeof cardToken !== 'string') {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'cardToken is required');
+  }
+  assertCardAccess(principal, cardToken);
+
+  if (req.method === 'GET') {
+    return res.status(200).json({
+      success: true,
+      data: (await listRevealGrants(cardToken)).map(toGrantView)
+    });
+  }
+
+  const grant = await createRevealGrant(cardToken, req);
+  return res.status(201).json({
+    success: true,
+    data: {
+      grant: grant.token,
+      cardToken: grant.card_token,
+      expiresAt: grant.expires_at
+    }
+  });
+}
+
+export default apiHandler(['GET', 'POST'], handler);
@@ -0,0 +1,31 @@
+/**
+ * Card Reveal API Endpoint
+ *
+ * POST: redeems a reveal grant ({ grant }) for the card's full PAN, CVV and
+ * expiration. Each grant works once and only until it expires; display the
+ * details for display_seconds, then mask them again.
+ *
+ * Only the cardholder of the grant's card (or an admin) may redeem it.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { redeemRevealGrant } from '../../../../lib/card-details';
+import { requireRole } from '../../../../lib/auth';
+import { apiHandler } from '../../../../lib/api-errors';
+
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const principal = await requireRole(req, 'cardholder');
+  const details = await redeemRevealGrant(req.body.grant, principal, req);
+
+  // Never let a browser or proxy keep a copy
+  res.setHeader('Cache-Control', 'no-store');
+  return res.status(200).json({
+    success: true,
+    data: details
+  });
+}
+
+export default apiHandler(['POST'], handler);
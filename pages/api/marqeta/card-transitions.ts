@@ -0,0 +1,108 @@
+/**
+ * Card Transitions API Endpoint
+ *
+ * GET: a card's current state and its transition history (?cardToken=...).
+ * POST: suspends, reactivates or terminates a card
+ * ({ cardToken, state, reasonCode, reason? }). Terminated cards cannot be
+ * moved again.
+ *
+ * GET needs the cardholder of the card (or an admin); POST the admin role.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getCard, listCardTransitions, transitionCard, MarqetaApiError } from '../../../lib/marqeta';
+import {
+  CARD_TRANSITION_REASONS,
+  type Card,
+  type CardState,
+  type CardTransitionState
+} from '../../../lib/marqeta-types';
+import { assertCardAccess, requireRole } from '../../../lib/auth';
+import { withIdempotency } from '../../../lib/idempotency';
+import { ApiError, apiHandler } from '../../../lib/api-errors';
+
+// States each card state may move to
+const ALLOWED_TRANSITIONS: Partial<Record<CardState, CardTransitionState[]>> = {
+  UNACTIVATED: ['ACTIVE', 'TERMINATED'],
+  ACTIVE: ['SUSPENDED', 'TERMINATED'],
+  SUSPENDED: ['ACTIVE', 'TERMINATED'],
+  LIMITED: ['ACTIVE', 'SUSPENDED', 'TERMINATED']
+};
+
+const TRANSITION_STATES: CardTransitionState[] = ['ACTIVE', 'SUSPENDED', 'TERMINATED'];
+
+async function findCard(cardToken: string): Promise<Card> {
+  try {
+    return await getCard(cardToken);
+  } catch (error: unknown) {
+    if (error instanceof MarqetaApiError && (error.status === 404 || error.status === 400)) {
+      throw new ApiError(404, 'CARD_NOT_FOUND', 'Card not found');
+    }
+    throw error;
+  }
+}
+
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const principal = await requireRole(req, ...(req.method === 'GET' ? ['cardholder' as const] : []));
+
+  const cardToken = req.method === 'GET' ? req.query.cardToken : req.body?.cardToken;
+  if (!cardToken || typeof cardToken !== 'string') {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'cardToken is required');
+  }
+  assertCardAccess(principal, cardToken);
+
+  const card = await findCard(cardToken);
+
+  if (req.method === 'GET') {
+    const transitions = await listCardTransitions(cardToken);
+    return res.status(200).json({
+      success: true,
+      data: {
+        state: card.state,
+        stateReason: card.state_reason,
+        transitions: transitions.data
+      }
+    });
+  }
+
+  const { state, reasonCode, reason } = req.body;
+
+  if (!TRANSITION_STATES.includes(state)) {
+    throw new ApiError(400, 'VALIDATION_ERROR', `state must be one of ${TRANSITION_STATES.join(', ')}`);
+  }
+  const knownReason = CARD_TRANSITION_REASONS.find((candidate) => candidate.code === reasonCode);
+  if (!knownReason) {
+    throw new ApiError(
+      400,
+      'VALIDATION_ERROR',
+      `reasonCode must be one of ${CARD_TRANSITION_REASONS.map((candidate) => candidate.code).join(', ')}`
+    );
+  }
+  if (reason !== undefined && (typeof reason !== 'string' || reason.length > 255)) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'reason must be a string of at most 255 characters');
+  }
+
+  if (!ALLOWED_TRANSITIONS[card.state]?.includes(state)) {
+    throw new ApiError(
+      409,
+      'CARD_TRANSITION_INVALID',
+      card.state === 'TERMINATED'
+        ? 'This card has been terminated and can no longer change state.'
+        : `A ${card.state.toLowerCase()} card cannot be moved to ${state.toLowerCase()}.`,
+      { details: { from: card.state, to: state } }
+    );
+  }
+
+  const transition = await transitionCard(cardToken, state, reasonCode, reason || knownReason.label);
+
+  return res.status(200).json({
+    success: true,
+    data: transition,
+    message: `Card is now ${transition.state}`
+  });
+}
+
+export default withIdempotency(apiHandler(['GET', 'POST'], handler));
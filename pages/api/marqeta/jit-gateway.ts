@@ -0,0 +1,44 @@
+/**
+ * Marqeta Gateway JIT Funding API Endpoint
+ *
+ * Marqeta calls this endpoint for every authorization on a Gateway JIT card
+ * product. It approves, partially approves or declines based on our own
+ * balance and rules, and returns the JIT Funding response payload.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { JIT_GATEWAY_USERNAME, JIT_GATEWAY_PASSWORD } from '../../../lib/marqeta';
+import { decideJitFunding } from '../../../lib/jit-gateway';
+import { hasBasicCredentials } from '../../../lib/basic-auth';
+import { jitFundingRequestSchema } from '../../../lib/marqeta-types';
+import { validate } from '../../../lib/validation';
+import { ApiError, apiHandler } from '../../../lib/api-errors';
+import { createLogger } from '../../../lib/logger';
+
+const log = createLogger({ component: 'jit-gateway' });
+
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  // Marqeta sends the Basic credentials configured on the program gateway funding source
+  if (!hasBasicCredentials(req.headers.authorization, JIT_GATEWAY_USERNAME, JIT_GATEWAY_PASSWORD)) {
+    throw new ApiError(401, 'UNAUTHORIZED', 'Invalid gateway credentials');
+  }
+
+  const request = validate(jitFundingRequestSchema, req.body, 'body');
+  const decision = await decideJitFunding(request);
+
+  log.info(decision.approved ? 'JIT funding approved' : 'JIT funding declined', {
+    method: request.gpa_order.jit_funding.method,
+    jit_funding_token: request.gpa_order.jit_funding.token,
+    ...(decision.approved
+      ? { amount: decision.response.jit_funding.amount }
+      : { decline_reason: decision.response.jit_funding.decline_reason })
+  });
+
+  // Marqeta expects the JIT Funding payload itself, approved or declined
+  return res.status(decision.status).json(decision.response);
+}
+
+export default apiHandler(['POST'], handler);
@@ -0,0 +1,73 @@
+/**
+ * Merchant Profiles API Endpoint
+ *
+ * GET: lists merchant profiles payments can be made at, built-in ones first;
+ * open to every signed-in role.
+ * POST: adds a profile ({ name, mid, mcc, streetAddress, city, state?, zip?,
+ * countryCode }) and requires the admin role.
+ *
+ * Payment routes take a profile's token as merchantId.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createMerchant, listMerchants } from '../../../lib/merchants';
+import { isValidMcc } from '../../../lib/marqeta-types';
+import { requireRole } from '../../../lib/auth';
+import { withIdempotency } from '../../../lib/idempotency';
+import { ApiError, apiHandler } from '../../../lib/api-errors';
+
+function requiredText(value: unknown, field: string, maxLength: number): string {
+  if (typeof value !== 'string' || !value.trim() || value.length > maxLength) {
+    throw new ApiError(400, 'VALIDATION_ERROR', `${field} must be 1-${maxLength} characters`);
+  }
+  return value.trim();
+}
+
+function optionalText(value: unknown, field: string, maxLength: number): string | undefined {
+  return value === undefined || value === '' ? undefined : requiredText(value, field, maxLength);
+}
+
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method === 'GET') {
+    await requireRole(req, 'merchant', 'cardholder');
+    return res.status(200).json({
+      success: true,
+      data: await listMerchants()
+    });
+  }
+
+  await requireRole(req, 'admin');
+
+  const { name, mid, mcc, streetAddress, city, state, zip, countryCode } = req.body;
+
+  if (typeof mid !== 'string' || !/^[A-Za-z0-9]{1,15}$/.test(mid)) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'mid must be 1-15 letters or digits');
+  }
+  if (!isValidMcc(mcc)) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'mcc must be a 4-digit merchant category code');
+  }
+  if (typeof countryCode !== 'string' || !/^[A-Z]{3}$/.test(countryCode)) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'countryCode must be an ISO 3166 alpha-3 code such as USA');
+  }
+
+  const merchant = await createMerchant({
+    name: requiredText(name, 'name', 50),
+    mid,
+    mcc,
+    street_address: requiredText(streetAddress, 'streetAddress', 255),
+    city: requiredText(city, 'city', 40),
+    state: optionalText(state, 'state', 2),
+    zip: optionalText(zip, 'zip', 10),
+    country_code: countryCode
+  });
+
+  return res.status(201).json({
+    success: true,
+    data: merchant
+  });
+}
+
+export default withIdempotency(apiHandler(['GET', 'POST'], handler));
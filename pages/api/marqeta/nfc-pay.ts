@@ -1,120 +1,85 @@
 /**
  * Marqeta NFC Payment API Endpoint
  *
- * This endpoint processes NFC card payments using the raw PAN
- * instead of card token. Supports auto-clear functionality.
+ * This endpoint processes NFC card payments from a tag id (tagId) issued by
+ * the NFC tag registry, or from the raw PAN for tags written before tag ids
+ * existed. Tag ids resolve to the card they are bound to and each tap is
+ * counted; revoked tags are refused. Any PAN we have issued is resolved to
+ * its card token. Supports auto-clear functionality. Needs the merchant role,
+ * i.e. a signed-in terminal. Unknown tags and card numbers count towards the
+ * rate limits in lib/rate-limit.ts.
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next';
-import {
-  simulateTransaction,
-  clearTransaction,
-  getResources
-} from '../../../lib/marqeta';
+import { resolveCardByPan } from '../../../lib/marqeta';
+import { chargeCard, parseAutoClear } from '../../../lib/payments';
+import { resolvePaymentMerchant } from '../../../lib/merchants';
+import { tapNfcTag } from '../../../lib/nfc-tags';
+import { parseAmount, parseCurrency } from '../../../lib/amounts';
+import { requireRole } from '../../../lib/auth';
+import { rateLimitSubjects, withRateLimit } from '../../../lib/rate-limit';
+import { withIdempotency } from '../../../lib/idempotency';
+import { ApiError, apiHandler } from '../../../lib/api-errors';
 
-export default async function handler(
-  req: NextApiRequest,
-  res: NextApiResponse
-) {
-  if (req.method !== 'POST') {
-    return res.status(405).json({ error: 'Method not allowed' });
+/**
+ * Card token and last four digits of the card a tag id or PAN names
+ */
+async function resolvePaymentCard(tagId: unknown, rawPan: unknown): Promise<{ token: string; last4: string }> {
+  if (tagId !== undefined) {
+    const tag = await tapNfcTag(tagId);
+    return { token: tag.card_token, last4: tag.card_last4 };
   }
 
-  try {
-    const { pan, amount, autoClear = true } = req.body;
-
-    // Validation
-    if (!pan) {
-      return res.status(400).json({ error: 'PAN (card number) is required' });
-    }
-
-    // Validate PAN format (basic check for 13-19 digits)
-    const panRegex = /^\d{13,19}$/;
-    if (!panRegex.test(pan.replace(/\s/g, ''))) {
-      return res.status(400).json({ error: 'Invalid PAN format. Must be 13-19 digits' });
-    }
-
-    if (!amount || amount <= 0) {
-      return res.status(400).json({ error: 'Valid amount is required' });
-    }
+  if (!rawPan) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'tagId or PAN (card number) is required');
+  }
 
-    // Get stored card data to find the matching card token
-    const resources = getResources();
-    if (!resources.card || resources.card.pan !== pan) {
-      return res.status(404).json({
-        error: 'Card not found. Please setup JIT funding first.',
-        hint: 'The PAN from the NFC card must match the card created in the system.'
-      });
-    }
+  // Validate PAN format (basic check for 13-19 digits)
+  const pan = String(rawPan).replace(/\s/g, '');
+  const panRegex = /^\d{13,19}$/;
+  if (!panRegex.test(pan)) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'Invalid PAN format. Must be 13-19 digits');
+  }
 
-    // Convert amount to cents
-    const amountInCents = Math.round(amount * 100);
+  // Resolve the PAN to one of our cards (resource store, then Marqeta lookup)
+  const card = await resolveCardByPan(pan);
+  if (!card) {
+    throw new ApiError(404, 'CARD_NOT_FOUND', 'Card not found. Please setup JIT funding first.', {
+      details: { hint: 'The PAN from the NFC card must match a card created in the system.' }
+    });
+  }
+  return { token: card.token, last4: pan.slice(-4) };
+}
 
-    // Simulate the transaction using the card token
-    const transaction = await simulateTransaction(resources.card.token, amountInCents);
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  await requireRole(req, 'merchant');
 
-    // If autoClear is true, immediately clear the transaction
-    if (autoClear && transaction.transaction?.token) {
-      try {
-        const clearedTransaction = await clearTransaction(
-          transaction.transaction.token,
-          amountInCents
-        );
+  const { tagId, pan, amount, currency, autoClear, merchantId, mcc } = req.body;
 
-        // Return the cleared transaction with original data merged
-        return res.status(200).json({
-          success: true,
-          data: {
-            transaction: {
-              ...transaction.transaction,
-              state: 'CLEARED'
-            },
-            gpa_order: transaction.gpa_order,
-            cleared: true,
-            cardLast4: pan.slice(-4)
-          }
-        });
-      } catch (clearError: any) {
-        // If clearing fails, still return the authorized transaction
-        console.error('Auto-clear failed, returning authorized transaction:', clearError);
-        return res.status(200).json({
-          success: true,
-          data: {
-            ...transaction,
-            warning: 'Transaction authorized but auto-clear failed',
-            cardLast4: pan.slice(-4)
-          }
-        });
-      }
-    }
+  const charge = parseAmount(amount, parseCurrency(currency));
+  const clear = parseAutoClear(autoClear);
 
-    // Return the transaction without clearing
-    return res.status(200).json({
-      success: true,
-      data: {
-        ...transaction,
-        cardLast4: pan.slice(-4)
-      }
-    });
+  const merchant = await resolvePaymentMerchant(merchantId, mcc);
 
-  } catch (error: any) {
-    console.error('NFC payment error:', error);
+  // Unknown and revoked tags or card numbers count towards the rate limits, so they cannot be probed
+  const card = await withRateLimit(
+    rateLimitSubjects(req, { card: String(tagId ?? pan ?? '').replace(/\s/g, ''), authenticated: true }),
+    () => resolvePaymentCard(tagId, pan)
+  );
 
-    // Extract detailed error information
-    let errorMessage = 'Payment processing failed';
-    let errorDetails = null;
+  // Authorize (suspended and terminated cards are rejected first) using the card token (and clear unless asked not to)
+  const result = await chargeCard(card.token, charge, { autoClear: clear, merchant });
 
-    if (error?.error) {
-      errorMessage = error.error.message || error.error;
-      errorDetails = error.error;
-    } else if (error?.message) {
-      errorMessage = error.message;
+  return res.status(200).json({
+    success: true,
+    data: {
+      ...result,
+      cardLast4: card.last4
     }
-
-    return res.status(error?.status || 500).json({
-      success: false,
-      error: errorMessage,
-      details: errorDetails
-    });
-  }
+  });
 }
+
+export default withIdempotency(apiHandler(['POST'], handler));
@@ -0,0 +1,71 @@
+/**
+ * NFC Tags API Endpoint
+ *
+ * GET: lists tags, optionally only those bound to one card (?cardToken=...).
+ * POST: issues a tag id bound to a card ({ cardToken, label? }); write it to
+ * a tag as /nfc?tag=<id>.
+ * PUT: binds a tag to another card ({ id, cardToken }).
+ * DELETE: revokes a tag (?id=...).
+ *
+ * Tag ids work like card numbers for NFC payments, so every method requires
+ * the admin role.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { bindNfcTag, createNfcTag, listNfcTags, revokeNfcTag } from '../../../lib/nfc-tags';
+import { requireRole } from '../../../lib/auth';
+import { withIdempotency } from '../../../lib/idempotency';
+import { ApiError, apiHandler } from '../../../lib/api-errors';
+
+function parseCardToken(value: unknown): string {
+  if (!value || typeof value !== 'string') {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'cardToken is required');
+  }
+  return value;
+}
+
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  await requireRole(req, 'admin');
+
+  if (req.method === 'GET') {
+    const { cardToken } = req.query;
+    return res.status(200).json({
+      success: true,
+      data: await listNfcTags(cardToken === undefined ? undefined : parseCardToken(cardToken))
+    });
+  }
+
+  if (req.method === 'DELETE') {
+    const tag = await revokeNfcTag(req.query.id);
+    return res.status(200).json({
+      success: true,
+      data: tag,
+      message: 'NFC tag revoked'
+    });
+  }
+
+  const { id, cardToken, label } = req.body;
+
+  if (req.method === 'POST') {
+    if (label !== undefined && (typeof label !== 'string' || label.length > 50)) {
+      throw new ApiError(400, 'VALIDATION_ERROR', 'label must be at most 50 characters');
+    }
+    const tag = await createNfcTag(parseCardToken(cardToken), label?.trim() || undefined);
+    return res.status(201).json({
+      success: true,
+      data: tag
+    });
+  }
+
+  // PUT
+  const tag = await bindNfcTag(id, parseCardToken(cardToken));
+  return res.status(200).json({
+    success: true,
+    data: tag
+  });
+}
+
+export default withIdempotency(apiHandler(['GET', 'POST', 'PUT', 'DELETE'], handler));
@@ -1,98 +1,46 @@
 /**
- * Marqeta QR Payment API Endpoint
+ * Marqeta One-Click Payment API Endpoint
  *
- * This endpoint processes QR code payments with auto-clear functionality
+ * Charges a card by token with auto-clear functionality. QR codes lead payers
+ * to payment request links instead (see qr.ts and payment-requests/pay.ts).
+ * Needs the merchant role.
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next';
-import {
-  simulateTransaction,
-  clearTransaction
-} from '../../../lib/marqeta';
-
-export default async function handler(
+import { chargeCard, parseAutoClear } from '../../../lib/payments';
+import { resolvePaymentMerchant } from '../../../lib/merchants';
+import { parseAmount, parseCurrency } from '../../../lib/amounts';
+import { requireRole } from '../../../lib/auth';
+import { withIdempotency } from '../../../lib/idempotency';
+import { ApiError, apiHandler } from '../../../lib/api-errors';
+
+async function handler(
   req: NextApiRequest,
   res: NextApiResponse
 ) {
-  if (req.method !== 'POST') {
-    return res.status(405).json({ error: 'Method not allowed' });
-  }
-
-  try {
-    const { cardToken, amount, autoClear = true } = req.body;
-
-    // Validation
-    if (!cardToken) {
-      return res.status(400).json({ error: 'cardToken is required' });
-    }
-
-    if (!amount || amount <= 0) {
-      return res.status(400).json({ error: 'Valid amount is required' });
-    }
-
-    // Convert amount to cents
-    const amountInCents = Math.round(amount * 100);
+  await requireRole(req, 'merchant');
 
-    // Simulate the transaction
-    const transaction = await simulateTransaction(cardToken, amountInCents);
+  const { cardToken, amount, currency, autoClear, merchantId, mcc } = req.body;
 
-    // If autoClear is true, immediately clear the transaction
-    if (autoClear && transaction.transaction?.token) {
-      try {
-        const clearedTransaction = await clearTransaction(
-          transaction.transaction.token,
-          amountInCents
-        );
-
-        // Return the cleared transaction with original data merged
-        return res.status(200).json({
-          success: true,
-          data: {
-            transaction: {
-              ...transaction.transaction,
-              state: 'CLEARED'
-            },
-            gpa_order: transaction.gpa_order,
-            cleared: true
-          }
-        });
-      } catch (clearError: any) {
-        // If clearing fails, still return the authorized transaction
-        console.error('Auto-clear failed, returning authorized transaction:', clearError);
-        return res.status(200).json({
-          success: true,
-          data: {
-            ...transaction,
-            warning: 'Transaction authorized but auto-clear failed'
-          }
-        });
-      }
-    }
-
-    // Return the transaction without clearing
-    return res.status(200).json({
-      success: true,
-      data: transaction
-    });
-
-  } catch (error: any) {
-    console.error('QR payment error:', error);
+  // Validation
+  if (!cardToken) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'cardToken is required');
+  }
 
-    // Extract detailed error information
-    let errorMessage = 'Payment processing failed';
-    let errorDetails = null;
+  const charge = parseAmount(amount, parseCurrency(currency));
+  const clear = parseAutoClear(autoClear);
+  const merchant = await resolvePaymentMerchant(merchantId, mcc);
 
-    if (error?.error) {
-      errorMessage = error.error.message || error.error;
-      errorDetails = error.error;
-    } else if (error?.message) {
-      errorMessage = error.message;
-    }
+  // Authorize (and clear unless asked not to)
+  const result = await chargeCard(cardToken, charge, {
+    autoClear: clear,
+    merchant
+  });
 
-    return res.status(error?.status || 500).json({
-      success: false,
-      error: errorMessage,
-      details: errorDetails
-    });
-  }
+  return res.status(200).json({
+    success: true,
+    data: result
+  });
 }
+
+export default withIdempotency(apiHandler(['POST'], handler));
@@ -0,0 +1,82 @@
+/**
+ * Payment Requests API Endpoint
+ *
+ * GET: what a payer sees about a request (?id=...): payee, amount, currency,
+ * description, status and expiry.
+ * POST: creates a request ({ merchantId?, amount, currency?, description,
+ * policy?, expiresInMinutes? }) and returns it with the id to share as
+ * /nfc/<id>. policy is SINGLE_USE (default) or MULTI_USE. Needs the merchant
+ * role; GET is public so payers can see what they are paying.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import {
+  createPaymentRequest,
+  getPaymentRequest,
+  toPaymentRequestView,
+  DEFAULT_EXPIRY_MINUTES,
+  MAX_EXPIRY_MINUTES,
+  PAYMENT_REQUEST_POLICIES
+} from '../../../../lib/payment-requests';
+import { DEFAULT_MERCHANT_ID, getMerchant } from '../../../../lib/merchants';
+import { parseAmount, parseCurrency } from '../../../../lib/amounts';
+import { requireRole } from '../../../../lib/auth';
+import { withIdempotency } from '../../../../lib/idempotency';
+import { ApiError, apiHandler } from '../../../../lib/api-errors';
+
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method === 'GET') {
+    const request = await getPaymentRequest(req.query.id);
+    return res.status(200).json({
+      success: true,
+      data: await toPaymentRequestView(request)
+    });
+  }
+
+  await requireRole(req, 'merchant');
+
+  const {
+    merchantId = DEFAULT_MERCHANT_ID,
+    amount,
+    currency,
+    description,
+    policy = 'SINGLE_USE',
+    expiresInMinutes = DEFAULT_EXPIRY_MINUTES
+  } = req.body;
+
+  const charge = parseAmount(amount, parseCurrency(currency));
+
+  if (typeof description !== 'string' || !description.trim() || description.length > 100) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'description must be 1-100 characters');
+  }
+
+  if (!PAYMENT_REQUEST_POLICIES.includes(policy)) {
+    throw new ApiError(400, 'VALIDATION_ERROR', `policy must be one of ${PAYMENT_REQUEST_POLICIES.join(', ')}`);
+  }
+
+  if (!Number.isInteger(expiresInMinutes) || expiresInMinutes < 1 || expiresInMinutes > MAX_EXPIRY_MINUTES) {
+    throw new ApiError(400, 'VALIDATION_ERROR', `expiresInMinutes must be a whole number from 1 to ${MAX_EXPIRY_MINUTES}`);
+  }
+
+  if (typeof merchantId !== 'string' || !(await getMerchant(merchantId))) {
+    throw new ApiError(404, 'MERCHANT_NOT_FOUND', 'Merchant not found', { details: { merchantId } });
+  }
+
+  const request = await createPaymentRequest({
+    merchantToken: merchantId,
+    amount: charge,
+    description: description.trim(),
+    policy,
+    expiresInMinutes
+  });
+
+  return res.status(201).json({
+    success: true,
+    data: await toPaymentRequestView(request)
+  });
+}
+
+export default withIdempotency(apiHandler(['GET', 'POST'], handler));
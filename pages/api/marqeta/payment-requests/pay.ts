@@ -0,0 +1,64 @@
+/**
+ * Payment Request Payment API Endpoint
+ *
+ * POST: pays a request ({ id, pan, pin }) with the payer's card. The amount,
+ * currency and merchant come from the request, never from the payer. The
+ * PIN is checked like any PIN payment, and the request is marked paid once
+ * the charge clears. An unknown card number gets the same answer as a wrong
+ * PIN, a card without a PIN or a locked card, and all of them count towards
+ * the rate limits in lib/rate-limit.ts.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { resolveCardByPan } from '../../../../lib/marqeta';
+import { assertPayable, getPaymentRequest, payPaymentRequest, toPaymentRequestView } from '../../../../lib/payment-requests';
+import { isValidPin, publicPinCheckError, unknownCardError, verifyCardPin } from '../../../../lib/card-pins';
+import { rateLimitSubjects, withRateLimit } from '../../../../lib/rate-limit';
+import { withIdempotency } from '../../../../lib/idempotency';
+import { ApiError, apiHandler } from '../../../../lib/api-errors';
+
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const { id, pin } = req.body;
+
+  const request = await getPaymentRequest(id);
+  assertPayable(request);
+
+  const pan = String(req.body.pan ?? '').replace(/\s/g, '');
+  if (!/^\d{13,19}$/.test(pan)) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'Invalid PAN format. Must be 13-19 digits');
+  }
+
+  if (!isValidPin(pin)) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'PIN must be 6 digits');
+  }
+
+  const card = await withRateLimit(rateLimitSubjects(req, { card: pan }), async () => {
+    const found = await resolveCardByPan(pan);
+    if (!found) {
+      throw await unknownCardError(pin);
+    }
+
+    // Verify against the card's own PIN (failures count towards a lockout)
+    const check = await verifyCardPin(found.token, pin);
+    if (!check.verified) {
+      throw await publicPinCheckError(check, pin);
+    }
+    return found;
+  });
+
+  const paid = await payPaymentRequest(request, card);
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      ...paid.result,
+      cardLast4: card.last_four,
+      paymentRequest: await toPaymentRequestView(paid.request)
+    }
+  });
+}
+
+export default withIdempotency(apiHandler(['POST'], handler));
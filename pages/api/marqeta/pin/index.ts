@@ -0,0 +1,142 @@
+/**
+ * Card PIN API Endpoint
+ *
+ * GET: whether a card has a PIN and whether it is locked (?cardToken=...).
+ * POST: sets the first PIN for a card ({ cardToken, pin }).
+ * PUT: changes the PIN ({ cardToken, currentPin, newPin }); wrong current
+ * PINs count towards the lockout like failed payments do.
+ *
+ * Each method also accepts the card number as pan instead of cardToken.
+ * GET and POST need the cardholder of that card (or an admin): whoever sets
+ * the first PIN can then sign in as the cardholder, and PIN status would
+ * tell anyone which card numbers exist. PUT by pan is open to anyone who
+ * knows the card number and its current PIN; wrong PINs look like unknown
+ * cards there. Failures, including other cards' numbers, count towards the
+ * rate limits in lib/rate-limit.ts.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getCard, resolveCardByPan, MarqetaApiError } from '../../../../lib/marqeta';
+import { getResource } from '../../../../lib/resource-store';
+import {
+  changeCardPin,
+  getPinStatus,
+  isValidPin,
+  pinCheckError,
+  publicPinCheckError,
+  setCardPin,
+  unknownCardError
+} from '../../../../lib/card-pins';
+import { rateLimitSubjects, withRateLimit } from '../../../../lib/rate-limit';
+import { assertCardAccess, requireRole } from '../../../../lib/auth';
+import { ApiError, apiHandler } from '../../../../lib/api-errors';
+
+/**
+ * Whether the card exists, in our store or at Marqeta
+ */
+async function cardExists(cardToken: string): Promise<boolean> {
+  if (await getResource('cards', cardToken)) {
+    return true;
+  }
+  try {
+    await getCard(cardToken);
+    return true;
+  } catch (error: unknown) {
+    if (error instanceof MarqetaApiError && (error.status === 404 || error.status === 400)) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Card token from a cardToken or pan field (null for a card number we do not
+ * know); the card must belong to the caller unless anyone may call by pan
+ */
+async function parseCardToken(req: NextApiRequest, source: Record<string, unknown>): Promise<string | null> {
+  const card = source.pan === undefined ? null
+    : typeof source.pan === 'string' ? await resolveCardByPan(source.pan.replace(/\s/g, ''))
+    : null;
+  if (source.pan !== undefined && req.method === 'PUT') {
+    return card ? card.token : null;
+  }
+
+  const principal = await requireRole(req, 'cardholder');
+  if (source.pan !== undefined) {
+    assertCardAccess(principal, card?.token);
+    if (!card) {
+      throw new ApiError(404, 'CARD_NOT_FOUND', 'Card not found');
+    }
+    return card.token;
+  }
+  if (!source.cardToken || typeof source.cardToken !== 'string') {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'cardToken or pan is required');
+  }
+  assertCardAccess(principal, source.cardToken);
+  return source.cardToken;
+}
+
+/**
+ * Answer for one card (cardToken is null for a card number we do not know)
+ */
+async function handlePin(req: NextApiRequest, res: NextApiResponse, cardToken: string | null) {
+  if (req.method === 'GET') {
+    if (!cardToken) {
+      throw new ApiError(404, 'CARD_NOT_FOUND', 'Card not found');
+    }
+    return res.status(200).json({
+      success: true,
+      data: await getPinStatus(cardToken)
+    });
+  }
+
+  if (req.method === 'POST') {
+    const { pin } = req.body;
+    if (!isValidPin(pin)) {
+      throw new ApiError(400, 'VALIDATION_ERROR', 'PIN must be 6 digits');
+    }
+    if (!cardToken || !(await cardExists(cardToken))) {
+      throw new ApiError(404, 'CARD_NOT_FOUND', 'Card not found');
+    }
+    if (!(await setCardPin(cardToken, pin))) {
+      throw new ApiError(409, 'PIN_ALREADY_SET', 'A PIN is already set for this card');
+    }
+    return res.status(201).json({ success: true, message: 'PIN set' });
+  }
+
+  // PUT: change the PIN
+  const { currentPin, newPin } = req.body;
+  if (!isValidPin(currentPin) || !isValidPin(newPin)) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'currentPin and newPin must be 6 digits');
+  }
+  if (!cardToken) {
+    throw await unknownCardError(currentPin);
+  }
+  const check = await changeCardPin(cardToken, currentPin, newPin);
+  if (!check.verified) {
+    // By pan, every failure looks like an unknown card; the cardholder sees why
+    throw req.body.pan !== undefined ? await publicPinCheckError(check, currentPin) : pinCheckError(check);
+  }
+  return res.status(200).json({ success: true, message: 'PIN changed' });
+}
+
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const source = req.method === 'GET' ? req.query : req.body ?? {};
+  const publicCall = req.method === 'PUT' && source.pan !== undefined;
+  const subjects = rateLimitSubjects(req, {
+    card: typeof source.pan === 'string' ? source.pan.replace(/\s/g, '') : source.cardToken,
+    authenticated: !publicCall
+  });
+
+  // Asking about other cardholders' cards (403) counts as a failure too
+  return withRateLimit(
+    subjects,
+    async () => handlePin(req, res, await parseCardToken(req, source)),
+    [401, 403, 404, 409, 410, 423]
+  );
+}
+
+export default apiHandler(['GET', 'POST', 'PUT'], handler);
@@ -0,0 +1,29 @@
+/**
+ * Card PIN Unlock API Endpoint
+ *
+ * Admin-only: lifts a PIN lockout before its cooldown ends ({ cardToken }).
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireRole } from '../../../../lib/auth';
+import { unlockCardPin } from '../../../../lib/card-pins';
+import { ApiError, apiHandler } from '../../../../lib/api-errors';
+
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  await requireRole(req, 'admin');
+
+  const { cardToken } = req.body;
+  if (!cardToken || typeof cardToken !== 'string') {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'cardToken is required');
+  }
+
+  if (!(await unlockCardPin(cardToken))) {
+    throw new ApiError(404, 'PIN_NOT_SET', 'No PIN has been set for this card');
+  }
+  return res.status(200).json({ success: true, message: 'Card PIN unlocked' });
+}
+
+export default apiHandler(['POST'], handler);
@@ -1,103 +1,54 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import {
-  simulateTransaction,
-  clearTransaction
-} from '../../../lib/marqeta';
-
-// Demo mode: Universal PIN for all cards during development
-// In production, store card-specific hashed PINs in database
-const DEMO_PIN = '123456';
-
-export default async function handler(
+import { chargeCard, loadCard, parseAutoClear } from '../../../lib/payments';
+import { resolvePaymentMerchant } from '../../../lib/merchants';
+import { parseAmount, parseCurrency } from '../../../lib/amounts';
+import { requireRole } from '../../../lib/auth';
+import { withIdempotency } from '../../../lib/idempotency';
+import { isValidPin, pinCheckError, verifyCardPin } from '../../../lib/card-pins';
+import { rateLimitSubjects, withRateLimit } from '../../../lib/rate-limit';
+import { ApiError, apiHandler } from '../../../lib/api-errors';
+
+async function handler(
   req: NextApiRequest,
   res: NextApiResponse
 ) {
-  if (req.method !== 'POST') {
-    return res.status(405).json({ error: 'Method not allowed' });
-  }
+  await requireRole(req, 'merchant');
 
-  const { cardToken, pin, amount } = req.body;
+  const { cardToken, pin, amount, currency, autoClear, merchantId, mcc } = req.body;
 
   // Validate inputs
   if (!cardToken || !pin || !amount) {
-    return res.status(400).json({ error: 'Missing required fields' });
+    throw new ApiError(400, 'VALIDATION_ERROR', 'Missing required fields');
   }
 
-  if (pin.length !== 6) {
-    return res.status(400).json({ error: 'Invalid PIN length' });
+  if (!isValidPin(pin)) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'PIN must be 6 digits');
   }
 
-  // Validate PIN (Demo mode: accept universal PIN for any card)
-  if (pin !== DEMO_PIN) {
-    return res.status(401).json({ error: 'Invalid PIN. Use demo PIN: 123456' });
-  }
-
-  try {
-    // Convert amount to cents
-    const amountInCents = Math.round(amount * 100);
-
-    // Simulate the transaction (authorize)
-    const transaction = await simulateTransaction(cardToken, amountInCents);
-
-    // Immediately clear the transaction to CLEARED state
-    if (transaction.transaction?.token) {
-      try {
-        const clearedTransaction = await clearTransaction(
-          transaction.transaction.token,
-          amountInCents
-        );
+  const charge = parseAmount(amount, parseCurrency(currency));
+  const clear = parseAutoClear(autoClear);
+  const merchant = await resolvePaymentMerchant(merchantId, mcc);
 
-        // Return the cleared transaction with original data merged
-        return res.status(200).json({
-          success: true,
-          data: {
-            transaction: {
-              ...transaction.transaction,
-              state: 'CLEARED'
-            },
-            gpa_order: transaction.gpa_order,
-            cleared: true,
-            cardLast4: cardToken.slice(-4),
-            amount,
-          }
-        });
-      } catch (clearError: any) {
-        // If clearing fails, still return the authorized transaction
-        console.error('Auto-clear failed, returning authorized transaction:', clearError);
-        return res.status(200).json({
-          success: true,
-          data: {
-            ...transaction,
-            warning: 'Transaction authorized but auto-clear failed'
-          }
-        });
-      }
+  // Verify against the card's own PIN (failures count towards a lockout and the rate limits)
+  await withRateLimit(rateLimitSubjects(req, { card: cardToken, authenticated: true }), async () => {
+    const check = await verifyCardPin(cardToken, pin);
+    if (!check.verified) {
+      throw pinCheckError(check);
     }
-
-    // Return the transaction without clearing (shouldn't reach here)
-    return res.status(200).json({
-      success: true,
-      data: transaction
-    });
-
-  } catch (error: any) {
-    console.error('Payment processing error:', error);
-
-    // Extract detailed error information
-    let errorMessage = 'Payment processing failed';
-    let errorDetails = null;
-
-    if (error?.error) {
-      errorMessage = error.error.message || error.error;
-      errorDetails = error.error;
-    } else if (error?.message) {
-      errorMessage = error.message;
+  });
+
+  // Authorize (and clear unless asked not to)
+  const card = await loadCard(cardToken);
+  const result = await chargeCard(cardToken, charge, { autoClear: clear, merchant });
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      ...result,
+      cardLast4: card.last_four,
+      amount
     }
-
-    return res.status(error?.status || 500).json({
-      success: false,
-      error: errorMessage,
-      details: errorDetails
-    });
-  }
+  });
 }
+
+export default withIdempotency(apiHandler(['POST'], handler));
@@ -0,0 +1,59 @@
+/**
+ * Payment QR Code API Endpoint
+ *
+ * GET: renders a QR code for a payment request (?requestId=...) or for a
+ * link on this app (?url=/nfc/...). format is svg (default) or png; size is
+ * the width in pixels. Scanning the code opens the link, where the payer
+ * completes the payment.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getPaymentRequest, paymentRequestId } from '../../../lib/payment-requests';
+import {
+  appOrigin,
+  parsePaymentLink,
+  renderQrCode,
+  DEFAULT_QR_SIZE,
+  MAX_QR_SIZE,
+  QR_FORMATS,
+  type QrFormat
+} from '../../../lib/qr-codes';
+import { ApiError, apiHandler } from '../../../lib/api-errors';
+
+const CONTENT_TYPES: Record<QrFormat, string> = {
+  svg: 'image/svg+xml',
+  png: 'image/png'
+};
+
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const { requestId, url, format = 'svg', size = String(DEFAULT_QR_SIZE) } = req.query;
+
+  if (!QR_FORMATS.includes(format as QrFormat)) {
+    throw new ApiError(400, 'VALIDATION_ERROR', `format must be one of ${QR_FORMATS.join(', ')}`);
+  }
+
+  const width = Number(size);
+  if (!Number.isInteger(width) || width < 64 || width > MAX_QR_SIZE) {
+    throw new ApiError(400, 'VALIDATION_ERROR', `size must be a whole number from 64 to ${MAX_QR_SIZE}`);
+  }
+
+  if (Boolean(requestId) === Boolean(url)) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'Give exactly one of requestId or url');
+  }
+
+  const origin = appOrigin(req);
+  const link = requestId
+    ? `${origin}/nfc/${paymentRequestId(await getPaymentRequest(requestId))}`
+    : parsePaymentLink(url, origin);
+
+  const image = await renderQrCode(link, format as QrFormat, width);
+
+  res.setHeader('Content-Type', CONTENT_TYPES[format as QrFormat]);
+  res.setHeader('Cache-Control', 'private, max-age=300');
+  return res.status(200).send(image);
+}
+
+export default apiHandler(['GET'], handler);
@@ -0,0 +1,104 @@
+/**
+ * Session API Endpoint
+ *
+ * POST: signs in and sets the session cookie. Send the admin credentials
+ * ({ username, password }), an API key ({ apiKey }) to use its role in the
+ * browser, or a card number and PIN ({ pan, pin }) to sign in as that card's
+ * cardholder. Failed attempts count towards the rate limits in
+ * lib/rate-limit.ts.
+ * GET: who the current session (or other credentials) belongs to.
+ * DELETE: signs out.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { authenticate, cardholderOf, createSession, endSession, verifyApiKey, type Principal } from '../../../lib/auth';
+import { ADMIN_PASSWORD, ADMIN_USERNAME, matchesCredentials } from '../../../lib/basic-auth';
+import { resolveCardByPan } from '../../../lib/marqeta';
+import { isValidPin, publicPinCheckError, unknownCardError, verifyCardPin } from '../../../lib/card-pins';
+import { rateLimitSubjects, withRateLimit } from '../../../lib/rate-limit';
+import { ApiError, apiHandler } from '../../../lib/api-errors';
+
+const INVALID_CREDENTIALS = 'Invalid credentials';
+
+/**
+ * Principal the sign-in credentials in a request body belong to
+ */
+async function signInPrincipal(body: Record<string, unknown>): Promise<Principal> {
+  const { username, password, apiKey, pan, pin } = body;
+
+  if (username !== undefined || password !== undefined) {
+    if (!ADMIN_PASSWORD || !matchesCredentials(username, password, ADMIN_USERNAME, ADMIN_PASSWORD)) {
+      throw new ApiError(401, 'UNAUTHORIZED', INVALID_CREDENTIALS);
+    }
+    return { role: 'admin', via: 'session', name: ADMIN_USERNAME };
+  }
+
+  if (apiKey !== undefined) {
+    const key = typeof apiKey === 'string' ? await verifyApiKey(apiKey) : null;
+    if (!key) {
+      throw new ApiError(401, 'UNAUTHORIZED', INVALID_CREDENTIALS);
+    }
+    return {
+      role: key.role,
+      via: 'session',
+      name: key.name,
+      ...(key.card_token ? { card_token: key.card_token, user_token: key.user_token } : {})
+    };
+  }
+
+  if (pan !== undefined) {
+    if (!isValidPin(pin)) {
+      throw new ApiError(400, 'VALIDATION_ERROR', 'PIN must be 6 digits');
+    }
+    // Unknown cards, cards without a PIN, locked cards and wrong PINs look the same to the caller
+    const card = typeof pan === 'string' ? await resolveCardByPan(pan.replace(/\s/g, '')) : null;
+    if (!card) {
+      throw await unknownCardError(pin);
+    }
+    const check = await verifyCardPin(card.token, pin);
+    if (!check.verified) {
+      throw await publicPinCheckError(check, pin);
+    }
+    return { role: 'cardholder', via: 'session', name: `Card ending ${card.last_four}`, ...(await cardholderOf(card.token)) };
+  }
+
+  throw new ApiError(400, 'VALIDATION_ERROR', 'Send username and password, apiKey, or pan and pin');
+}
+
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method === 'DELETE') {
+    await endSession(req, res);
+    return res.status(200).json({
+      success: true,
+      message: 'Signed out'
+    });
+  }
+
+  if (req.method === 'GET') {
+    const principal = await authenticate(req);
+    if (!principal) {
+      throw new ApiError(401, 'UNAUTHORIZED', 'Authentication required');
+    }
+    return res.status(200).json({
+      success: true,
+      data: principal
+    });
+  }
+
+  // Failed sign-ins count towards the rate limits, per address and per card number
+  const body = req.body ?? {};
+  const principal = await withRateLimit(
+    rateLimitSubjects(req, { card: typeof body.pan === 'string' ? body.pan.replace(/\s/g, '') : undefined }),
+    () => signInPrincipal(body)
+  );
+  const session = await createSession(principal, res);
+  return res.status(200).json({
+    success: true,
+    data: { ...principal, expires_at: session.expires_at }
+  });
+}
+
+export default apiHandler(['GET', 'POST', 'DELETE'], handler);
@@ -2,6 +2,9 @@
  * Marqeta API Route - Setup JIT Funding
  *
  * This API route handles the complete setup of Managed JIT Funding flow
+ *
+ * setup needs the admin role; simulate, clear, reverse and refund the merchant
+ * role; balance the cardholder role (their own userToken only).
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next';
@@ -9,173 +12,224 @@ import {
   setupJITFunding,
   simulateTransaction,
   clearTransaction,
+  reverseTransaction,
+  refundTransaction,
+  getTransaction,
   getUserBalance,
+  MarqetaApiError,
   USER_BALANCE_LIMIT
 } from '../../../lib/marqeta';
+import { VELOCITY_WINDOWS } from '../../../lib/marqeta-types';
+import { resolvePaymentMerchant } from '../../../lib/merchants';
+import { parseAmount, parseCurrency } from '../../../lib/amounts';
+import { currencyOf, type Money } from '../../../lib/money';
+import { maskPan } from '../../../lib/card-details';
+import { assertCardActive, loadCard } from '../../../lib/payments';
+import { assertUserAccess, requireRole, type Role } from '../../../lib/auth';
+import { withIdempotency } from '../../../lib/idempotency';
+import { ApiError, apiHandler } from '../../../lib/api-errors';
+import { createLogger } from '../../../lib/logger';
+
+const log = createLogger({ component: 'setup' });
 
-export default async function handler(
+/**
+ * Read a clear, reverse or refund amount in the currency of the transaction it adjusts
+ */
+async function parseAdjustment(transactionToken: string, amount: unknown): Promise<Money> {
+  const transaction = await getTransaction(transactionToken);
+  return parseAmount(amount, currencyOf(transaction.currency_code));
+}
+
+// Role each action needs (admins may run all of them)
+const ACTION_ROLES: Record<string, Role> = {
+  setup: 'admin',
+  simulate: 'merchant',
+  clear: 'merchant',
+  reverse: 'merchant',
+  refund: 'merchant',
+  balance: 'cardholder'
+};
+
+async function handler(
   req: NextApiRequest,
   res: NextApiResponse
 ) {
-  if (req.method !== 'POST') {
-    return res.status(405).json({ error: 'Method not allowed' });
-  }
+  const { action, amount, webhookEndpoint } = req.body;
+  const principal = await requireRole(req, ACTION_ROLES[action] ?? 'admin');
 
-  try {
-    const { action, amount, webhookEndpoint } = req.body;
-
-    // Setup complete JIT funding flow
-    if (action === 'setup') {
-      const result = await setupJITFunding();
-
-      if (result.success) {
-        return res.status(200).json({
-          success: true,
-          data: {
-            fundingSource: {
-              token: result.fundingSource.token,
-              name: result.fundingSource.name
-            },
-            cardProduct: {
-              token: result.cardProduct.token,
-              name: result.cardProduct.name
-            },
-            user: {
-              token: result.user.token,
-              name: `${result.user.first_name} ${result.user.last_name}`,
-              balanceLimit: USER_BALANCE_LIMIT
-            },
-            card: {
-              token: result.card.token,
-              pan: result.card.pan,
-              cvv: result.card.cvv_number,
-              expiration: result.card.expiration,
-              state: result.card.state
-            },
-            velocityControl: {
-              token: result.velocityControl.token,
-              amountLimit: USER_BALANCE_LIMIT,
-              window: result.velocityControl.velocity_window
-            }
-          },
-          message: 'JIT Funding setup completed successfully'
-        });
-      } else {
-        return res.status(500).json({
-          success: false,
-          error: result.error
-        });
-      }
-    }
+  // Setup complete JIT funding flow
+  if (action === 'setup') {
+    const { fundingMode = 'MANAGED', spendLimit, currency, velocityWindow = 'DAY' } = req.body;
 
-    // Simulate a transaction
-    if (action === 'simulate') {
-      const { cardToken } = req.body;
+    if (fundingMode !== 'MANAGED' && fundingMode !== 'GATEWAY') {
+      throw new ApiError(400, 'VALIDATION_ERROR', 'fundingMode must be MANAGED or GATEWAY');
+    }
 
-      if (!cardToken) {
-        return res.status(400).json({ error: 'cardToken is required' });
-      }
+    const limitCurrency = parseCurrency(currency);
+    const limit = spendLimit === undefined ? undefined : parseAmount(spendLimit, limitCurrency, { field: 'spendLimit' });
 
-      if (!amount || amount <= 0) {
-        return res.status(400).json({ error: 'Valid amount is required' });
-      }
+    if (!VELOCITY_WINDOWS.includes(velocityWindow)) {
+      throw new ApiError(400, 'VALIDATION_ERROR', `velocityWindow must be one of ${VELOCITY_WINDOWS.join(', ')}`);
+    }
 
-      const transaction = await simulateTransaction(
-        cardToken,
-        amount,
-        webhookEndpoint
-      );
+    // Spend limit in major units, stored in minor units
+    const result = await setupJITFunding(fundingMode, {
+      amount_limit: limit ? limit.amount : USER_BALANCE_LIMIT,
+      velocity_window: velocityWindow,
+      currency_code: limitCurrency
+    });
 
+    if (result.success) {
       return res.status(200).json({
         success: true,
-        data: transaction,
-        message: 'Transaction simulated successfully'
+        data: {
+          fundingSource: {
+            token: result.fundingSource.token,
+            name: result.fundingSource.name
+          },
+          cardProduct: {
+            token: result.cardProduct.token,
+            name: result.cardProduct.name,
+            fundingMode
+          },
+          user: {
+            token: result.user.token,
+            name: `${result.user.first_name} ${result.user.last_name}`,
+            balanceLimit: result.velocityControl.amount_limit
+          },
+          // Full PAN, CVV and expiration only through /api/marqeta/card-details/reveal
+          card: {
+            token: result.card.token,
+            lastFour: result.card.last_four,
+            maskedPan: maskPan(result.card.last_four),
+            state: result.card.state
+          },
+          velocityControl: {
+            token: result.velocityControl.token,
+            amountLimit: result.velocityControl.amount_limit,
+            currency: result.velocityControl.currency_code,
+            window: result.velocityControl.velocity_window
+          }
+        },
+        message: 'JIT Funding setup completed successfully'
       });
     }
 
-    // Get user balance
-    if (action === 'balance') {
-      const { userToken } = req.body;
+    throw result.cause;
+  }
 
-      if (!userToken) {
-        return res.status(400).json({ error: 'userToken is required' });
-      }
+  // Simulate a transaction
+  if (action === 'simulate') {
+    const { cardToken, currency, merchantId, mcc } = req.body;
 
-      try {
-        const balance = await getUserBalance(userToken);
-        return res.status(200).json({
-          success: true,
-          data: balance
-        });
-      } catch (balanceError: any) {
-        // Balance check is not critical - return partial success
-        console.warn('Balance check failed (non-critical):', balanceError);
-        return res.status(200).json({
-          success: true,
-          data: { gpa: null },
-          warning: 'Balance information not available'
-        });
-      }
+    if (!cardToken) {
+      throw new ApiError(400, 'VALIDATION_ERROR', 'cardToken is required');
     }
 
-    // Clear a transaction
-    if (action === 'clear') {
-      const { transactionToken, amount } = req.body;
+    const charge = parseAmount(amount, parseCurrency(currency));
+    const merchant = await resolvePaymentMerchant(merchantId, mcc);
 
-      if (!transactionToken) {
-        return res.status(400).json({ error: 'transactionToken is required' });
-      }
+    // Suspended and terminated cards are refused here, as by the payment routes
+    assertCardActive(await loadCard(cardToken));
 
-      if (!amount || amount <= 0) {
-        return res.status(400).json({ error: 'Valid amount is required' });
-      }
+    const transaction = await simulateTransaction(cardToken, charge, {
+      webhookEndpoint,
+      merchant
+    });
 
-      const clearedTransaction = await clearTransaction(transactionToken, amount);
+    return res.status(200).json({
+      success: true,
+      data: transaction,
+      message: 'Transaction simulated successfully'
+    });
+  }
+
+  // Get user balance
+  if (action === 'balance') {
+    const { userToken } = req.body;
+
+    if (!userToken) {
+      throw new ApiError(400, 'VALIDATION_ERROR', 'userToken is required');
+    }
+    assertUserAccess(principal, userToken);
 
+    try {
+      const balance = await getUserBalance(userToken);
+      return res.status(200).json({
+        success: true,
+        data: balance
+      });
+    } catch (balanceError: unknown) {
+      // A Marqeta failure here is not critical - return partial success; anything else is a bug
+      if (!(balanceError instanceof MarqetaApiError)) {
+        throw balanceError;
+      }
+      log.warn('Balance check failed (non-critical)', {
+        user_token: userToken,
+        status: balanceError.status,
+        code: balanceError.code,
+        error: balanceError.details ?? balanceError.message
+      });
       return res.status(200).json({
         success: true,
-        data: clearedTransaction,
-        message: 'Transaction cleared successfully'
+        data: { gpa: null },
+        warning: 'Balance information not available'
       });
     }
+  }
 
-    return res.status(400).json({ error: 'Invalid action' });
+  // Clear a transaction
+  if (action === 'clear') {
+    const { transactionToken, amount } = req.body;
 
-  } catch (error: any) {
-    console.error('Marqeta API error:', error);
+    if (!transactionToken) {
+      throw new ApiError(400, 'VALIDATION_ERROR', 'transactionToken is required');
+    }
 
-    // Extract detailed error information
-    let errorMessage = 'Internal server error';
-    let errorDetails = null;
+    const clearedTransaction = await clearTransaction(transactionToken, await parseAdjustment(transactionToken, amount));
 
-    if (error.error) {
-      if (typeof error.error === 'string') {
-        errorMessage = error.error;
-      } else if (error.error.error_message) {
-        errorMessage = error.error.error_message;
-        errorDetails = error.error;
-      } else if (error.error.message) {
-        errorMessage = error.error.message;
-      }
-    } else if (error.message) {
-      errorMessage = error.message;
+    return res.status(200).json({
+      success: true,
+      data: clearedTransaction,
+      message: 'Transaction cleared successfully'
+    });
+  }
+
+  // Reverse the uncleared part of an authorization
+  if (action === 'reverse') {
+    const { transactionToken, amount } = req.body;
+
+    if (!transactionToken) {
+      throw new ApiError(400, 'VALIDATION_ERROR', 'transactionToken is required');
     }
 
-    // Include helpful context based on error type
-    if (error.status === 404) {
-      errorMessage = `Resource not found: ${errorMessage}. This might be due to invalid API credentials or endpoint.`;
-    } else if (error.status === 401) {
-      errorMessage = `Authentication failed: ${errorMessage}. Please check your Marqeta API credentials.`;
-    } else if (error.status === 403) {
-      errorMessage = `Authorization failed: ${errorMessage}. You don't have permission to perform this action.`;
-    } else if (error.status === 409) {
-      errorMessage = `Conflict: ${errorMessage}. A resource with this token may already exist.`;
+    const reversal = await reverseTransaction(transactionToken, await parseAdjustment(transactionToken, amount));
+
+    return res.status(200).json({
+      success: true,
+      data: reversal,
+      message: 'Transaction reversed successfully'
+    });
+  }
+
+  // Refund a cleared transaction
+  if (action === 'refund') {
+    const { transactionToken, amount } = req.body;
+
+    if (!transactionToken) {
+      throw new ApiError(400, 'VALIDATION_ERROR', 'transactionToken is required');
     }
 
-    return res.status(error.status || 500).json({
-      success: false,
-      error: errorMessage,
-      details: errorDetails
+    const refund = await refundTransaction(transactionToken, await parseAdjustment(transactionToken, amount));
+
+    return res.status(200).json({
+      success: true,
+      data: refund,
+      message: 'Transaction refunded successfully'
     });
   }
+
+  throw new ApiError(400, 'VALIDATION_ERROR', 'Invalid action');
 }
+
+export default withIdempotency(apiHandler(['POST'], handler));
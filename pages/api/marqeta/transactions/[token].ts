@@ -0,0 +1,33 @@
+/**
+ * Transaction Detail API Endpoint
+ *
+ * GET: a single transaction with the JIT GPA order that funded it.
+ * Cardholders may only see transactions on their own card.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getTransactionDetail } from '../../../../lib/transactions';
+import { assertCardAccess, requireRole } from '../../../../lib/auth';
+import { ApiError, apiHandler } from '../../../../lib/api-errors';
+
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const principal = await requireRole(req, 'cardholder');
+
+  const { token } = req.query;
+  if (!token || typeof token !== 'string') {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'Transaction token is required');
+  }
+
+  const detail = await getTransactionDetail(token);
+  assertCardAccess(principal, detail.transaction.card_token);
+
+  return res.status(200).json({
+    success: true,
+    data: detail
+  });
+}
+
+export default apiHandler(['GET'], handler);
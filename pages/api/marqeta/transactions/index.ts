@@ -0,0 +1,117 @@
+/**
+ * Transaction History API Endpoint
+ *
+ * GET: lists a card's or user's transactions, newest first.
+ * Query: cardToken or userToken, plus optional state, startDate and endDate
+ * (yyyy-mm-dd), currency, minAmount and maxAmount (major units of currency,
+ * USD by default), merchant, limit and the cursor returned by the previous
+ * page. Giving a currency lists only transactions in it.
+ *
+ * Cardholders may only list their own card's or their own transactions.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import {
+  decodeCursor,
+  listTransactionHistory,
+  MAX_PAGE_SIZE,
+  TRANSACTION_STATES
+} from '../../../../lib/transactions';
+import type { TransactionState } from '../../../../lib/marqeta-types';
+import { parseAmount, parseCurrency } from '../../../../lib/amounts';
+import type { CurrencyCode } from '../../../../lib/money';
+import { assertCardAccess, assertUserAccess, requireRole } from '../../../../lib/auth';
+import { ApiError, apiHandler } from '../../../../lib/api-errors';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function queryValue(req: NextApiRequest, name: string): string | undefined {
+  const value = req.query[name];
+  const single = Array.isArray(value) ? value[0] : value;
+  return single ? single.trim() || undefined : undefined;
+}
+
+function parseDate(req: NextApiRequest, name: string): string | undefined {
+  const value = queryValue(req, name);
+  if (value && (!DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value)))) {
+    throw new ApiError(400, 'VALIDATION_ERROR', `${name} must be a date in yyyy-mm-dd format`);
+  }
+  return value;
+}
+
+// Major units in the query, minor units in the filter
+function parseAmountFilter(req: NextApiRequest, name: string, currency: CurrencyCode): number | undefined {
+  const value = queryValue(req, name);
+  return value === undefined ? undefined : parseAmount(value, currency, { field: name, allowZero: true, unbounded: true }).amount;
+}
+
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const principal = await requireRole(req, 'cardholder');
+
+  const cardToken = queryValue(req, 'cardToken');
+  const userToken = queryValue(req, 'userToken');
+  if (!cardToken && !userToken) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'cardToken or userToken is required');
+  }
+  if (cardToken) {
+    assertCardAccess(principal, cardToken);
+  }
+  if (userToken) {
+    assertUserAccess(principal, userToken);
+  }
+
+  const state = queryValue(req, 'state')?.toUpperCase();
+  if (state && !TRANSACTION_STATES.includes(state as TransactionState)) {
+    throw new ApiError(400, 'VALIDATION_ERROR', `state must be one of ${TRANSACTION_STATES.join(', ')}`);
+  }
+
+  const startDate = parseDate(req, 'startDate');
+  const endDate = parseDate(req, 'endDate');
+  if (startDate && endDate && startDate > endDate) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'startDate must not be after endDate');
+  }
+
+  const currencyValue = queryValue(req, 'currency');
+  const currency = parseCurrency(currencyValue);
+  const minAmount = parseAmountFilter(req, 'minAmount', currency);
+  const maxAmount = parseAmountFilter(req, 'maxAmount', currency);
+  if (minAmount !== undefined && maxAmount !== undefined && minAmount > maxAmount) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'minAmount must not be greater than maxAmount');
+  }
+
+  const limitValue = queryValue(req, 'limit');
+  const limit = limitValue === undefined ? undefined : Number(limitValue);
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE)) {
+    throw new ApiError(400, 'VALIDATION_ERROR', `limit must be between 1 and ${MAX_PAGE_SIZE}`);
+  }
+
+  const cursor = queryValue(req, 'cursor');
+  if (cursor && decodeCursor(cursor) === null) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'cursor is invalid');
+  }
+
+  const page = await listTransactionHistory(
+    {
+      cardToken,
+      userToken,
+      state: state as TransactionState | undefined,
+      startDate,
+      endDate,
+      currency: currencyValue ? currency : undefined,
+      minAmount,
+      maxAmount,
+      merchant: queryValue(req, 'merchant')
+    },
+    { cursor, limit }
+  );
+
+  return res.status(200).json({
+    success: true,
+    data: page
+  });
+}
+
+export default apiHandler(['GET'], handler);
@@ -0,0 +1,35 @@
+/**
+ * Velocity Control Headroom API Endpoint
+ *
+ * GET: every active control that applies to a user (their own, their
+ * cards', their card products' and program-wide ones) with the amount and
+ * uses left in the current window (?userToken=...). Cardholders may only
+ * ask about themselves.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getVelocityControlBalances } from '../../../../lib/marqeta';
+import { assertUserAccess, requireRole } from '../../../../lib/auth';
+import { ApiError, apiHandler } from '../../../../lib/api-errors';
+
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const principal = await requireRole(req, 'cardholder');
+
+  const { userToken } = req.query;
+  if (!userToken || typeof userToken !== 'string') {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'userToken is required');
+  }
+  assertUserAccess(principal, userToken);
+
+  const balances = await getVelocityControlBalances(userToken);
+
+  return res.status(200).json({
+    success: true,
+    data: balances.data
+  });
+}
+
+export default apiHandler(['GET'], handler);
@@ -0,0 +1,121 @@
+/**
+ * Velocity Controls API Endpoint
+ *
+ * GET: lists controls, optionally for one cardProductToken, userToken or
+ * cardToken (inactive controls included).
+ * POST: creates a control on exactly one of cardProductToken, userToken or
+ * cardToken ({ amountLimit, currency?, usageLimit?, window, name? }).
+ * PUT: changes a control ({ token, amountLimit?, usageLimit?, window?, name?, active? }).
+ * DELETE: deactivates a control (?token=...).
+ *
+ * Amounts are in major units of the control's currency (USD by default).
+ * Every method requires the admin role.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import {
+  createVelocityControl,
+  deactivateVelocityControl,
+  getVelocityControl,
+  listVelocityControls,
+  updateVelocityControl
+} from '../../../../lib/marqeta';
+import { VELOCITY_WINDOWS, type VelocityWindow } from '../../../../lib/marqeta-types';
+import { parseAssociation, parseName } from '../../../../lib/control-requests';
+import { parseAmount, parseCurrency } from '../../../../lib/amounts';
+import { currencyOf, type CurrencyCode } from '../../../../lib/money';
+import { requireRole } from '../../../../lib/auth';
+import { withIdempotency } from '../../../../lib/idempotency';
+import { ApiError, apiHandler } from '../../../../lib/api-errors';
+
+// Major units in the request, minor units at Marqeta
+function parseAmountLimit(value: unknown, currency: CurrencyCode): number {
+  return parseAmount(value, currency, { field: 'amountLimit' }).amount;
+}
+
+function parseUsageLimit(value: unknown): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'usageLimit must be a positive whole number');
+  }
+  return value;
+}
+
+function parseWindow(value: unknown): VelocityWindow {
+  if (!VELOCITY_WINDOWS.includes(value as VelocityWindow)) {
+    throw new ApiError(400, 'VALIDATION_ERROR', `window must be one of ${VELOCITY_WINDOWS.join(', ')}`);
+  }
+  return value as VelocityWindow;
+}
+
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  await requireRole(req, 'admin');
+
+  if (req.method === 'GET') {
+    const association = parseAssociation(req.query, false);
+    const controls = await listVelocityControls(association);
+    return res.status(200).json({
+      success: true,
+      data: controls.data
+    });
+  }
+
+  if (req.method === 'DELETE') {
+    const { token } = req.query;
+    if (!token || typeof token !== 'string') {
+      throw new ApiError(400, 'VALIDATION_ERROR', 'token is required');
+    }
+    const control = await deactivateVelocityControl(token);
+    return res.status(200).json({
+      success: true,
+      data: control,
+      message: 'Velocity control deactivated'
+    });
+  }
+
+  const { token, amountLimit, currency, usageLimit, window, name, active } = req.body;
+
+  if (req.method === 'POST') {
+    const controlCurrency = parseCurrency(currency);
+    const control = await createVelocityControl({
+      name: name === undefined ? undefined : parseName(name),
+      association: parseAssociation(req.body, true),
+      amount_limit: parseAmountLimit(amountLimit, controlCurrency),
+      currency_code: controlCurrency,
+      usage_limit: usageLimit === undefined ? undefined : parseUsageLimit(usageLimit),
+      velocity_window: parseWindow(window)
+    });
+    return res.status(201).json({
+      success: true,
+      data: control
+    });
+  }
+
+  // PUT
+  if (!token || typeof token !== 'string') {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'token is required');
+  }
+  if (active !== undefined && typeof active !== 'boolean') {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'active must be true or false');
+  }
+
+  // A new limit is in the currency the control already has
+  const limitCurrency = amountLimit !== undefined ? currencyOf((await getVelocityControl(token)).currency_code) : null;
+
+  const control = await updateVelocityControl(token, {
+    ...(name !== undefined ? { name: parseName(name) } : {}),
+    ...(limitCurrency ? { amount_limit: parseAmountLimit(amountLimit, limitCurrency) } : {}),
+    // null removes the usage limit
+    ...(usageLimit !== undefined ? { usage_limit: usageLimit === null ? null : parseUsageLimit(usageLimit) } : {}),
+    ...(window !== undefined ? { velocity_window: parseWindow(window) } : {}),
+    ...(active !== undefined ? { active } : {})
+  });
+  return res.status(200).json({
+    success: true,
+    data: control
+  });
+}
+
+export default withIdempotency(apiHandler(['GET', 'POST', 'PUT', 'DELETE'], handler));
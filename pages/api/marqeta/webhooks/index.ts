@@ -0,0 +1,101 @@
+/**
+ * Marqeta Webhooks API Endpoint
+ *
+ * POST: receives Marqeta webhook deliveries. Verifies Basic auth and, when
+ * MARQETA_WEBHOOK_SECRET is set, the body signature, then stores and handles
+ * each event once (duplicates by token are acknowledged and skipped).
+ *
+ * GET: lists stored events, newest first (?type=transaction&failed=true&limit=20).
+ * Needs the admin role.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { WEBHOOK_USERNAME, WEBHOOK_PASSWORD } from '../../../../lib/marqeta';
+import { hasBasicCredentials } from '../../../../lib/basic-auth';
+import { requireRole } from '../../../../lib/auth';
+import {
+  ingestWebhook,
+  listWebhookEvents,
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER
+} from '../../../../lib/webhooks';
+import { webhookPayloadSchema, type WebhookEventType } from '../../../../lib/marqeta-types';
+import { validate, ValidationError } from '../../../../lib/validation';
+import { ApiError, apiHandler } from '../../../../lib/api-errors';
+import { createLogger } from '../../../../lib/logger';
+
+const log = createLogger({ component: 'webhooks' });
+
+// Signatures are computed over the exact bytes Marqeta sent
+export const config = {
+  api: {
+    bodyParser: false
+  }
+};
+
+const EVENT_TYPES: WebhookEventType[] = ['transaction', 'cardtransition', 'gpaorder'];
+
+async function readRawBody(req: NextApiRequest): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method === 'GET') {
+    await requireRole(req, 'admin');
+
+    const { type, failed, limit } = req.query;
+
+    if (type && !EVENT_TYPES.includes(type as WebhookEventType)) {
+      throw new ApiError(400, 'VALIDATION_ERROR', `type must be one of ${EVENT_TYPES.join(', ')}`);
+    }
+
+    const events = await listWebhookEvents({
+      type: type as WebhookEventType | undefined,
+      failedOnly: failed === 'true',
+      limit: limit ? Math.min(Number(limit) || 50, 500) : undefined
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: events
+    });
+  }
+
+  if (!hasBasicCredentials(req.headers.authorization, WEBHOOK_USERNAME, WEBHOOK_PASSWORD)) {
+    throw new ApiError(401, 'UNAUTHORIZED', 'Invalid webhook credentials');
+  }
+
+  const rawBody = await readRawBody(req);
+  const signature = req.headers[WEBHOOK_SIGNATURE_HEADER];
+  if (!verifyWebhookSignature(rawBody, Array.isArray(signature) ? signature[0] : signature)) {
+    throw new ApiError(401, 'UNAUTHORIZED', 'Invalid webhook signature');
+  }
+
+  let payload;
+  try {
+    payload = validate(webhookPayloadSchema, JSON.parse(rawBody), 'body');
+  } catch (error: unknown) {
+    if (error instanceof ValidationError || error instanceof SyntaxError) {
+      throw new ApiError(400, 'VALIDATION_ERROR', `Invalid webhook body: ${error.message}`);
+    }
+    throw error;
+  }
+
+  const result = await ingestWebhook(payload);
+
+  log.info('Webhooks received', { received: result.received.length, duplicates: result.duplicates.length });
+
+  return res.status(200).json({
+    success: true,
+    data: result
+  });
+}
+
+export default apiHandler(['GET', 'POST'], handler);
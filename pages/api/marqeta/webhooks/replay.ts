@@ -0,0 +1,55 @@
+/**
+ * Marqeta Webhook Replay API Endpoint
+ *
+ * Re-runs the handler for stored webhook events, e.g. after fixing a bug
+ * in a handler. Pass a single `token`, a list of `tokens`, or
+ * `failed: true` to replay every event whose handler last failed. Needs the
+ * admin role.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { listWebhookEvents, replayWebhookEvent } from '../../../../lib/webhooks';
+import { requireRole } from '../../../../lib/auth';
+import { ApiError, apiHandler } from '../../../../lib/api-errors';
+
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  await requireRole(req, 'admin');
+
+  const { token, tokens, failed } = req.body;
+
+  let targets: string[];
+  if (failed === true) {
+    targets = (await listWebhookEvents({ failedOnly: true, limit: 500 })).map((event) => event.token);
+  } else if (Array.isArray(tokens)) {
+    targets = tokens.map(String);
+  } else if (token) {
+    targets = [String(token)];
+  } else {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'token, tokens or failed: true is required');
+  }
+
+  const replayed = [];
+  const notFound = [];
+  for (const target of targets) {
+    const event = await replayWebhookEvent(target);
+    if (event) {
+      replayed.push(event);
+    } else {
+      notFound.push(target);
+    }
+  }
+
+  if (targets.length === 1 && notFound.length === 1) {
+    throw new ApiError(404, 'NOT_FOUND', `Webhook event ${notFound[0]} not found`);
+  }
+
+  return res.status(200).json({
+    success: true,
+    data: { replayed, notFound }
+  });
+}
+
+export default apiHandler(['POST'], handler);
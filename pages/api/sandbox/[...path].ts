@@ -0,0 +1,52 @@
+/**
+ * Offline Marqeta Sandbox API Endpoint
+ *
+ * Serves the in-memory Core API stand-in from lib/marqeta-sandbox.ts at
+ * /api/sandbox/v3/*. Set MARQETA_API_BASE_URL to this route to run offline.
+ * The caller's X-Correlation-Id is passed on to the JIT gateway and webhook
+ * calls a request triggers.
+ */
+
+import { randomUUID } from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { handleSandboxRequest } from '../../../lib/marqeta-sandbox';
+import { requestCorrelationId, withCorrelationId } from '../../../lib/logger';
+
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  // Never expose the stand-in from a production build unless asked to
+  if (process.env.NODE_ENV === 'production' && process.env.MARQETA_SANDBOX_ENABLED !== 'true') {
+    return res.status(404).json({ error: 'Not found' });
+  }
+
+  // Marqeta identifies every request; errors carry the id in MarqetaApiError.requestId
+  res.setHeader('X-Request-Id', randomUUID());
+
+  const segments = Array.isArray(req.query.path) ? req.query.path : [];
+  if (segments[0] !== 'v3') {
+    return res.status(404).json({ error_code: '404000', error_message: 'Unknown API version' });
+  }
+
+  // Marqeta rejects requests without Basic credentials, so the stand-in does too
+  if (!req.headers.authorization?.startsWith('Basic ')) {
+    return res.status(401).json({ error_code: '401000', error_message: 'Unauthorized' });
+  }
+
+  const url = new URL(req.url || '/', 'http://localhost');
+  const idempotencyKey = req.headers['idempotency-key'];
+  const result = await handleSandboxRequest(
+    req.method || 'GET',
+    `/${segments.slice(1).join('/')}`,
+    url.searchParams,
+    req.body,
+    Array.isArray(idempotencyKey) ? idempotencyKey[0] : idempotencyKey
+  );
+
+  return res.status(result.status).json(result.body);
+}
+
+export default function sandboxHandler(req: NextApiRequest, res: NextApiResponse) {
+  return withCorrelationId(requestCorrelationId(req), () => handler(req, res));
+}
@@ -1,64 +1,328 @@
-import { useState } from 'react';
+import { Fragment, useEffect, useState } from 'react';
+import Link from 'next/link';
+import {
+  AUTH_CONTROL_TYPES,
+  CARD_TRANSITION_REASONS,
+  type AuthControl,
+  type AuthControlType,
+  type CardState,
+  type CardTransition,
+  type CardTransitionState,
+  type ControlAssociation,
+  type JitFundingMode,
+  type MccGroup,
+  type PaymentResult,
+  type Transaction,
+  type TransactionDetail,
+  type TransactionState,
+  type VelocityControlBalance,
+  type VelocityWindow,
+  VELOCITY_WINDOWS
+} from '../lib/marqeta-types';
+import { IDEMPOTENCY_HEADER, createIdempotencyKey } from '../lib/idempotency-key';
+import { merchantLabel, useMerchants } from '../lib/use-merchants';
+import type { PaymentRequestPolicy, PaymentRequestView } from '../lib/payment-requests';
+import type { NfcTag } from '../lib/nfc-tags';
+import type { Principal } from '../lib/auth';
+import {
+  CURRENCY_CODES,
+  DEFAULT_CURRENCY,
+  currencyOf,
+  formatMoney,
+  money,
+  moneyIn,
+  toDecimalString,
+  type CurrencyCode
+} from '../lib/money';
 
+// Card as setup returns it: the PAN masked, no CVV or expiration
 interface CardData {
   token: string;
+  lastFour: string;
+  maskedPan: string;
+  state: CardState;
+}
+
+// Full details from a redeemed reveal grant, shown for display_seconds
+interface RevealedCard {
   pan: string;
-  cvv: string;
+  cvv_number: string;
   expiration: string;
-  state: string;
+  display_seconds: number;
+}
+
+type AdjustmentAction = 'clear' | 'reverse' | 'refund';
+
+// Transaction history filters, as entered (amounts in major units of currency)
+interface HistoryFilters {
+  state: TransactionState | '';
+  startDate: string;
+  endDate: string;
+  currency: CurrencyCode | '';
+  minAmount: string;
+  maxAmount: string;
+  merchant: string;
 }
 
+const EMPTY_HISTORY_FILTERS: HistoryFilters = {
+  state: '',
+  startDate: '',
+  endDate: '',
+  currency: '',
+  minAmount: '',
+  maxAmount: '',
+  merchant: ''
+};
+
+type ControlLevel = 'cardProductToken' | 'userToken' | 'cardToken';
+
+const CONTROL_LEVELS: { field: ControlLevel; label: string }[] = [
+  { field: 'cardProductToken', label: 'Card product' },
+  { field: 'userToken', label: 'User' },
+  { field: 'cardToken', label: 'Card' }
+];
+
+// New velocity control form, as entered (amount in dollars)
+interface ControlForm {
+  level: ControlLevel;
+  name: string;
+  amountLimit: string;
+  currency: CurrencyCode;
+  usageLimit: string;
+  window: VelocityWindow;
+}
+
+// New authorization control form; scope is an MCC group token or 'mcc' for a single code
+interface MerchantControlForm {
+  level: ControlLevel;
+  type: AuthControlType;
+  scope: string;
+  mcc: string;
+}
+
+// New payment request form, as entered (amount in major units of currency)
+interface PaymentRequestForm {
+  merchantId: string;
+  amount: string;
+  currency: CurrencyCode;
+  description: string;
+  policy: PaymentRequestPolicy;
+  expiresInMinutes: string;
+}
+
+const HISTORY_STATES: TransactionState[] = ['PENDING', 'CLEARED', 'COMPLETION', 'DECLINED', 'ERROR'];
+
 interface SetupData {
   fundingSource: { token: string; name: string };
-  cardProduct: { token: string; name: string };
+  cardProduct: { token: string; name: string; fundingMode: JitFundingMode };
   user: { token: string; name: string; balanceLimit: number };
   card: CardData;
-  velocityControl: { token: string; amountLimit: number; window: string };
+  velocityControl: { token: string; amountLimit: number; currency: string; window: string };
 }
 
-interface TransactionData {
-  transaction?: {
-    token: string;
-    state: string;
-    response: { code: string };
-    amount: number;
-    gpa_order?: {
-      token: string;
-      funding: { source: { type: string } };
-      amount: number;
-    };
-  };
-  gpa_order?: {
-    token: string;
-    funding: { source: { type: string } };
-    amount: number;
-  };
-}
+// Display a minor-unit amount from a Marqeta record (USD when no currency is given)
+const formatAmount = (amount: number, currencyCode?: string) => formatMoney(moneyIn(amount, currencyCode));
+
+// Smallest amount a currency can express, as an input step ("0.01", "1", "0.001")
+const amountStep = (currency: CurrencyCode) => toDecimalString(money(1, currency));
 
 export default function MarqetaPage() {
   const [loading, setLoading] = useState(false);
+  const [fundingMode, setFundingMode] = useState<JitFundingMode>('MANAGED');
   const [setupData, setSetupData] = useState<SetupData | null>(null);
   const [transactionAmount, setTransactionAmount] = useState('10.00');
-  const [transactionResult, setTransactionResult] = useState<TransactionData | null>(null);
+  const [transactionCurrency, setTransactionCurrency] = useState<CurrencyCode>(DEFAULT_CURRENCY);
+  const [transactionResult, setTransactionResult] = useState<PaymentResult | null>(null);
+  const [autoClear, setAutoClear] = useState(true);
+  // Clearings, reversals and refunds made against the current transaction
+  const [adjustments, setAdjustments] = useState<Transaction[]>([]);
+  const [adjustmentAmount, setAdjustmentAmount] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [balance, setBalance] = useState<{ ledger_balance: number; available_balance: number } | null>(null);
   const [copiedPAN, setCopiedPAN] = useState(false);
-  const [copiedPaymentLink, setCopiedPaymentLink] = useState(false);
+  // Full card details while revealed; masked again after the reveal's display time
+  const [revealedCard, setRevealedCard] = useState<RevealedCard | null>(null);
+  // Card lifecycle: reason code for the next transition and past transitions
+  const [transitionReason, setTransitionReason] = useState('01');
+  const [cardTransitions, setCardTransitions] = useState<CardTransition[]>([]);
+  // First PIN for PIN payments, set by the card's cardholder or an admin
+  const [cardPin, setCardPin] = useState('');
+  const [pinSaved, setPinSaved] = useState(false);
+  // Signed-in caller (the session cookie carries it); admin tools need the admin role
+  const [session, setSession] = useState<Principal | null>(null);
+  const [adminUsername, setAdminUsername] = useState('admin');
+  const [adminPassword, setAdminPassword] = useState('');
+  const isAdmin = session?.role === 'admin';
+  // Spend controls admin panel
+  const [controls, setControls] = useState<VelocityControlBalance[] | null>(null);
+  const [controlForm, setControlForm] = useState<ControlForm>({
+    level: 'userToken',
+    name: '',
+    amountLimit: '50.00',
+    currency: DEFAULT_CURRENCY,
+    usageLimit: '',
+    window: 'DAY'
+  });
+  // Edited amount limits (dollars) by control token
+  const [limitEdits, setLimitEdits] = useState<Record<string, string>>({});
+  const [merchantControls, setMerchantControls] = useState<AuthControl[] | null>(null);
+  const [mccGroups, setMccGroups] = useState<MccGroup[]>([]);
+  const [mccGroupPresets, setMccGroupPresets] = useState<{ name: string; mccs: string[] }[]>([]);
+  const [merchantForm, setMerchantForm] = useState<MerchantControlForm>({
+    level: 'cardToken',
+    type: 'BLOCK',
+    scope: 'mcc',
+    mcc: ''
+  });
+  const [transactionMcc, setTransactionMcc] = useState('');
+  const merchants = useMerchants(session?.role);
+  const [merchantId, setMerchantId] = useState('');
+  // Transaction history: null until first loaded
+  const [history, setHistory] = useState<Transaction[] | null>(null);
+  const [historyCursor, setHistoryCursor] = useState<string | null>(null);
+  const [historyFilters, setHistoryFilters] = useState<HistoryFilters>(EMPTY_HISTORY_FILTERS);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [selectedTransaction, setSelectedTransaction] = useState<TransactionDetail | null>(null);
+  const [requestForm, setRequestForm] = useState<PaymentRequestForm>({
+    merchantId: '',
+    amount: '10.00',
+    currency: DEFAULT_CURRENCY,
+    description: '',
+    policy: 'SINGLE_USE',
+    expiresInMinutes: '60'
+  });
+  // Payment requests created in this session, newest first
+  const [paymentRequests, setPaymentRequests] = useState<PaymentRequestView[]>([]);
+  const [copiedRequestId, setCopiedRequestId] = useState<string | null>(null);
+  // NFC tags bound to the current card: null until first loaded
+  const [nfcTags, setNfcTags] = useState<NfcTag[] | null>(null);
+  const [tagLabel, setTagLabel] = useState('');
+  // Card tokens to move tags to, by tag id
+  const [tagBindEdits, setTagBindEdits] = useState<Record<string, string>>({});
+  const [copiedTagId, setCopiedTagId] = useState<string | null>(null);
+
+  // Pick up a session from an earlier visit
+  useEffect(() => {
+    fetch('/api/marqeta/session')
+      .then((response) => response.json())
+      .then((data) => setSession(data.success ? data.data : null))
+      .catch(() => undefined);
+  }, []);
+
+  const signIn = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/marqeta/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username: adminUsername, password: adminPassword })
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setSession(data.data);
+        setAdminPassword('');
+      } else {
+        setError(data.error || 'Failed to sign in');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const signOut = async () => {
+    try {
+      await fetch('/api/marqeta/session', { method: 'DELETE' });
+    } catch (err) {
+      console.error('Failed to sign out:', err);
+    }
+    setSession(null);
+    setRevealedCard(null);
+  };
+
+  // Mask revealed details again once their display time is up
+  useEffect(() => {
+    if (!revealedCard) return;
+    const timer = setTimeout(() => setRevealedCard(null), revealedCard.display_seconds * 1000);
+    return () => clearTimeout(timer);
+  }, [revealedCard]);
 
   const copyPAN = () => {
-    if (setupData?.card.pan) {
-      navigator.clipboard.writeText(setupData.card.pan);
+    if (revealedCard) {
+      navigator.clipboard.writeText(revealedCard.pan);
       setCopiedPAN(true);
       setTimeout(() => setCopiedPAN(false), 2000);
     }
   };
 
-  const copyPaymentLink = () => {
-    if (setupData?.card.token && typeof window !== 'undefined') {
-      const paymentLink = `${window.location.origin}/nfc/${setupData.card.token}`;
-      navigator.clipboard.writeText(paymentLink);
-      setCopiedPaymentLink(true);
-      setTimeout(() => setCopiedPaymentLink(false), 2000);
+  const nfcTagLink = (id: string) =>
+    `${typeof window !== 'undefined' ? window.location.origin : ''}/nfc?tag=${id}`;
+
+  const copyNfcTagLink = (id: string) => {
+    navigator.clipboard.writeText(nfcTagLink(id));
+    setCopiedTagId(id);
+    setTimeout(() => setCopiedTagId(null), 2000);
+  };
+
+  const paymentRequestLink = (id: string) =>
+    `${typeof window !== 'undefined' ? window.location.origin : ''}/nfc/${id}`;
+
+  const copyPaymentRequestLink = (id: string) => {
+    navigator.clipboard.writeText(paymentRequestLink(id));
+    setCopiedRequestId(id);
+    setTimeout(() => setCopiedRequestId(null), 2000);
+  };
+
+  const createPaymentRequest = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/marqeta/payment-requests', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          [IDEMPOTENCY_HEADER]: createIdempotencyKey()
+        },
+        body: JSON.stringify({
+          merchantId: requestForm.merchantId || undefined,
+          amount: requestForm.amount,
+          currency: requestForm.currency,
+          description: requestForm.description,
+          policy: requestForm.policy,
+          expiresInMinutes: Number(requestForm.expiresInMinutes)
+        })
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setPaymentRequests((previous) => [data.data, ...previous]);
+      } else {
+        setError(data.error || 'Failed to create payment request');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create payment request');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Re-read the status of every request created in this session
+  const refreshPaymentRequests = async () => {
+    try {
+      const refreshed = await Promise.all(
+        paymentRequests.map(async (request) => {
+          const response = await fetch(`/api/marqeta/payment-requests?id=${encodeURIComponent(request.id)}`);
+          const data = await response.json();
+          return data.success ? (data.data as PaymentRequestView) : request;
+        })
+      );
+      setPaymentRequests(refreshed);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to refresh payment requests');
     }
   };
 
@@ -69,13 +333,14 @@ export default function MarqetaPage() {
       const response = await fetch('/api/marqeta/setup', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ action: 'setup' })
+        body: JSON.stringify({ action: 'setup', fundingMode })
       });
 
       const data = await response.json();
 
       if (data.success) {
         setSetupData(data.data);
+        setRevealedCard(null);
       } else {
         setError(data.error || 'Setup failed');
       }
@@ -95,14 +360,19 @@ export default function MarqetaPage() {
     setLoading(true);
     setError(null);
     try {
-      // Always use auto-clear
       const response = await fetch('/api/marqeta/one-click-pay', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          [IDEMPOTENCY_HEADER]: createIdempotencyKey()
+        },
         body: JSON.stringify({
           cardToken: setupData.card.token,
-          amount: parseFloat(transactionAmount),
-          autoClear: true
+          amount: transactionAmount,
+          currency: transactionCurrency,
+          autoClear,
+          merchantId: merchantId || undefined,
+          mcc: transactionMcc || undefined
         })
       });
 
@@ -110,8 +380,15 @@ export default function MarqetaPage() {
 
       if (data.success) {
         setTransactionResult(data.data);
+        setAdjustments([]);
+        setAdjustmentAmount(toDecimalString(moneyIn(data.data.transaction?.amount || 0, data.data.transaction?.currency_code)));
         // Fetch updated balance
         await fetchBalance();
+      } else if (data.code === 'TRANSACTION_DECLINED') {
+        // Show the declined authorization alongside the reason
+        setTransactionResult({ transaction: data.details?.transaction });
+        setAdjustments([]);
+        setError(data.error);
       } else {
         setError(data.error || 'Transaction failed');
       }
@@ -122,6 +399,403 @@ export default function MarqetaPage() {
     }
   };
 
+  const adjustTransaction = async (action: AdjustmentAction) => {
+    const transactionToken = transactionResult?.transaction?.token;
+    if (!transactionToken) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/marqeta/setup', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          [IDEMPOTENCY_HEADER]: createIdempotencyKey()
+        },
+        body: JSON.stringify({
+          action,
+          transactionToken,
+          amount: adjustmentAmount
+        })
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setAdjustments((previous) => [...previous, data.data.transaction]);
+        await fetchBalance();
+      } else {
+        setError(data.error || `Failed to ${action} transaction`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} transaction`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Running totals for the current transaction (minor units of its currency)
+  const adjustedTotal = (type: string) =>
+    adjustments.filter((txn) => txn.type === type).reduce((sum, txn) => sum + txn.amount, 0);
+  const authorizedAmount = transactionResult?.transaction?.state === 'DECLINED' ? 0 : transactionResult?.transaction?.amount || 0;
+  const clearedAmount = (transactionResult?.cleared ? authorizedAmount : 0) + adjustedTotal('authorization.clearing');
+  const pendingAmount = authorizedAmount - clearedAmount - adjustedTotal('authorization.reversal');
+  const refundableAmount = clearedAmount - adjustedTotal('refund');
+  const resultCurrency = transactionResult?.transaction?.currency_code;
+
+  const loadCardTransitions = async (cardToken: string) => {
+    try {
+      const response = await fetch(`/api/marqeta/card-transitions?cardToken=${encodeURIComponent(cardToken)}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setCardTransitions(data.data.transitions);
+      }
+    } catch (err) {
+      console.error('Failed to load card transitions:', err);
+    }
+  };
+
+  const changeCardState = async (state: CardTransitionState) => {
+    if (!setupData) return;
+    if (state === 'TERMINATED' && !window.confirm('Terminate this card? This cannot be undone.')) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/marqeta/card-transitions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          [IDEMPOTENCY_HEADER]: createIdempotencyKey()
+        },
+        body: JSON.stringify({
+          cardToken: setupData.card.token,
+          state,
+          reasonCode: transitionReason
+        })
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setSetupData({ ...setupData, card: { ...setupData.card, state: data.data.state } });
+        await loadCardTransitions(setupData.card.token);
+      } else {
+        setError(data.error || 'Failed to change card state');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change card state');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveCardPin = async () => {
+    if (!setupData) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/marqeta/pin', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ cardToken: setupData.card.token, pin: cardPin })
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setPinSaved(true);
+      } else {
+        setError(data.error || 'Failed to set PIN');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to set PIN');
+    } finally {
+      setCardPin('');
+      setLoading(false);
+    }
+  };
+
+  const loadControls = async () => {
+    if (!setupData) return;
+
+    try {
+      const response = await fetch(`/api/marqeta/velocity-controls/available?userToken=${encodeURIComponent(setupData.user.token)}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setControls(data.data);
+        setLimitEdits({});
+      } else {
+        setError(data.error || 'Failed to load spend controls');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load spend controls');
+    }
+  };
+
+  // Send a request as the signed-in admin; true when it succeeded
+  const sendAdminRequest = async (url: string, method: 'POST' | 'PUT' | 'DELETE', body: object | undefined, failure: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(method === 'POST' ? { [IDEMPOTENCY_HEADER]: createIdempotencyKey() } : {})
+        },
+        body: body ? JSON.stringify(body) : undefined
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        setError(data.error || failure);
+      }
+      return data.success === true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Send an admin request to the velocity controls route, then reload the controls
+  const manageControl = async (method: 'POST' | 'PUT' | 'DELETE', body?: object, token?: string) => {
+    const url = `/api/marqeta/velocity-controls${token ? `?token=${encodeURIComponent(token)}` : ''}`;
+    if (await sendAdminRequest(url, method, body, 'Failed to update spend controls')) {
+      await loadControls();
+    }
+  };
+
+  // Tags bound to this card; listing needs the admin role since a tag id can charge the card
+  const loadNfcTags = async () => {
+    if (!setupData) return;
+
+    try {
+      const response = await fetch(`/api/marqeta/nfc-tags?cardToken=${encodeURIComponent(setupData.card.token)}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setNfcTags(data.data);
+        setTagBindEdits({});
+      } else {
+        setError(data.error || 'Failed to load NFC tags');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load NFC tags');
+    }
+  };
+
+  // Get a reveal grant for the signed-in user, then redeem it for the full card details
+  const revealCard = async () => {
+    if (!setupData) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const grantResponse = await fetch('/api/marqeta/card-details/grants', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          [IDEMPOTENCY_HEADER]: createIdempotencyKey()
+        },
+        body: JSON.stringify({ cardToken: setupData.card.token })
+      });
+      const grantData = await grantResponse.json();
+
+      if (!grantData.success) {
+        setError(grantData.error || 'Failed to reveal card details');
+        return;
+      }
+
+      const response = await fetch('/api/marqeta/card-details/reveal', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ grant: grantData.data.grant })
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setRevealedCard(data.data);
+      } else {
+        setError(data.error || 'Failed to reveal card details');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reveal card details');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Send an admin request to the NFC tags route, then reload the tags
+  const manageNfcTag = async (method: 'POST' | 'PUT' | 'DELETE', body?: object, id?: string) => {
+    const url = `/api/marqeta/nfc-tags${id ? `?id=${encodeURIComponent(id)}` : ''}`;
+    if (await sendAdminRequest(url, method, body, 'Failed to update NFC tags')) {
+      await loadNfcTags();
+    }
+  };
+
+  const issueNfcTag = async () => {
+    if (!setupData) return;
+    await manageNfcTag('POST', { cardToken: setupData.card.token, label: tagLabel.trim() || undefined });
+    setTagLabel('');
+  };
+
+  const createControl = () => {
+    if (!setupData) return;
+
+    const targets: Record<ControlLevel, string> = {
+      cardProductToken: setupData.cardProduct.token,
+      userToken: setupData.user.token,
+      cardToken: setupData.card.token
+    };
+    return manageControl('POST', {
+      [controlForm.level]: targets[controlForm.level],
+      name: controlForm.name || undefined,
+      amountLimit: controlForm.amountLimit,
+      currency: controlForm.currency,
+      usageLimit: controlForm.usageLimit ? parseInt(controlForm.usageLimit, 10) : undefined,
+      window: controlForm.window
+    });
+  };
+
+  const controlLevel = (control: { association: ControlAssociation }) =>
+    control.association.card_token ? 'Card'
+      : control.association.user_token ? 'User'
+        : control.association.card_product_token ? 'Card product'
+          : 'Program';
+
+  // Authorization controls on this card, its cardholder or its card product, and the MCC groups
+  const loadMerchantControls = async () => {
+    if (!setupData) return;
+
+    try {
+      const [controlsResponse, groupsResponse] = await Promise.all([
+        fetch('/api/marqeta/auth-controls'),
+        fetch('/api/marqeta/auth-controls/mcc-groups')
+      ]);
+      const controlsData = await controlsResponse.json();
+      const groupsData = await groupsResponse.json();
+
+      if (controlsData.success && groupsData.success) {
+        const targets: ControlAssociation = {
+          card_product_token: setupData.cardProduct.token,
+          user_token: setupData.user.token,
+          card_token: setupData.card.token
+        };
+        setMerchantControls((controlsData.data as AuthControl[]).filter(({ association }) =>
+          (Object.keys(association) as (keyof ControlAssociation)[]).every((key) => association[key] === targets[key])
+        ));
+        setMccGroups(groupsData.data);
+        setMccGroupPresets(groupsData.presets);
+      } else {
+        setError(controlsData.error || groupsData.error || 'Failed to load merchant controls');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load merchant controls');
+    }
+  };
+
+  const manageMerchantControl = async (method: 'POST' | 'PUT' | 'DELETE', body?: object, token?: string) => {
+    const url = `/api/marqeta/auth-controls${token ? `?token=${encodeURIComponent(token)}` : ''}`;
+    if (await sendAdminRequest(url, method, body, 'Failed to update merchant controls')) {
+      await loadMerchantControls();
+    }
+  };
+
+  const createMccGroupFromPreset = async (preset: { name: string; mccs: string[] }) => {
+    if (await sendAdminRequest('/api/marqeta/auth-controls/mcc-groups', 'POST', preset, 'Failed to create MCC group')) {
+      await loadMerchantControls();
+    }
+  };
+
+  const createMerchantControl = () => {
+    if (!setupData) return;
+
+    const targets: Record<ControlLevel, string> = {
+      cardProductToken: setupData.cardProduct.token,
+      userToken: setupData.user.token,
+      cardToken: setupData.card.token
+    };
+    return manageMerchantControl('POST', {
+      [merchantForm.level]: targets[merchantForm.level],
+      type: merchantForm.type,
+      ...(merchantForm.scope === 'mcc' ? { mcc: merchantForm.mcc } : { mccGroupToken: merchantForm.scope })
+    });
+  };
+
+  const merchantScopeLabel = ({ merchant_scope: scope }: AuthControl) =>
+    scope.mcc_group ? mccGroups.find((group) => group.token === scope.mcc_group)?.name ?? scope.mcc_group
+      : scope.mcc ? `MCC ${scope.mcc}`
+        : `MID ${scope.mid}`;
+
+  const updateHistoryFilter = (name: keyof HistoryFilters, value: string) => {
+    setHistoryFilters((previous) => ({ ...previous, [name]: value }));
+  };
+
+  // Load the first page, or the next one when given a cursor
+  const loadHistory = async (cursor?: string) => {
+    if (!setupData) return;
+
+    setHistoryLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ cardToken: setupData.card.token, limit: '10' });
+      for (const [name, value] of Object.entries(historyFilters)) {
+        if (value) {
+          params.set(name, value);
+        }
+      }
+      if (cursor) {
+        params.set('cursor', cursor);
+      }
+
+      const response = await fetch(`/api/marqeta/transactions?${params}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setHistory((previous) => cursor ? [...(previous ?? []), ...data.data.transactions] : data.data.transactions);
+        setHistoryCursor(data.data.nextCursor);
+        if (!cursor) {
+          setSelectedTransaction(null);
+        }
+      } else {
+        setError(data.error || 'Failed to load transaction history');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load transaction history');
+    } finally {
+      setHistoryLoading(false);
+    }
+  };
+
+  const toggleTransactionDetail = async (transactionToken: string) => {
+    if (selectedTransaction?.transaction.token === transactionToken) {
+      setSelectedTransaction(null);
+      return;
+    }
+
+    setError(null);
+    try {
+      const response = await fetch(`/api/marqeta/transactions/${encodeURIComponent(transactionToken)}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setSelectedTransaction(data.data);
+      } else {
+        setError(data.error || 'Failed to load transaction');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load transaction');
+    }
+  };
+
   const fetchBalance = async () => {
     if (!setupData) return;
 
@@ -159,6 +833,55 @@ export default function MarqetaPage() {
             Virtual card with Just-In-Time funding - funds are loaded automatically when transactions occur
           </p>
 
+          {/* Sign In */}
+          <div className="border border-gray-200 rounded-lg p-4 mb-6 text-sm">
+            {session ? (
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-gray-700">
+                  Signed in as <strong>{session.name}</strong> ({session.role})
+                </p>
+                <button
+                  onClick={signOut}
+                  className="px-3 py-1 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50"
+                >
+                  Sign Out
+                </button>
+              </div>
+            ) : (
+              <>
+                <div className="flex flex-wrap gap-2">
+                  <input
+                    type="text"
+                    value={adminUsername}
+                    onChange={(e) => setAdminUsername(e.target.value)}
+                    className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md"
+                    placeholder="Admin username"
+                    autoComplete="username"
+                  />
+                  <input
+                    type="password"
+                    value={adminPassword}
+                    onChange={(e) => setAdminPassword(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && signIn()}
+                    className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md"
+                    placeholder="Admin password"
+                    autoComplete="current-password"
+                  />
+                  <button
+                    onClick={signIn}
+                    disabled={loading || !adminPassword}
+                    className="px-4 py-2 font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Sign In
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  Sign in with ADMIN_USERNAME / ADMIN_PASSWORD to set up cards and run payments; most /api/marqeta routes need a signed-in role.
+                </p>
+              </>
+            )}
+          </div>
+
           {/* Setup Section */}
           {!setupData && (
             <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center">
@@ -173,6 +896,27 @@ export default function MarqetaPage() {
               <p className="text-gray-600 mb-4">
                 Create program funding source, card product, user, and virtual card
               </p>
+              <div className="mb-4 flex justify-center gap-2">
+                {(['MANAGED', 'GATEWAY'] as JitFundingMode[]).map((mode) => (
+                  <button
+                    key={mode}
+                    onClick={() => setFundingMode(mode)}
+                    disabled={loading}
+                    className={`px-4 py-2 rounded-lg text-sm font-medium border transition-colors ${
+                      fundingMode === mode
+                        ? 'bg-indigo-50 border-indigo-600 text-indigo-700'
+                        : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-50'
+                    }`}
+                  >
+                    {mode === 'MANAGED' ? 'Managed JIT' : 'Gateway JIT'}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mb-4">
+                {fundingMode === 'MANAGED'
+                  ? 'Marqeta funds each authorization from the program funding source.'
+                  : 'Marqeta asks our /api/marqeta/jit-gateway endpoint to approve, partially approve or decline each authorization.'}
+              </p>
               <button
                 onClick={setupJIT}
                 disabled={loading}
@@ -207,7 +951,7 @@ export default function MarqetaPage() {
                 <div className="flex justify-between items-start mb-8">
                   <div>
                     <p className="text-sm opacity-80 mb-1">Virtual Card</p>
-                    <p className="text-2xl font-mono tracking-wider">{setupData.card.pan}</p>
+                    <p className="text-2xl font-mono tracking-wider">{revealedCard?.pan ?? setupData.card.maskedPan}</p>
                   </div>
                   <div className="text-right">
                     <p className="text-sm opacity-80 mb-1">Status</p>
@@ -219,11 +963,11 @@ export default function MarqetaPage() {
                 <div className="flex justify-between mb-6">
                   <div>
                     <p className="text-xs opacity-80 mb-1">CVV</p>
-                    <p className="text-lg font-mono">{setupData.card.cvv}</p>
+                    <p className="text-lg font-mono">{revealedCard?.cvv_number ?? '•••'}</p>
                   </div>
                   <div>
                     <p className="text-xs opacity-80 mb-1">Expires</p>
-                    <p className="text-lg font-mono">{setupData.card.expiration}</p>
+                    <p className="text-lg font-mono">{revealedCard?.expiration ?? '••/••'}</p>
                   </div>
                   <div>
                     <p className="text-xs opacity-80 mb-1">Cardholder</p>
@@ -232,9 +976,22 @@ export default function MarqetaPage() {
                 </div>
                 {/* Action Buttons */}
                 <div className="flex gap-3">
+                  <button
+                    onClick={revealedCard ? () => setRevealedCard(null) : revealCard}
+                    disabled={loading || (!revealedCard && !session)}
+                    title={session ? undefined : 'Sign in first'}
+                    className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-white bg-opacity-20 hover:bg-opacity-30 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                    </svg>
+                    {revealedCard ? 'Hide Details' : 'Reveal Details'}
+                  </button>
                   <button
                     onClick={copyPAN}
-                    className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-white bg-opacity-20 hover:bg-opacity-30 rounded-lg transition-colors"
+                    disabled={!revealedCard}
+                    className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-white bg-opacity-20 hover:bg-opacity-30 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
@@ -242,9 +999,98 @@ export default function MarqetaPage() {
                     {copiedPAN ? 'Copied!' : 'Copy PAN'}
                   </button>
                 </div>
+                <p className="text-xs opacity-80 mt-3">
+                  Revealing needs you signed in and is recorded; the details are masked again after {revealedCard ? revealedCard.display_seconds : 'a few'} seconds.
+                </p>
               </div>
 
-              {/* Payment Link */}
+              {/* Card Controls */}
+              <div className="border border-gray-200 rounded-lg p-6">
+                <h3 className="text-lg font-medium text-gray-900 mb-4">Card Controls</h3>
+                <div className="flex flex-wrap items-center gap-2">
+                  <select
+                    value={transitionReason}
+                    onChange={(e) => setTransitionReason(e.target.value)}
+                    disabled={loading || setupData.card.state === 'TERMINATED'}
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  >
+                    {CARD_TRANSITION_REASONS.map(({ code, label }) => (
+                      <option key={code} value={code}>{code} – {label}</option>
+                    ))}
+                  </select>
+                  {setupData.card.state === 'ACTIVE' && (
+                    <button
+                      onClick={() => changeCardState('SUSPENDED')}
+                      disabled={loading}
+                      className="px-4 py-2 text-sm font-medium rounded-md text-white bg-yellow-600 hover:bg-yellow-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Freeze
+                    </button>
+                  )}
+                  {setupData.card.state === 'SUSPENDED' && (
+                    <button
+                      onClick={() => changeCardState('ACTIVE')}
+                      disabled={loading}
+                      className="px-4 py-2 text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Unfreeze
+                    </button>
+                  )}
+                  {setupData.card.state !== 'TERMINATED' && (
+                    <button
+                      onClick={() => changeCardState('TERMINATED')}
+                      disabled={loading}
+                      className="px-4 py-2 text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Terminate
+                    </button>
+                  )}
+                  {setupData.card.state === 'TERMINATED' && (
+                    <p className="text-sm text-gray-600">This card has been terminated and can no longer be used.</p>
+                  )}
+                </div>
+                {cardTransitions.length > 0 && (
+                  <ul className="mt-4 space-y-1 text-sm text-gray-700">
+                    {cardTransitions.map((transition) => (
+                      <li key={transition.token} className="flex justify-between">
+                        <span>
+                          <span className="font-medium">{transition.state}</span>
+                          <span className="ml-2 text-gray-500">
+                            {transition.reason_code} {transition.reason}
+                          </span>
+                        </span>
+                        <span className="text-gray-500">
+                          {transition.created_time ? new Date(transition.created_time).toLocaleString() : ''}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <div className="mt-4 flex flex-wrap items-center gap-2">
+                  <input
+                    type="password"
+                    inputMode="numeric"
+                    maxLength={6}
+                    value={cardPin}
+                    onChange={(e) => setCardPin(e.target.value.replace(/\D/g, ''))}
+                    placeholder="6-digit PIN"
+                    className="w-36 px-3 py-2 border border-gray-300 rounded-md text-sm font-mono"
+                  />
+                  <button
+                    onClick={saveCardPin}
+                    disabled={loading || cardPin.length !== 6}
+                    className="px-4 py-2 text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Set PIN
+                  </button>
+                  {pinSaved && <span className="text-sm text-green-700">PIN set</span>}
+                </div>
+                <p className="mt-2 text-xs text-gray-500">
+                  PIN payments and card number sign-ins check this PIN. Setting the first one needs you signed in as the cardholder of this card or as an admin.
+                </p>
+              </div>
+
+              {/* Payment Requests */}
               <div className="bg-gradient-to-r from-green-50 to-emerald-50 border border-green-200 rounded-lg p-6">
                 <div className="flex items-center gap-3 mb-4">
                   <div className="w-10 h-10 bg-green-100 rounded-lg flex items-center justify-center">
@@ -253,64 +1099,228 @@ export default function MarqetaPage() {
                     </svg>
                   </div>
                   <div>
-                    <h3 className="text-lg font-bold text-gray-900">Payment Link</h3>
-                    <p className="text-sm text-gray-600">Share this link to receive payments</p>
+                    <h3 className="text-lg font-bold text-gray-900">Payment Requests</h3>
+                    <p className="text-sm text-gray-600">Ask for a fixed amount with a link that expires</p>
                   </div>
                 </div>
-                <div className="bg-white rounded-lg p-4 border border-green-300">
-                  <p className="text-xs text-green-600 mb-2 font-medium">PAYMENT LINK:</p>
-                  <div className="flex items-center justify-between gap-3">
-                    <code className="text-sm font-mono text-gray-900 break-all flex-1">
-                      {typeof window !== 'undefined' ? `${window.location.origin}/nfc/${setupData.card.token}` : `/nfc/${setupData.card.token}`}
-                    </code>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mb-4 text-sm">
+                  <select
+                    value={requestForm.merchantId}
+                    onChange={(e) => setRequestForm({ ...requestForm, merchantId: e.target.value })}
+                    className="px-3 py-2 border border-gray-300 rounded-md"
+                  >
+                    {merchants.map((merchant) => (
+                      <option key={merchant.token} value={merchant.token}>{merchantLabel(merchant)}</option>
+                    ))}
+                  </select>
+                  <div className="flex gap-1">
+                    <input
+                      type="number"
+                      step={amountStep(requestForm.currency)}
+                      min={amountStep(requestForm.currency)}
+                      value={requestForm.amount}
+                      onChange={(e) => setRequestForm({ ...requestForm, amount: e.target.value })}
+                      className="min-w-0 flex-1 px-3 py-2 border border-gray-300 rounded-md"
+                      placeholder="Amount"
+                    />
+                    <select
+                      value={requestForm.currency}
+                      onChange={(e) => setRequestForm({ ...requestForm, currency: e.target.value as CurrencyCode })}
+                      className="px-2 py-2 border border-gray-300 rounded-md"
+                    >
+                      {CURRENCY_CODES.map((code) => (
+                        <option key={code} value={code}>{code}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <input
+                    type="text"
+                    maxLength={100}
+                    value={requestForm.description}
+                    onChange={(e) => setRequestForm({ ...requestForm, description: e.target.value })}
+                    className="px-3 py-2 border border-gray-300 rounded-md"
+                    placeholder="Description"
+                  />
+                  <select
+                    value={requestForm.policy}
+                    onChange={(e) => setRequestForm({ ...requestForm, policy: e.target.value as PaymentRequestPolicy })}
+                    className="px-3 py-2 border border-gray-300 rounded-md"
+                  >
+                    <option value="SINGLE_USE">Single use</option>
+                    <option value="MULTI_USE">Multi use</option>
+                  </select>
+                  <select
+                    value={requestForm.expiresInMinutes}
+                    onChange={(e) => setRequestForm({ ...requestForm, expiresInMinutes: e.target.value })}
+                    className="px-3 py-2 border border-gray-300 rounded-md"
+                  >
+                    <option value="15">Expires in 15 minutes</option>
+                    <option value="60">Expires in 1 hour</option>
+                    <option value="1440">Expires in 1 day</option>
+                    <option value="10080">Expires in 7 days</option>
+                  </select>
+                  <button
+                    onClick={createPaymentRequest}
+                    disabled={loading || !requestForm.description.trim()}
+                    className="px-4 py-2 font-medium rounded-md text-white bg-green-600 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Create Request
+                  </button>
+                </div>
+                {paymentRequests.length > 0 && (
+                  <div className="space-y-2">
+                    {paymentRequests.map((request) => (
+                      <div key={request.id} className="bg-white rounded-lg p-4 border border-green-300">
+                        <div className="flex items-center justify-between gap-3 mb-2 text-sm">
+                          <span className="font-medium text-gray-900">
+                            {formatMoney(money(request.amount, request.currency))} · {request.description}
+                          </span>
+                          <span className="text-xs text-gray-600">
+                            {request.status}
+                            {request.policy === 'MULTI_USE' && ` · paid ${request.payment_count}×`}
+                          </span>
+                        </div>
+                        <div className="flex items-center justify-between gap-3">
+                          <a
+                            href={`/api/marqeta/qr?requestId=${encodeURIComponent(request.id)}&format=png&size=512`}
+                            download={`payment-request-${request.id.split('.')[0]}.png`}
+                            title="Download QR code (PNG)"
+                            className="flex-shrink-0"
+                          >
+                            {/* eslint-disable-next-line @next/next/no-img-element -- generated by our own route */}
+                            <img
+                              src={`/api/marqeta/qr?requestId=${encodeURIComponent(request.id)}`}
+                              alt="Payment request QR code"
+                              width={96}
+                              height={96}
+                              className="border border-gray-200 rounded"
+                            />
+                          </a>
+                          <code className="text-sm font-mono text-gray-900 break-all flex-1">
+                            {paymentRequestLink(request.id)}
+                          </code>
+                          <button
+                            onClick={() => copyPaymentRequestLink(request.id)}
+                            className="flex-shrink-0 px-4 py-2 bg-green-600 text-white text-sm font-medium rounded-lg hover:bg-green-700 transition-colors flex items-center gap-2"
+                          >
+                            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                            </svg>
+                            {copiedRequestId === request.id ? 'Copied!' : 'Copy Link'}
+                          </button>
+                        </div>
+                      </div>
+                    ))}
                     <button
-                      onClick={copyPaymentLink}
-                      className="flex-shrink-0 px-4 py-2 bg-green-600 text-white text-sm font-medium rounded-lg hover:bg-green-700 transition-colors flex items-center gap-2"
+                      onClick={refreshPaymentRequests}
+                      className="text-sm font-medium text-green-700 hover:text-green-800"
                     >
-                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                      </svg>
-                      {copiedPaymentLink ? 'Copied!' : 'Copy Link'}
+                      Refresh status
                     </button>
                   </div>
-                </div>
+                )}
                 <div className="mt-3 text-xs text-gray-600">
-                  <p>Share this link via QR code, NFC tag, or message. Recipients will enter a PIN to complete payment.</p>
+                  <p>Share a link via QR code (click it for a PNG), NFC tag, or message. Payers can scan the QR code at <Link href="/scan" className="underline">/scan</Link>, see the merchant and amount, then enter their card number and PIN; the request is then marked paid.</p>
                 </div>
               </div>
 
-              {/* NFC Data for iOS Users */}
+              {/* NFC Tags */}
               <div className="bg-gradient-to-r from-blue-50 to-indigo-50 border border-blue-200 rounded-lg p-6">
-                <div className="flex items-center gap-3 mb-4">
-                  <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
-                    <svg className="w-5 h-5 text-blue-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
-                    </svg>
-                  </div>
-                  <div>
-                    <h3 className="text-lg font-bold text-gray-900">NFC Card Data</h3>
-                    <p className="text-sm text-gray-600">For iOS users - copy this to your NFC writer app</p>
+                <div className="flex items-center justify-between gap-3 mb-4">
+                  <div className="flex items-center gap-3">
+                    <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
+                      <svg className="w-5 h-5 text-blue-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                      </svg>
+                    </div>
+                    <div>
+                      <h3 className="text-lg font-bold text-gray-900">NFC Tags</h3>
+                      <p className="text-sm text-gray-600">Tag ids bound to this card, written to tags instead of the PAN</p>
+                    </div>
                   </div>
+                  <button
+                    onClick={loadNfcTags}
+                    disabled={loading}
+                    className="px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {nfcTags ? 'Refresh' : 'Load Tags'}
+                  </button>
                 </div>
-                <div className="bg-white rounded-lg p-4 border border-blue-300">
-                  <p className="text-xs text-blue-600 mb-2 font-medium">DATA TO WRITE (NDEF Text Record):</p>
-                  <div className="flex items-center justify-between gap-3">
-                    <code className="text-lg font-mono text-gray-900 break-all">
-                      {setupData.card.pan}
-                    </code>
-                    <button
-                      onClick={copyPAN}
-                      className="flex-shrink-0 px-3 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors"
-                    >
-                      {copiedPAN ? '✓ Copied' : 'Copy'}
-                    </button>
-                  </div>
+                <div className="flex gap-2 mb-4 text-sm">
+                  <input
+                    type="text"
+                    maxLength={50}
+                    value={tagLabel}
+                    onChange={(e) => setTagLabel(e.target.value)}
+                    className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md"
+                    placeholder="Label (optional), e.g. Keyring"
+                  />
+                  <button
+                    onClick={issueNfcTag}
+                    disabled={loading || !isAdmin}
+                    className="px-4 py-2 font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Issue Tag
+                  </button>
                 </div>
-                <div className="mt-3 text-xs text-gray-600 space-y-1">
-                  <p><strong>Recommended iOS Apps:</strong></p>
+                {nfcTags && nfcTags.length === 0 && (
+                  <p className="text-sm text-gray-500 mb-4">No tags are bound to this card.</p>
+                )}
+                {nfcTags && nfcTags.length > 0 && (
+                  <ul className="space-y-2 mb-4">
+                    {nfcTags.map((tag) => (
+                      <li key={tag.token} className="bg-white rounded-lg p-4 border border-blue-300 text-sm">
+                        <div className="flex justify-between gap-3 mb-2">
+                          <span className="font-medium text-gray-900">{tag.label || 'NFC tag'}</span>
+                          <span className={tag.status === 'ACTIVE' ? 'text-green-700' : 'text-red-700'}>
+                            {tag.status} · {tag.use_count} tap{tag.use_count === 1 ? '' : 's'}
+                            {tag.last_seen_time && ` · last seen ${new Date(tag.last_seen_time).toLocaleString()}`}
+                          </span>
+                        </div>
+                        <div className="flex items-center justify-between gap-3">
+                          <code className="font-mono text-gray-900 break-all">{nfcTagLink(tag.token)}</code>
+                          <button
+                            onClick={() => copyNfcTagLink(tag.token)}
+                            className="flex-shrink-0 px-3 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors"
+                          >
+                            {copiedTagId === tag.token ? '✓ Copied' : 'Copy'}
+                          </button>
+                        </div>
+                        {tag.status === 'ACTIVE' && (
+                          <div className="flex gap-2 mt-3">
+                            <input
+                              type="text"
+                              value={tagBindEdits[tag.token] ?? ''}
+                              onChange={(e) => setTagBindEdits({ ...tagBindEdits, [tag.token]: e.target.value })}
+                              className="flex-1 min-w-0 px-3 py-1 border border-gray-300 rounded-md font-mono"
+                              placeholder="Replacement card token"
+                            />
+                            <button
+                              onClick={() => manageNfcTag('PUT', { id: tag.token, cardToken: tagBindEdits[tag.token]?.trim() })}
+                              disabled={loading || !tagBindEdits[tag.token]?.trim()}
+                              className="px-3 py-1 font-medium rounded-md text-blue-700 border border-blue-300 hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              Move
+                            </button>
+                            <button
+                              onClick={() => manageNfcTag('DELETE', undefined, tag.token)}
+                              disabled={loading}
+                              className="px-3 py-1 font-medium rounded-md text-red-700 border border-red-300 hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              Revoke
+                            </button>
+                          </div>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <div className="text-xs text-gray-600 space-y-1">
+                  <p>Issuing, listing and revoking tags needs you signed in as admin. Revoke a lost tag to stop it working; the card keeps working.</p>
+                  <p><strong>Writing the tag:</strong> use Write Tag mode on <Link href="/nfc" className="underline">/nfc</Link> (Chrome on Android), or an iOS writer app:</p>
                   <ul className="list-disc list-inside space-y-1 ml-2">
-                    <li><strong>NFC Tools:</strong> Write → Add record → Text → Paste PAN → Write</li>
-                    <li><strong>TagWriter:</strong> New tag → Text → Paste PAN → Save</li>
+                    <li><strong>NFC Tools:</strong> Write → Add record → URL → Paste link → Write</li>
+                    <li><strong>TagWriter:</strong> New tag → Link → Paste link → Save</li>
                   </ul>
                 </div>
               </div>
@@ -320,7 +1330,7 @@ export default function MarqetaPage() {
                 <div className="bg-gray-50 rounded-lg p-4">
                   <p className="text-sm text-gray-600 mb-1">Balance Limit</p>
                   <p className="text-2xl font-bold text-gray-900">
-                    ${(setupData.user.balanceLimit / 100).toFixed(2)}
+                    {formatAmount(setupData.user.balanceLimit, setupData.velocityControl.currency)}
                   </p>
                 </div>
                 {balance && (
@@ -328,37 +1338,328 @@ export default function MarqetaPage() {
                     <div className="bg-gray-50 rounded-lg p-4">
                       <p className="text-sm text-gray-600 mb-1">Ledger Balance</p>
                       <p className="text-2xl font-bold text-gray-900">
-                        ${(balance.ledger_balance / 100).toFixed(2)}
+                        {formatAmount(balance.ledger_balance)}
                       </p>
                     </div>
                     <div className="bg-gray-50 rounded-lg p-4">
                       <p className="text-sm text-gray-600 mb-1">Available Balance</p>
                       <p className="text-2xl font-bold text-gray-900">
-                        ${(balance.available_balance / 100).toFixed(2)}
+                        {formatAmount(balance.available_balance)}
                       </p>
                     </div>
                   </>
                 )}
               </div>
 
+              {/* Spend Controls */}
+              <div className="border border-gray-200 rounded-lg p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-medium text-gray-900">Spend Controls</h3>
+                  <button
+                    onClick={loadControls}
+                    disabled={loading}
+                    className="px-4 py-2 text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {controls ? 'Refresh' : 'Load Controls'}
+                  </button>
+                </div>
+                {controls && controls.length === 0 && (
+                  <p className="text-sm text-gray-500 mb-4">No active velocity controls apply to this cardholder.</p>
+                )}
+                {controls && controls.length > 0 && (
+                  <ul className="space-y-3 mb-4">
+                    {controls.map((control) => (
+                      <li key={control.token} className="bg-gray-50 rounded-lg p-3 text-sm">
+                        <div className="flex justify-between mb-1">
+                          <span className="font-medium text-gray-900">{control.name || control.token}</span>
+                          <span className="text-gray-500">{controlLevel(control)} · {control.velocity_window}</span>
+                        </div>
+                        <div className="flex justify-between text-gray-700 mb-2">
+                          <span>
+                            {formatAmount(control.available.amount, control.currency_code)} of {formatAmount(control.amount_limit, control.currency_code)} left
+                            {control.available.uses !== undefined && ` · ${control.available.uses} of ${control.usage_limit} uses left`}
+                          </span>
+                          {control.available.days_remaining !== undefined && (
+                            <span className="text-gray-500">resets in {control.available.days_remaining} day(s)</span>
+                          )}
+                        </div>
+                        <div className="w-full bg-gray-200 rounded-full h-2 mb-2">
+                          <div
+                            className="bg-indigo-600 h-2 rounded-full"
+                            style={{ width: `${Math.min(100, (control.available.amount / control.amount_limit) * 100)}%` }}
+                          />
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="number"
+                            step={amountStep(currencyOf(control.currency_code))}
+                            min={amountStep(currencyOf(control.currency_code))}
+                            value={limitEdits[control.token] ?? toDecimalString(moneyIn(control.amount_limit, control.currency_code))}
+                            onChange={(e) => setLimitEdits({ ...limitEdits, [control.token]: e.target.value })}
+                            className="w-28 px-3 py-1 border border-gray-300 rounded-md"
+                          />
+                          <button
+                            onClick={() => manageControl('PUT', {
+                              token: control.token,
+                              amountLimit: limitEdits[control.token]
+                            })}
+                            disabled={loading || limitEdits[control.token] === undefined}
+                            className="px-3 py-1 font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            Update Limit
+                          </button>
+                          <button
+                            onClick={() => manageControl('DELETE', undefined, control.token)}
+                            disabled={loading}
+                            className="px-3 py-1 font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            Deactivate
+                          </button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-2 text-sm">
+                  <select
+                    value={controlForm.level}
+                    onChange={(e) => setControlForm({ ...controlForm, level: e.target.value as ControlLevel })}
+                    className="px-3 py-2 border border-gray-300 rounded-md"
+                  >
+                    {CONTROL_LEVELS.map(({ field, label }) => (
+                      <option key={field} value={field}>{label}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={controlForm.window}
+                    onChange={(e) => setControlForm({ ...controlForm, window: e.target.value as VelocityWindow })}
+                    className="px-3 py-2 border border-gray-300 rounded-md"
+                  >
+                    {VELOCITY_WINDOWS.map((window) => (
+                      <option key={window} value={window}>{window}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={controlForm.name}
+                    onChange={(e) => setControlForm({ ...controlForm, name: e.target.value })}
+                    className="px-3 py-2 border border-gray-300 rounded-md"
+                    placeholder="Name"
+                  />
+                  <div className="flex gap-1">
+                    <input
+                      type="number"
+                      step={amountStep(controlForm.currency)}
+                      min={amountStep(controlForm.currency)}
+                      value={controlForm.amountLimit}
+                      onChange={(e) => setControlForm({ ...controlForm, amountLimit: e.target.value })}
+                      className="min-w-0 flex-1 px-3 py-2 border border-gray-300 rounded-md"
+                      placeholder="Amount limit"
+                    />
+                    <select
+                      value={controlForm.currency}
+                      onChange={(e) => setControlForm({ ...controlForm, currency: e.target.value as CurrencyCode })}
+                      className="px-2 py-2 border border-gray-300 rounded-md"
+                    >
+                      {CURRENCY_CODES.map((code) => (
+                        <option key={code} value={code}>{code}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <input
+                    type="number"
+                    step="1"
+                    min="1"
+                    value={controlForm.usageLimit}
+                    onChange={(e) => setControlForm({ ...controlForm, usageLimit: e.target.value })}
+                    className="px-3 py-2 border border-gray-300 rounded-md"
+                    placeholder="Max uses (optional)"
+                    disabled={controlForm.window === 'TRANSACTION'}
+                  />
+                  <button
+                    onClick={createControl}
+                    disabled={loading}
+                    className="px-4 py-2 font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Add Control
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  Adding, updating and deactivating controls needs you signed in as admin.
+                </p>
+              </div>
+
+              {/* Merchant Controls */}
+              <div className="border border-gray-200 rounded-lg p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-medium text-gray-900">Merchant Controls</h3>
+                  <button
+                    onClick={loadMerchantControls}
+                    disabled={loading}
+                    className="px-4 py-2 text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {merchantControls ? 'Refresh' : 'Load Controls'}
+                  </button>
+                </div>
+                {merchantControls && merchantControls.length === 0 && (
+                  <p className="text-sm text-gray-500 mb-4">No authorization controls apply to this card.</p>
+                )}
+                {merchantControls && merchantControls.length > 0 && (
+                  <ul className="space-y-2 mb-4">
+                    {merchantControls.map((control) => (
+                      <li key={control.token} className="flex items-center justify-between bg-gray-50 rounded-lg p-3 text-sm">
+                        <span className={control.active ? 'text-gray-900' : 'text-gray-400 line-through'}>
+                          <span className={`font-medium ${control.type === 'BLOCK' ? 'text-red-700' : 'text-green-700'}`}>{control.type}</span>
+                          {' '}{merchantScopeLabel(control)}
+                          <span className="text-gray-500"> · {controlLevel(control)}</span>
+                        </span>
+                        {control.active && (
+                          <button
+                            onClick={() => manageMerchantControl('DELETE', undefined, control.token)}
+                            disabled={loading}
+                            className="px-3 py-1 font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            Deactivate
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {merchantControls && (
+                  <div className="flex flex-wrap gap-2 mb-4 text-sm">
+                    {mccGroupPresets
+                      .filter((preset) => !mccGroups.some((group) => group.name === preset.name))
+                      .map((preset) => (
+                        <button
+                          key={preset.name}
+                          onClick={() => createMccGroupFromPreset(preset)}
+                          disabled={loading}
+                          className="px-3 py-1 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                          title={preset.mccs.join(', ')}
+                        >
+                          + {preset.name} group
+                        </button>
+                      ))}
+                  </div>
+                )}
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-sm">
+                  <select
+                    value={merchantForm.type}
+                    onChange={(e) => setMerchantForm({ ...merchantForm, type: e.target.value as AuthControlType })}
+                    className="px-3 py-2 border border-gray-300 rounded-md"
+                  >
+                    {AUTH_CONTROL_TYPES.map((type) => (
+                      <option key={type} value={type}>{type === 'BLOCK' ? 'Block' : 'Allow only'}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={merchantForm.level}
+                    onChange={(e) => setMerchantForm({ ...merchantForm, level: e.target.value as ControlLevel })}
+                    className="px-3 py-2 border border-gray-300 rounded-md"
+                  >
+                    {CONTROL_LEVELS.map(({ field, label }) => (
+                      <option key={field} value={field}>{label}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={merchantForm.scope}
+                    onChange={(e) => setMerchantForm({ ...merchantForm, scope: e.target.value })}
+                    className="px-3 py-2 border border-gray-300 rounded-md"
+                  >
+                    <option value="mcc">Single MCC</option>
+                    {mccGroups.filter((group) => group.active).map((group) => (
+                      <option key={group.token} value={group.token}>{group.name}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    maxLength={4}
+                    value={merchantForm.mcc}
+                    onChange={(e) => setMerchantForm({ ...merchantForm, mcc: e.target.value })}
+                    className="px-3 py-2 border border-gray-300 rounded-md"
+                    placeholder="MCC, e.g. 7995"
+                    disabled={merchantForm.scope !== 'mcc'}
+                  />
+                  <button
+                    onClick={createMerchantControl}
+                    disabled={loading}
+                    className="px-4 py-2 font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Add Control
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  Needs you signed in as admin.
+                </p>
+              </div>
+
               {/* Transaction Simulation */}
               <div className="bg-gray-50 rounded-lg p-6">
                 <h3 className="text-lg font-medium text-gray-900 mb-4">Simulate Transaction</h3>
                 <div className="mb-4">
                   <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Amount (USD)
+                    Amount
+                  </label>
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      step={amountStep(transactionCurrency)}
+                      min={amountStep(transactionCurrency)}
+                      value={transactionAmount}
+                      onChange={(e) => setTransactionAmount(e.target.value)}
+                      className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                      placeholder="10.00"
+                    />
+                    <select
+                      value={transactionCurrency}
+                      onChange={(e) => setTransactionCurrency(e.target.value as CurrencyCode)}
+                      className="px-3 py-2 border border-gray-300 rounded-lg"
+                    >
+                      {CURRENCY_CODES.map((code) => (
+                        <option key={code} value={code}>{code}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Merchant
+                  </label>
+                  <select
+                    value={merchantId}
+                    onChange={(e) => setMerchantId(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  >
+                    {merchants.map((merchant) => (
+                      <option key={merchant.token} value={merchant.token}>{merchantLabel(merchant)}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Override merchant category code (optional)
                   </label>
                   <input
-                    type="number"
-                    step="0.01"
-                    min="0.01"
-                    max={(setupData.user.balanceLimit / 100).toFixed(2)}
-                    value={transactionAmount}
-                    onChange={(e) => setTransactionAmount(e.target.value)}
+                    type="text"
+                    inputMode="numeric"
+                    maxLength={4}
+                    value={transactionMcc}
+                    onChange={(e) => setTransactionMcc(e.target.value)}
                     className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
-                    placeholder="10.00"
+                    placeholder="5411 (grocery); 7995 for gambling"
                   />
                 </div>
+                <label className="flex items-center gap-2 mb-4 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={autoClear}
+                    onChange={(e) => setAutoClear(e.target.checked)}
+                    className="h-4 w-4 text-indigo-600 border-gray-300 rounded"
+                  />
+                  Auto-clear after authorization
+                </label>
                 <button
                   onClick={() => simulateTransaction()}
                   disabled={loading}
@@ -367,7 +1668,7 @@ export default function MarqetaPage() {
                   {loading ? 'Processing...' : 'One-Click Pay ✓'}
                 </button>
                 <p className="text-xs text-gray-500 mt-2">
-                  Transactions auto-clear and go straight to CLEARED state - mimics real payment UX
+                  With auto-clear, transactions go straight to CLEARED state - mimics real payment UX. Turn it off to clear, reverse or refund step by step.
                 </p>
               </div>
 
@@ -398,26 +1699,239 @@ export default function MarqetaPage() {
                     <div className="flex justify-between">
                       <span className="text-gray-600">Amount:</span>
                       <span className="font-medium">
-                        ${((transactionResult.transaction?.amount || 0) / 100).toFixed(2)}
+                        {formatAmount(transactionResult.transaction?.amount || 0, resultCurrency)}
                       </span>
                     </div>
                     {(transactionResult.transaction?.gpa_order || transactionResult.gpa_order) && (
                       <div className="mt-4 pt-4 border-t border-green-300">
                         <p className="text-sm font-medium text-green-900 mb-2">✓ JIT Funding Used</p>
                         <div className="text-sm text-gray-700">
-                          <p>Funding Source: <span className="font-medium">Program</span></p>
+                          <p>Funding Source: <span className="font-medium">{setupData.cardProduct.fundingMode === 'GATEWAY' ? 'Program Gateway' : 'Program'}</span></p>
                           <p>
                             Funding Amount: <span className="font-medium">
-                              ${((transactionResult.transaction?.gpa_order?.amount || transactionResult.gpa_order?.amount || 0) / 100).toFixed(2)}
+                              {formatAmount(transactionResult.transaction?.gpa_order?.amount || transactionResult.gpa_order?.amount || 0, resultCurrency)}
                             </span>
                           </p>
                         </div>
                       </div>
                     )}
+                    {authorizedAmount > 0 && (
+                      <div className="mt-4 pt-4 border-t border-green-300">
+                        <p className="text-sm font-medium text-green-900 mb-2">Transaction Lifecycle</p>
+                        <div className="grid grid-cols-3 gap-2 text-sm text-gray-700 mb-3">
+                          <p>Pending: <span className="font-medium">{formatAmount(pendingAmount, resultCurrency)}</span></p>
+                          <p>Cleared: <span className="font-medium">{formatAmount(clearedAmount, resultCurrency)}</span></p>
+                          <p>Refunded: <span className="font-medium">{formatAmount(adjustedTotal('refund'), resultCurrency)}</span></p>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-2">
+                          <input
+                            type="number"
+                            step={amountStep(currencyOf(resultCurrency))}
+                            min={amountStep(currencyOf(resultCurrency))}
+                            value={adjustmentAmount}
+                            onChange={(e) => setAdjustmentAmount(e.target.value)}
+                            className="w-28 px-3 py-1 border border-gray-300 rounded-md text-sm"
+                          />
+                          <button
+                            onClick={() => adjustTransaction('clear')}
+                            disabled={loading || pendingAmount <= 0}
+                            className="px-3 py-1 text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            Clear
+                          </button>
+                          <button
+                            onClick={() => adjustTransaction('reverse')}
+                            disabled={loading || pendingAmount <= 0}
+                            className="px-3 py-1 text-sm font-medium rounded-md text-white bg-yellow-600 hover:bg-yellow-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            Reverse
+                          </button>
+                          <button
+                            onClick={() => adjustTransaction('refund')}
+                            disabled={loading || refundableAmount <= 0}
+                            className="px-3 py-1 text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            Refund
+                          </button>
+                        </div>
+                        {adjustments.length > 0 && (
+                          <ul className="mt-3 space-y-1 text-sm text-gray-700">
+                            {adjustments.map((txn) => (
+                              <li key={txn.token} className="flex justify-between">
+                                <span className="font-mono">{txn.type}</span>
+                                <span>
+                                  {formatAmount(txn.amount, txn.currency_code)}
+                                  {txn.type !== 'authorization.clearing' && (
+                                    <span className="ml-2 text-gray-500">
+                                      → {txn.gpa_order ? txn.gpa_order.funding.source.type : 'GPA'}
+                                    </span>
+                                  )}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    )}
                   </div>
                 </div>
               )}
 
+              {/* Transaction History */}
+              <div className="border border-gray-200 rounded-lg p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-medium text-gray-900">Transaction History</h3>
+                  <button
+                    onClick={() => loadHistory()}
+                    disabled={historyLoading}
+                    className="px-4 py-2 text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {historyLoading ? 'Loading...' : history ? 'Apply Filters' : 'Load History'}
+                  </button>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mb-4 text-sm">
+                  <select
+                    value={historyFilters.state}
+                    onChange={(e) => updateHistoryFilter('state', e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-md"
+                  >
+                    <option value="">All states</option>
+                    {HISTORY_STATES.map((state) => (
+                      <option key={state} value={state}>{state}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="date"
+                    value={historyFilters.startDate}
+                    onChange={(e) => updateHistoryFilter('startDate', e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-md"
+                    aria-label="From date"
+                  />
+                  <input
+                    type="date"
+                    value={historyFilters.endDate}
+                    onChange={(e) => updateHistoryFilter('endDate', e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-md"
+                    aria-label="To date"
+                  />
+                  <select
+                    value={historyFilters.currency}
+                    onChange={(e) => updateHistoryFilter('currency', e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-md"
+                  >
+                    <option value="">All currencies</option>
+                    {CURRENCY_CODES.map((code) => (
+                      <option key={code} value={code}>{code}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    step={amountStep(historyFilters.currency || DEFAULT_CURRENCY)}
+                    min="0"
+                    value={historyFilters.minAmount}
+                    onChange={(e) => updateHistoryFilter('minAmount', e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-md"
+                    placeholder="Min amount"
+                  />
+                  <input
+                    type="number"
+                    step={amountStep(historyFilters.currency || DEFAULT_CURRENCY)}
+                    min="0"
+                    value={historyFilters.maxAmount}
+                    onChange={(e) => updateHistoryFilter('maxAmount', e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-md"
+                    placeholder="Max amount"
+                  />
+                  <input
+                    type="text"
+                    value={historyFilters.merchant}
+                    onChange={(e) => updateHistoryFilter('merchant', e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-md"
+                    placeholder="Merchant"
+                  />
+                </div>
+                {history && history.length === 0 && (
+                  <p className="text-sm text-gray-500">No transactions match these filters.</p>
+                )}
+                {history && history.length > 0 && (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b border-gray-200">
+                        <th className="py-2 font-medium">Date</th>
+                        <th className="py-2 font-medium">Type</th>
+                        <th className="py-2 font-medium">State</th>
+                        <th className="py-2 font-medium">Merchant</th>
+                        <th className="py-2 font-medium text-right">Amount</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {history.map((txn) => (
+                        <Fragment key={txn.token}>
+                          <tr
+                            onClick={() => toggleTransactionDetail(txn.token)}
+                            className="border-b border-gray-100 cursor-pointer hover:bg-gray-50"
+                          >
+                            <td className="py-2">{txn.created_time ? new Date(txn.created_time).toLocaleString() : 'N/A'}</td>
+                            <td className="py-2 font-mono">{txn.type}</td>
+                            <td className="py-2">{txn.state}</td>
+                            <td className="py-2">{txn.card_acceptor?.name || 'N/A'}</td>
+                            <td className="py-2 text-right">{formatAmount(txn.amount, txn.currency_code)}</td>
+                          </tr>
+                          {selectedTransaction?.transaction.token === txn.token && (
+                            <tr>
+                              <td colSpan={5} className="bg-gray-50 p-4">
+                                <div className="space-y-1 text-gray-700">
+                                  <p>Token: <span className="font-mono">{selectedTransaction.transaction.token}</span></p>
+                                  <p>
+                                    Response: <span className="font-medium">
+                                      {selectedTransaction.transaction.response?.code || 'N/A'} {selectedTransaction.transaction.response?.memo}
+                                    </span>
+                                  </p>
+                                  {selectedTransaction.transaction.preceding_related_transaction_token && (
+                                    <p>Related to: <span className="font-mono">{selectedTransaction.transaction.preceding_related_transaction_token}</span></p>
+                                  )}
+                                </div>
+                                {selectedTransaction.gpa_order ? (
+                                  <div className="mt-3 pt-3 border-t border-gray-200 space-y-1 text-gray-700">
+                                    <p className="font-medium text-gray-900">JIT GPA Order</p>
+                                    <p>Token: <span className="font-mono">{selectedTransaction.gpa_order.token}</span></p>
+                                    <p>State: <span className="font-medium">{selectedTransaction.gpa_order.state}</span></p>
+                                    <p>Amount: <span className="font-medium">{formatAmount(selectedTransaction.gpa_order.amount, selectedTransaction.gpa_order.currency_code)}</span></p>
+                                    <p>
+                                      Funding Source: <span className="font-mono">
+                                        {selectedTransaction.gpa_order.funding.source.type} {selectedTransaction.gpa_order.funding.source.token}
+                                      </span>
+                                    </p>
+                                    {selectedTransaction.gpa_order.jit_funding && (
+                                      <p>
+                                        JIT Funding: <span className="font-mono">
+                                          {selectedTransaction.gpa_order.jit_funding.method} {selectedTransaction.gpa_order.jit_funding.token}
+                                        </span>
+                                      </p>
+                                    )}
+                                  </div>
+                                ) : (
+                                  <p className="mt-3 text-gray-500">No JIT funding on this transaction.</p>
+                                )}
+                              </td>
+                            </tr>
+                          )}
+                        </Fragment>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+                {historyCursor && (
+                  <button
+                    onClick={() => loadHistory(historyCursor)}
+                    disabled={historyLoading}
+                    className="mt-4 px-4 py-2 text-sm font-medium rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {historyLoading ? 'Loading...' : 'Load More'}
+                  </button>
+                )}
+              </div>
+
               {/* Technical Details */}
               <div className="border border-gray-200 rounded-lg p-6">
                 <h3 className="text-lg font-medium text-gray-900 mb-4">Technical Details</h3>
@@ -430,6 +1944,10 @@ export default function MarqetaPage() {
                     <span className="text-gray-600">Card Product:</span>
                     <span className="font-mono">{setupData.cardProduct.token}</span>
                   </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">JIT Funding Mode:</span>
+                    <span className="font-mono">{setupData.cardProduct.fundingMode}</span>
+                  </div>
                   <div className="flex justify-between">
                     <span className="text-gray-600">User Token:</span>
                     <span className="font-mono">{setupData.user.token}</span>
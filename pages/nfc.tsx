@@ -1,34 +1,38 @@
-import { useState, useEffect } from 'react';
-
-interface TransactionData {
-  transaction?: {
-    token: string;
-    state: string;
-    response: { code: string };
-    amount: number;
-    gpa_order?: {
-      token: string;
-      funding: { source: { type: string } };
-      amount: number;
-    };
-  };
-  gpa_order?: {
-    token: string;
-    funding: { source: { type: string } };
-    amount: number;
-  };
-  cleared?: boolean;
-  cardLast4?: string;
-}
+import { useState, useEffect, useRef } from 'react';
+import type { PaymentResult } from '../lib/marqeta-types';
+import { IDEMPOTENCY_HEADER, createIdempotencyKey } from '../lib/idempotency-key';
+import { merchantLabel, useMerchants } from '../lib/use-merchants';
+import { formatMoney, moneyIn } from '../lib/money';
+import type { Principal } from '../lib/auth';
+import { createNdefReader, findTagPayment, fromWebNfcRecords, paymentTagMessage } from '../lib/ndef';
+
+// Reading tags to charge them, or writing a card's payment link to a blank tag
+type NfcMode = 'read' | 'write';
+
+// Card to charge: a tag id from the tag registry, or a card number typed in (or on an old tag)
+type PaymentCard = { tagId: string } | { pan: string };
 
 export default function NFCPage() {
   const [isNFCSupported, setIsNFCSupported] = useState(false);
   const [isReading, setIsReading] = useState(false);
   const [scannedPAN, setScannedPAN] = useState<string | null>(null);
+  const [scannedTag, setScannedTag] = useState<string | null>(null);
   const [transactionAmount, setTransactionAmount] = useState('10.00');
-  const [transactionResult, setTransactionResult] = useState<TransactionData | null>(null);
+  const [transactionResult, setTransactionResult] = useState<PaymentResult | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [setupRequired, setSetupRequired] = useState(false);
+  // The terminal's session; taking payments needs a merchant API key signed in
+  const [terminal, setTerminal] = useState<Principal | null>(null);
+  const [terminalKey, setTerminalKey] = useState('');
+  const merchants = useMerchants(terminal?.role);
+  const [merchantId, setMerchantId] = useState('');
+  const [mode, setMode] = useState<NfcMode>('read');
+  const [tagId, setTagId] = useState('');
+  const [tagAmount, setTagAmount] = useState('');
+  const [isWriting, setIsWriting] = useState(false);
+  const [writtenLink, setWrittenLink] = useState<string | null>(null);
+  // Key for the payment in progress, shared by any duplicate submits of it
+  const paymentKey = useRef<string | null>(null);
 
   // Check for Web NFC support on mount and read URL params
   useEffect(() => {
@@ -36,92 +40,183 @@ export default function NFCPage() {
       // Check for NDEFReader which indicates Web NFC support
       setIsNFCSupported('NDEFReader' in window);
 
-      // Check if PAN is in URL (from NFC tag tap)
+      // Check if a tag id (or, on older tags, the PAN) is in the URL (from NFC tag tap)
       const params = new URLSearchParams(window.location.search);
+      const tagFromUrl = params.get('tag');
       const panFromUrl = params.get('pan');
-      if (panFromUrl) {
-        setScannedPAN(panFromUrl);
+      const card: PaymentCard | null = tagFromUrl ? { tagId: tagFromUrl } : panFromUrl ? { pan: panFromUrl } : null;
+      if (card) {
+        if ('tagId' in card) {
+          setScannedTag(card.tagId);
+          // Keep the tag id out of the address bar and browser history
+          window.history.replaceState(null, '', window.location.pathname);
+        } else {
+          setScannedPAN(card.pan);
+        }
         // Auto-process payment if amount is also provided
         const amountFromUrl = params.get('amount');
         if (amountFromUrl) {
           setTransactionAmount(amountFromUrl);
           // Auto-process payment after a short delay
-          setTimeout(() => {
-            processPayment(panFromUrl);
+          const timer = setTimeout(() => {
+            processPayment(card, amountFromUrl, params.get('currency') ?? undefined);
           }, 500);
+          return () => clearTimeout(timer);
         }
       }
     }
   }, []);
 
+  // Pick up the terminal's session from an earlier visit
+  useEffect(() => {
+    fetch('/api/marqeta/session')
+      .then((response) => response.json())
+      .then((data) => setTerminal(data.success ? data.data : null))
+      .catch(() => undefined);
+  }, []);
+
+  const signInTerminal = async () => {
+    setError(null);
+    try {
+      const response = await fetch('/api/marqeta/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ apiKey: terminalKey.trim() })
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setTerminal(data.data);
+        setTerminalKey('');
+      } else {
+        setError(data.error || 'Failed to sign in');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in');
+    }
+  };
+
+  const signOutTerminal = async () => {
+    try {
+      await fetch('/api/marqeta/session', { method: 'DELETE' });
+    } catch (err) {
+      console.error('Failed to sign out:', err);
+    }
+    setTerminal(null);
+  };
+
   const startNFCReading = async () => {
     setError(null);
     setTransactionResult(null);
     setSetupRequired(false);
 
-    if (!isNFCSupported) {
+    const ndef = createNdefReader();
+    if (!ndef) {
       setError('NFC is not supported in this browser. Please use Chrome on Android or a React Native app with NFC capabilities.');
       return;
     }
 
     try {
       setIsReading(true);
-
-      // @ts-ignore - NDEFReader is not in standard TypeScript types yet
-      const ndef = new NDEFReader();
-
-      // @ts-ignore
       await ndef.scan();
 
-      // @ts-ignore
-      ndef.onreading = (event: any) => {
+      ndef.onreading = (event) => {
         setIsReading(false);
 
-        // Extract the PAN from the NFC card
-        const textDecoder = new TextDecoder();
-        const textRecord = event.message.records[0]; // Assuming first record contains the data
-
-        if (textRecord) {
-          const pan = textDecoder.decode(textRecord.data);
-          setScannedPAN(pan.trim());
+        // Tags may hold a payment URL, a tag id or card number as text, or JSON, in any record
+        const payment = findTagPayment(fromWebNfcRecords(event.message.records));
+
+        if (payment?.link) {
+          window.location.assign(payment.link);
+        } else if (payment?.tag || payment?.pan) {
+          setScannedTag(payment.tag ?? null);
+          setScannedPAN(payment.tag ? null : payment.pan ?? null);
+          if (payment.amount) {
+            setTransactionAmount(payment.amount);
+          }
           // Auto-process payment after scanning
-          processPayment(pan.trim());
+          processPayment(payment.tag ? { tagId: payment.tag } : { pan: payment.pan ?? '' }, payment.amount, payment.currency);
         } else {
-          setError('No data found on NFC card. Please ensure the card contains the PAN.');
-          setIsReading(false);
+          setError('No payment data found on this NFC tag. It should hold a payment link or a tag id.');
         }
       };
 
-      // @ts-ignore
       ndef.onreadingerror = () => {
         setError('Failed to read NFC card. Please try again.');
         setIsReading(false);
       };
 
-    } catch (err: any) {
+    } catch (err) {
       setIsReading(false);
-      setError(err.message || 'Failed to start NFC reading');
+      setError(err instanceof Error ? err.message : 'Failed to start NFC reading');
+    }
+  };
+
+  // Write the payment link for a tag id (and optionally a fixed amount) to a tag
+  const writeTag = async () => {
+    setError(null);
+    setWrittenLink(null);
+
+    const tag = tagId.trim();
+    if (!tag.startsWith('tag_')) {
+      setError('Enter a tag id issued under NFC Tags on /marqeta');
+      return;
+    }
+
+    const ndef = createNdefReader();
+    if (!ndef) {
+      setError('Writing tags needs Web NFC (Chrome on Android).');
+      return;
+    }
+
+    const params = new URLSearchParams({ tag });
+    if (tagAmount) {
+      params.set('amount', tagAmount);
+    }
+    const link = `${window.location.origin}/nfc?${params}`;
+
+    setIsWriting(true);
+    try {
+      await ndef.write(paymentTagMessage(link));
+      setWrittenLink(link);
+    } catch (err) {
+      setError(err instanceof Error ? `Failed to write tag: ${err.message}` : 'Failed to write tag');
+    } finally {
+      setIsWriting(false);
     }
   };
 
-  const processPayment = async (pan: string) => {
+  const processPayment = async (card: PaymentCard, amount = transactionAmount, currency?: string) => {
+    paymentKey.current ??= createIdempotencyKey();
+
     try {
       const response = await fetch('/api/marqeta/nfc-pay', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          [IDEMPOTENCY_HEADER]: paymentKey.current
+        },
         body: JSON.stringify({
-          pan,
-          amount: parseFloat(transactionAmount),
-          autoClear: true
+          ...card,
+          amount,
+          currency,
+          autoClear: true,
+          merchantId: merchantId || undefined
         })
       });
 
       const data = await response.json();
 
+      // A duplicate submit of a payment that is still running; that one reports the result
+      if (data.code === 'IDEMPOTENCY_KEY_IN_USE') {
+        return;
+      }
+      paymentKey.current = null;
+
       if (data.success) {
         setTransactionResult(data.data);
       } else {
-        if (data.error?.includes('Card not found')) {
+        if (data.code === 'CARD_NOT_FOUND') {
           setSetupRequired(true);
         }
         setError(data.error || 'Transaction failed');
@@ -138,7 +233,8 @@ export default function NFCPage() {
     }
     setError(null);
     setTransactionResult(null);
-    processPayment(scannedPAN);
+    setScannedTag(null);
+    processPayment({ pan: scannedPAN });
   };
 
   return (
@@ -191,70 +287,186 @@ export default function NFCPage() {
             </div>
           </div>
 
-          {/* Amount Input */}
-          <div className="mb-6">
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Transaction Amount (USD)
-            </label>
-            <input
-              type="number"
-              step="0.01"
-              min="0.01"
-              max="100.00"
-              value={transactionAmount}
-              onChange={(e) => setTransactionAmount(e.target.value)}
-              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent text-lg"
-              placeholder="10.00"
-            />
+          {/* Terminal Sign In */}
+          <div className="mb-6 p-4 rounded-lg border border-gray-200 text-sm">
+            {terminal ? (
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-gray-700">
+                  Terminal signed in as <strong>{terminal.name}</strong> ({terminal.role})
+                </p>
+                <button
+                  onClick={signOutTerminal}
+                  className="px-3 py-1 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50"
+                >
+                  Sign Out
+                </button>
+              </div>
+            ) : (
+              <>
+                <div className="flex gap-2">
+                  <input
+                    type="password"
+                    value={terminalKey}
+                    onChange={(e) => setTerminalKey(e.target.value)}
+                    className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md font-mono"
+                    placeholder="Merchant API key (key_...)"
+                    autoComplete="off"
+                  />
+                  <button
+                    onClick={signInTerminal}
+                    disabled={!terminalKey.trim()}
+                    className="px-4 py-2 font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Sign In
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  Taking payments needs a merchant API key; an admin issues one at /api/marqeta/api-keys.
+                </p>
+              </>
+            )}
           </div>
 
-          {/* NFC Reading Button */}
-          {isNFCSupported && (
-            <button
-              onClick={startNFCReading}
-              disabled={isReading}
-              className="w-full mb-6 px-6 py-4 border border-transparent text-base font-medium rounded-lg shadow-sm text-white bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-3"
-            >
-              {isReading ? (
-                <>
-                  <svg className="animate-spin h-5 w-5" fill="none" viewBox="0 0 24 24">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                  </svg>
-                  Hold NFC card near reader...
-                </>
-              ) : (
-                <>
-                  <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v1m6 11h2m-6 0h-2v4m0-11v3m0 0h.01M12 12h4.01M16 20h4M4 12h4m12 0h.01M5 8h2a1 1 0 001-1V5a1 1 0 00-1-1H5a1 1 0 00-1 1v2a1 1 0 001 1zm12 0h2a1 1 0 001-1V5a1 1 0 00-1-1h-2a1 1 0 00-1 1v2a1 1 0 001 1zM5 20h2a1 1 0 001-1v-2a1 1 0 00-1-1H5a1 1 0 00-1 1v2a1 1 0 001 1z" />
-                  </svg>
-                  Tap to Scan NFC Card
-                </>
+          {/* Mode Toggle */}
+          <div className="mb-6 grid grid-cols-2 gap-2 p-1 bg-gray-100 rounded-lg">
+            {(['read', 'write'] as NfcMode[]).map((option) => (
+              <button
+                key={option}
+                onClick={() => {
+                  setMode(option);
+                  setError(null);
+                }}
+                className={`px-4 py-2 rounded-md text-sm font-medium ${mode === option ? 'bg-white shadow text-indigo-700' : 'text-gray-600 hover:text-gray-900'}`}
+              >
+                {option === 'read' ? 'Take Payment' : 'Write Tag'}
+              </button>
+            ))}
+          </div>
+
+          {mode === 'read' ? (
+            <>
+              {/* Amount Input */}
+              <div className="mb-6">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Transaction Amount (USD)
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  max="100.00"
+                  value={transactionAmount}
+                  onChange={(e) => setTransactionAmount(e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent text-lg"
+                  placeholder="10.00"
+                />
+              </div>
+
+              {/* Merchant Picker */}
+              <div className="mb-6">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Merchant
+                </label>
+                <select
+                  value={merchantId}
+                  onChange={(e) => setMerchantId(e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                >
+                  {merchants.map((merchant) => (
+                    <option key={merchant.token} value={merchant.token}>{merchantLabel(merchant)}</option>
+                  ))}
+                </select>
+              </div>
+
+              {/* NFC Reading Button */}
+              {isNFCSupported && (
+                <button
+                  onClick={startNFCReading}
+                  disabled={isReading}
+                  className="w-full mb-6 px-6 py-4 border border-transparent text-base font-medium rounded-lg shadow-sm text-white bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-3"
+                >
+                  {isReading ? (
+                    <>
+                      <svg className="animate-spin h-5 w-5" fill="none" viewBox="0 0 24 24">
+                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                      </svg>
+                      Hold NFC card near reader...
+                    </>
+                  ) : (
+                    <>
+                      <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v1m6 11h2m-6 0h-2v4m0-11v3m0 0h.01M12 12h4.01M16 20h4M4 12h4m12 0h.01M5 8h2a1 1 0 001-1V5a1 1 0 00-1-1H5a1 1 0 00-1 1v2a1 1 0 001 1zm12 0h2a1 1 0 001-1V5a1 1 0 00-1-1h-2a1 1 0 00-1 1v2a1 1 0 001 1zM5 20h2a1 1 0 001-1v-2a1 1 0 00-1-1H5a1 1 0 00-1 1v2a1 1 0 001 1z" />
+                      </svg>
+                      Tap to Scan NFC Card
+                    </>
+                  )}
+                </button>
               )}
-            </button>
-          )}
 
-          {/* Manual PAN Input (for testing without NFC card) */}
-          <div className="mb-6 p-4 bg-gray-50 rounded-lg">
-            <p className="text-sm font-medium text-gray-700 mb-2">
-              Manual PAN Entry (for testing)
-            </p>
-            <div className="flex gap-2">
+              {/* Manual PAN Input (for testing without NFC card) */}
+              <div className="mb-6 p-4 bg-gray-50 rounded-lg">
+                <p className="text-sm font-medium text-gray-700 mb-2">
+                  Manual PAN Entry (for testing)
+                </p>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={scannedPAN || ''}
+                    onChange={(e) => setScannedPAN(e.target.value)}
+                    className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent font-mono"
+                    placeholder="Enter card PAN (e.g., 5112345123451234)"
+                  />
+                  <button
+                    onClick={handleManualPANSubmit}
+                    className="px-4 py-2 bg-gray-800 text-white rounded-lg hover:bg-gray-900 font-medium"
+                  >
+                    Process
+                  </button>
+                </div>
+              </div>
+            </>
+          ) : (
+            <div className="mb-6 p-4 bg-gray-50 rounded-lg">
+              <p className="text-sm text-gray-700 mb-4">
+                Write a payment link to a blank or rewritable tag. Tapping the tag later opens this page and charges the card the tag id is bound to; the card number itself is never on the tag.
+              </p>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Tag ID
+              </label>
               <input
                 type="text"
-                value={scannedPAN || ''}
-                onChange={(e) => setScannedPAN(e.target.value)}
-                className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent font-mono"
-                placeholder="Enter card PAN (e.g., 5112345123451234)"
+                value={tagId}
+                onChange={(e) => setTagId(e.target.value)}
+                className="w-full mb-4 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent font-mono"
+                placeholder="tag_... (issued under NFC Tags on /marqeta)"
+              />
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Fixed Amount (optional)
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={tagAmount}
+                onChange={(e) => setTagAmount(e.target.value)}
+                className="w-full mb-4 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                placeholder="Leave empty to enter the amount at payment time"
               />
               <button
-                onClick={handleManualPANSubmit}
-                className="px-4 py-2 bg-gray-800 text-white rounded-lg hover:bg-gray-900 font-medium"
+                onClick={writeTag}
+                disabled={isWriting || !isNFCSupported}
+                className="w-full px-6 py-3 text-white font-medium rounded-lg bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                Process
+                {isWriting ? 'Hold tag near the phone...' : 'Write Tag'}
               </button>
+              {writtenLink && (
+                <p className="mt-4 text-sm text-green-800 break-all">
+                  ✓ Tag written: <code className="font-mono">{writtenLink}</code>
+                </p>
+              )}
             </div>
-          </div>
+          )}
 
           {/* Error Display */}
           {error && (
@@ -278,7 +490,7 @@ export default function NFCPage() {
           )}
 
           {/* Scanned Card Display */}
-          {scannedPAN && !transactionResult && (
+          {(scannedTag || scannedPAN) && !transactionResult && (
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
               <div className="flex items-center gap-3">
                 <svg className="w-6 h-6 text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -286,7 +498,9 @@ export default function NFCPage() {
                 </svg>
                 <div>
                   <p className="text-sm font-medium text-blue-900">Card Scanned</p>
-                  <p className="text-xs text-blue-700 font-mono">**** **** **** {scannedPAN.slice(-4)}</p>
+                  <p className="text-xs text-blue-700 font-mono">
+                    {scannedTag ? 'NFC tag' : `**** **** **** ${scannedPAN?.slice(-4)}`}
+                  </p>
                 </div>
               </div>
             </div>
@@ -313,7 +527,7 @@ export default function NFCPage() {
                     <div className="flex justify-between">
                       <span className="text-gray-600">Amount:</span>
                       <span className="font-medium">
-                        ${((transactionResult.transaction?.amount || 0) / 100).toFixed(2)}
+                        {formatMoney(moneyIn(transactionResult.transaction?.amount || 0, transactionResult.transaction?.currency_code))}
                       </span>
                     </div>
                     <div className="flex justify-between">
@@ -350,17 +564,17 @@ export default function NFCPage() {
           <div className="bg-indigo-50 border border-indigo-200 rounded-lg p-6">
             <h3 className="text-lg font-medium text-indigo-900 mb-3">NFC Card Data Format</h3>
             <p className="text-sm text-indigo-800 mb-4">
-              Store the following data on your NFC card as plain text (NDEF Text Record):
+              Tags hold a tag id bound to a card, so a lost tag can be revoked without reissuing the card. Write it as a payment URL (URI record), as plain text (Text record), or as JSON such as {'{"tag": "tag_...", "amount": "10.00"}'} in a Text or application/json record. Every record on the tag is checked. For example:
             </p>
             <div className="bg-white rounded-lg p-4 border border-indigo-300">
-              <p className="text-xs text-indigo-600 mb-2">Copy this exact PAN to your NFC card:</p>
+              <p className="text-xs text-indigo-600 mb-2">Write this URL to your NFC card:</p>
               <code className="text-sm font-mono text-indigo-900 break-all">
-                5112345123451234
+                {typeof window !== 'undefined' ? window.location.origin : ''}/nfc?tag=tag_...
               </code>
             </div>
             <p className="text-xs text-indigo-700 mt-3">
-              Note: Replace with your actual card PAN after setting up JIT funding at{' '}
-              <a href="/marqeta" className="underline hover:text-indigo-900">/marqeta</a>
+              Note: Issue a tag id for your card under NFC Tags at{' '}
+              <a href="/marqeta" className="underline hover:text-indigo-900">/marqeta</a>. Tags holding the card PAN still work but should be rewritten.
             </p>
           </div>
         </div>
@@ -375,7 +589,7 @@ export default function NFCPage() {
               </div>
               <div>
                 <p className="font-medium">Setup JIT Funding</p>
-                <p className="text-sm text-gray-600">Go to <a href="/marqeta" className="text-indigo-600 underline">/marqeta</a> to create your virtual card and get the PAN</p>
+                <p className="text-sm text-gray-600">Go to <a href="/marqeta" className="text-indigo-600 underline">/marqeta</a> to create your virtual card and issue a tag id for it</p>
               </div>
             </div>
             <div className="flex items-start">
@@ -383,8 +597,8 @@ export default function NFCPage() {
                 2
               </div>
               <div>
-                <p className="font-medium">Write PAN to NFC Card</p>
-                <p className="text-sm text-gray-600">Use an NFC writer tool (like NFC Tools on Android) to store the card PAN as a plain text NDEF record</p>
+                <p className="font-medium">Write Tag ID to NFC Card</p>
+                <p className="text-sm text-gray-600">Use the Write Tag mode above (Chrome on Android), or an NFC writer tool like NFC Tools, to store the tag&apos;s payment link on the tag</p>
               </div>
             </div>
             <div className="flex items-start">
@@ -421,7 +635,7 @@ export default function NFCPage() {
             <h3 className="font-medium text-gray-900 mb-2">Step 1: Create Your NFC Tag URL</h3>
             <p className="text-sm text-gray-600 mb-2">Use an NFC writer app (like "NFC Tools") to write this URL to your tag:</p>
             <code className="text-xs bg-gray-100 px-3 py-2 rounded block break-all text-purple-700">
-              {typeof window !== 'undefined' ? `${window.location.origin}/nfc?pan=5112345123451234&amount=10.00` : '/nfc?pan=5112345123451234&amount=10.00'}
+              {typeof window !== 'undefined' ? `${window.location.origin}/nfc?tag=tag_...&amount=10.00` : '/nfc?tag=tag_...&amount=10.00'}
             </code>
           </div>
 
@@ -438,8 +652,8 @@ export default function NFCPage() {
             <div className="space-y-2">
               <input
                 type="text"
-                id="customPan"
-                placeholder="Card PAN (e.g., 5112345123451234)"
+                id="customTag"
+                placeholder="Tag ID (e.g., tag_...)"
                 className="w-full px-3 py-2 border border-gray-300 rounded text-sm"
               />
               <input
@@ -451,10 +665,10 @@ export default function NFCPage() {
               />
               <button
                 onClick={() => {
-                  const pan = (document.getElementById('customPan') as HTMLInputElement)?.value;
+                  const tag = (document.getElementById('customTag') as HTMLInputElement)?.value.trim();
                   const amount = (document.getElementById('customAmount') as HTMLInputElement)?.value;
-                  if (pan && amount && typeof window !== 'undefined') {
-                    const url = `${window.location.origin}/nfc?pan=${pan}&amount=${amount}`;
+                  if (tag && amount && typeof window !== 'undefined') {
+                    const url = `${window.location.origin}/nfc?${new URLSearchParams({ tag, amount })}`;
                     navigator.clipboard.writeText(url);
                     alert('URL copied! Paste this into your NFC writer app:\n\n' + url);
                   }
@@ -0,0 +1,190 @@
+import { useState, useEffect, useRef } from 'react';
+import { useRouter } from 'next/router';
+import jsQR from 'jsqr';
+
+/**
+ * Path a scanned payment QR code leads to (null when it is not one of ours)
+ *
+ * Payment request links (/nfc/<id>) and NFC payment links (/nfc?...) on this
+ * app's origin are accepted; anything else is refused rather than opened.
+ */
+function paymentPath(text: string, origin: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(text.trim(), origin);
+  } catch {
+    return null;
+  }
+  if (url.origin !== origin || !/^\/nfc(\/[^/]+)?$/.test(url.pathname)) {
+    return null;
+  }
+  return `${url.pathname}${url.search}`;
+}
+
+export default function ScanPage() {
+  const router = useRouter();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const frameRef = useRef<number | null>(null);
+
+  const [isScanning, setIsScanning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [scannedPath, setScannedPath] = useState<string | null>(null);
+  const [manualLink, setManualLink] = useState('');
+
+  const stopCamera = () => {
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    }
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    setIsScanning(false);
+  };
+
+  // Release the camera when leaving the page
+  useEffect(() => stopCamera, []);
+
+  const openPayment = (text: string) => {
+    const path = paymentPath(text, window.location.origin);
+    if (!path) {
+      setError('This QR code is not a payment link for this app.');
+      return;
+    }
+    setError(null);
+    setScannedPath(path);
+    router.push(path);
+  };
+
+  // Decode one video frame; keeps going until a code is found or the camera stops
+  const scanFrame = () => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    if (!video || !canvas || !streamRef.current) {
+      return;
+    }
+
+    if (video.readyState === video.HAVE_ENOUGH_DATA) {
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      const context = canvas.getContext('2d', { willReadFrequently: true });
+      if (context) {
+        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+        const image = context.getImageData(0, 0, canvas.width, canvas.height);
+        const code = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+        if (code?.data) {
+          stopCamera();
+          openPayment(code.data);
+          return;
+        }
+      }
+    }
+
+    frameRef.current = requestAnimationFrame(scanFrame);
+  };
+
+  const startCamera = async () => {
+    setError(null);
+    setScannedPath(null);
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError('Camera access is not available in this browser. Paste the payment link below instead.');
+      return;
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: 'environment' },
+        audio: false
+      });
+      streamRef.current = stream;
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+      }
+      setIsScanning(true);
+      frameRef.current = requestAnimationFrame(scanFrame);
+    } catch (err) {
+      stopCamera();
+      setError(err instanceof Error ? `Could not start the camera: ${err.message}` : 'Could not start the camera');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl p-8 max-w-md w-full">
+        {/* Header */}
+        <div className="text-center mb-6">
+          <div className="w-16 h-16 bg-gradient-to-r from-indigo-600 to-purple-600 rounded-2xl flex items-center justify-center mx-auto mb-4">
+            <svg className="w-8 h-8 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4h6v6H4V4zm10 0h6v6h-6V4zM4 14h6v6H4v-6zm10 3h3m3 0h0m-6 3h6m-6-6h3" />
+            </svg>
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Scan to Pay</h1>
+          <p className="text-gray-600">Point the camera at a payment QR code</p>
+        </div>
+
+        {/* Camera */}
+        <div className={`mb-6 rounded-lg overflow-hidden bg-gray-900 aspect-square ${isScanning ? '' : 'hidden'}`}>
+          <video ref={videoRef} className="w-full h-full object-cover" playsInline muted />
+        </div>
+        <canvas ref={canvasRef} className="hidden" />
+
+        {isScanning ? (
+          <button
+            onClick={stopCamera}
+            className="w-full mb-6 px-6 py-3 border-2 border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 font-medium"
+          >
+            Stop Camera
+          </button>
+        ) : (
+          <button
+            onClick={startCamera}
+            className="w-full mb-6 px-6 py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 font-medium"
+          >
+            Start Camera
+          </button>
+        )}
+
+        {/* Error Display */}
+        {error && (
+          <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-sm text-red-800 text-center">{error}</p>
+          </div>
+        )}
+
+        {scannedPath && (
+          <div className="mb-6 bg-green-50 border border-green-200 rounded-lg p-4">
+            <p className="text-sm text-green-800 text-center">Opening payment...</p>
+          </div>
+        )}
+
+        {/* Manual Entry */}
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Or paste a payment link
+        </label>
+        <div className="flex gap-2">
+          <input
+            type="url"
+            value={manualLink}
+            onChange={(e) => setManualLink(e.target.value)}
+            className="flex-1 min-w-0 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            placeholder="https://.../nfc/..."
+          />
+          <button
+            onClick={() => openPayment(manualLink)}
+            disabled={!manualLink.trim()}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Open
+          </button>
+        </div>
+
+        <p className="text-xs text-gray-500 text-center mt-6">
+          Payment requests ask for the card number and PIN before charging.
+        </p>
+      </div>
+    </div>
+  );
+}